@@ -1,11 +1,24 @@
 "use client";
 
-import React, { useMemo, useState } from "react";
+import React, { useEffect, useMemo, useRef, useState } from "react";
+import Link from "next/link";
+import { useRouter } from "next/navigation";
 import ReportTabs from "@/components/ReportTabs";
+import TargetSchoolsPanel from "@/components/TargetSchoolsPanel";
+import YearlyTestsEditor from "@/components/YearlyTestsEditor";
+import type { AnalysisJob, JobStageStatus } from "@/lib/analysisJobs";
+import type { KokaiForecast } from "@/lib/forecast";
+import type { JukuTest } from "@/lib/jukuReportSchema";
+import type { TestProvenance } from "@/lib/provenance";
+import type { MistakeSummary, SingleQ } from "@/lib/mistakeSummary";
+import type { SubjectAnalysis } from "@/lib/subjectTrends";
+import { TARGET_SCALE_LABELS } from "@/lib/targetSchools";
+import type { Trend } from "@/lib/trendStats";
 
 type Tone = "gentle" | "balanced" | "strict";
 type Target = "student" | "parent" | "teacher";
 type FocusAxis = "mistake" | "process" | "knowledge" | "attitude";
+type ReportSection = { axis: FocusAxis | "target"; title: string; body: string };
 
 type GradeCheck = {
   isGradeReport: boolean;
@@ -29,9 +42,13 @@ type OcrSingleResult =
       name: string;
       size: number;
       text: string;
-      gradeCheck: GradeCheck;
-      reportJson: ReportJson | null;
-      reportJsonMeta: { ok: boolean; error: string | null } | null;
+      // ✅ 読み取り元（テキストレイヤ or モデルOCR）
+      textSource?: "text-layer" | "model-ocr";
+      // ✅ 単発：設問別（正答率・○×）
+      questionStats?: Array<SingleQ & { subject: string }>;
+      gradeCheck?: GradeCheck;
+      reportJson?: ReportJson | null;
+      reportJsonMeta?: { ok: boolean; error: string | null } | null;
     }
   | {
       ok: false;
@@ -45,19 +62,31 @@ type OcrSingleResult =
 type AnalyzeResponse = {
   summary: string;
 
+  // ✅ 履歴（analyses）の行ID / 保存日時（再表示時のみ）
+  analysisId?: string | null;
+  createdAt?: string;
+
   // ✅ 追加：APIが返す追加フィールド（既存を壊さないため optional）
   analysisMode?: "full" | "yearly-only";
   studentType?: "two" | "four";
   isTwoSubjectStudent?: boolean;
   warnings?: string[];
   reports?: {
-    menndan_1min: { title: string; body: string; bullets?: string[]; tags?: string[] };
+    primary?: "menndan_1min" | "child_simple" | "parent_handout";
+    menndan_1min: { title: string; body: string; bullets?: string[]; tags?: string[]; sections?: ReportSection[] };
     child_simple: { title: string; body: string; action?: string };
-    parent_handout: { title: string; summary: string; points: string[]; nextAction: string };
+    parent_handout: { title: string; summary: string; points: string[]; nextAction: string; sections?: ReportSection[] };
   };
-  mistakeSummary?: any;
+  mistakeSummary?: MistakeSummary;
   yearlyTrends?: any;
   commentary?: string;
+  student?: { id: string; name: string | null; timelineTests: number; added: number; updated: number } | null;
+
+  // ✅ 次回の公開模試の見込み（推定値・講師画面のみ）
+  forecast?: KokaiForecast | null;
+
+  // ✅ 講師が直した年間の成績表（/api/analyses/:id/recompute 後）
+  corrections?: { tests: JukuTest[]; provenance?: TestProvenance[]; correctedAt: string } | null;
 
   files: {
     singles: { path: string; name: string; size: number }[];
@@ -79,48 +108,53 @@ type AnalyzeResponse = {
     // ✅ 互換：route側が yearlyDebug / yearlyReportJsonMeta など返す場合の吸収
     yearlyDebug?: any;
     yearlyReportJsonMeta2?: any;
+
+    // ✅ yearlyReportJson.tests と同じ並びの欄ごとの出どころ・確からしさ
+    yearlyProvenance?: TestProvenance[] | null;
+
+    // ✅ OCRキャッシュ（同じPDFの再分析ならヒット）
+    cache?: { hits: number; misses: number };
   };
   selections: {
     tone: Tone;
     focus: FocusAxis[];
     target: Target;
   };
+  // ✅ 科目別の推移（公開模試の科目行から）
   analysis?: {
-    singles: {
-      subjects: {
-        name: string;
-        count: number;
-        avgDeviation: number | null;
-        lastDeviation: number | null;
-        minDeviation: number | null;
-      }[];
-      weakest: {
-        name: string;
-        count: number;
-        avgDeviation: number | null;
-        lastDeviation: number | null;
-        minDeviation: number | null;
-      } | null;
-    };
-    yearly: {
-      subjects: {
-        name: string;
-        deviation: number | null;
-        score: number | null;
-        avg: number | null;
-        rank: number | null;
-      }[];
-      weakest: {
-        name: string;
-        deviation: number | null;
-        score: number | null;
-        avg: number | null;
-        rank: number | null;
-      } | null;
-    };
+    yearly: SubjectAnalysis;
   };
 };
 
+// ✅ 分析ジョブ：実行中の jobId を残しておき、ページを再読み込みしても続きから待つ
+const JOB_STORAGE_KEY = "manabu:analyzeJobId";
+const JOB_POLL_MS = 2000;
+
+type JobView = Omit<AnalysisJob, "result"> & { result: AnalyzeResponse | null };
+
+const STAGE_MARK: Record<JobStageStatus, string> = {
+  pending: "・",
+  running: "⏳",
+  done: "✅",
+  failed: "❌",
+};
+
+const TREND_LABELS: Record<Trend, string> = {
+  up: "上昇",
+  down: "下降",
+  flat: "横ばい",
+  unknown: "判定不可",
+};
+
+function formatChange(v: number | null) {
+  if (v == null) return "-";
+  return v > 0 ? `+${v.toFixed(1)}` : v.toFixed(1);
+}
+
+function sleep(ms: number) {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
 function formatBytes(bytes: number) {
   if (!Number.isFinite(bytes)) return "-";
   const units = ["B", "KB", "MB", "GB"];
@@ -133,10 +167,15 @@ function formatBytes(bytes: number) {
   return `${v.toFixed(i === 0 ? 0 : 1)} ${units[i]}`;
 }
 
-export default function AnalyzeClient() {
+export default function AnalyzeClient({ analysisId }: { analysisId?: string }) {
+  const router = useRouter();
   const [singleFiles, setSingleFiles] = useState<FileList | null>(null);
   const [yearlyFile, setYearlyFile] = useState<File | null>(null);
 
+  // ✅ 生徒ID/氏名（空ならOCRから拾った値を使う）
+  const [studentId, setStudentId] = useState("");
+  const [studentName, setStudentName] = useState("");
+
   const [tone, setTone] = useState<Tone>("gentle");
   const [target, setTarget] = useState<Target>("student");
   const [focus, setFocus] = useState<FocusAxis[]>(["mistake"]);
@@ -144,9 +183,96 @@ export default function AnalyzeClient() {
   const [loading, setLoading] = useState(false);
   const [err, setErr] = useState<string | null>(null);
   const [result, setResult] = useState<AnalyzeResponse | null>(null);
+  const [job, setJob] = useState<JobView | null>(null);
+
+  // いまポーリングしている jobId（別のジョブを始めた / 画面を離れたら止める）
+  const pollingRef = useRef<string | null>(null);
 
   const singleCount = singleFiles?.length ?? 0;
 
+  async function pollJob(jobId: string) {
+    pollingRef.current = jobId;
+    let failures = 0;
+    try {
+      while (pollingRef.current === jobId) {
+        const r = await fetch(`/api/analyze/jobs/${encodeURIComponent(jobId)}`, { cache: "no-store" }).catch(() => null);
+        if (pollingRef.current !== jobId) return;
+
+        if (!r || r.status >= 500) {
+          // 一時的な失敗は数回まで待つ
+          if (++failures >= 5) throw new Error("分析の状況を取得できませんでした");
+          await sleep(JOB_POLL_MS);
+          continue;
+        }
+        if (!r.ok) {
+          const t = await r.text().catch(() => "");
+          throw new Error(r.status === 404 ? "分析ジョブが見つかりません" : t || `Server error (${r.status})`);
+        }
+
+        failures = 0;
+        const data = (await r.json()) as JobView;
+        setJob(data);
+
+        if (data.status === "succeeded") {
+          setResult(data.result);
+          return;
+        }
+        if (data.status === "failed") throw new Error(data.error ?? "分析に失敗しました");
+
+        await sleep(JOB_POLL_MS);
+      }
+    } catch (e) {
+      if (pollingRef.current === jobId) setErr(e instanceof Error ? e.message : "エラーが発生しました");
+    } finally {
+      if (pollingRef.current === jobId) {
+        pollingRef.current = null;
+        localStorage.removeItem(JOB_STORAGE_KEY);
+        setLoading(false);
+      }
+    }
+  }
+
+  // ✅ 分析中に再読み込みされたとき：残っている jobId の続きを待つ
+  useEffect(() => {
+    if (analysisId) return;
+    const saved = localStorage.getItem(JOB_STORAGE_KEY);
+    if (saved) {
+      (async () => {
+        setLoading(true);
+        await pollJob(saved);
+      })();
+    }
+    return () => {
+      pollingRef.current = null;
+    };
+  }, [analysisId]);
+
+  // ✅ 履歴から開いたとき：保存済みの結果をそのまま表示（再OCRしない）
+  useEffect(() => {
+    if (!analysisId) return;
+    let cancelled = false;
+    (async () => {
+      setLoading(true);
+      setErr(null);
+      try {
+        const r = await fetch(`/api/analyses/${encodeURIComponent(analysisId)}`);
+        if (!r.ok) {
+          const t = await r.text().catch(() => "");
+          throw new Error(t || `Server error (${r.status})`);
+        }
+        const data = (await r.json()) as AnalyzeResponse;
+        if (!cancelled) setResult(data);
+      } catch (e) {
+        if (!cancelled) setErr(e instanceof Error ? e.message : "履歴の読み込みに失敗しました");
+      } finally {
+        if (!cancelled) setLoading(false);
+      }
+    })();
+    return () => {
+      cancelled = true;
+    };
+  }, [analysisId]);
+
   const focusOptions: { key: FocusAxis; label: string; desc: string }[] = useMemo(
     () => [
       { key: "mistake", label: "ミス分析", desc: "取りこぼし・ケアレスミス・傾向" },
@@ -168,6 +294,7 @@ export default function AnalyzeClient() {
     e.preventDefault();
     setErr(null);
     setResult(null);
+    setJob(null);
 
     if (!singleFiles && !yearlyFile) {
       setErr("PDFを選択してください（単発か年間のどちらか）。");
@@ -188,6 +315,9 @@ export default function AnalyzeClient() {
         fd.append("yearly", yearlyFile);
       }
 
+      if (studentId.trim()) fd.append("studentId", studentId.trim());
+      if (studentName.trim()) fd.append("studentName", studentName.trim());
+
       fd.append("tone", tone);
       fd.append("target", target);
       fd.append("focus", JSON.stringify(focus));
@@ -202,18 +332,37 @@ export default function AnalyzeClient() {
         throw new Error(t || `Server error (${r.status})`);
       }
 
-      const data = (await r.json()) as AnalyzeResponse;
-      setResult(data);
+      // ✅ ジョブを作っただけで返ってくる → 結果はポーリングで受け取る
+      const { jobId } = (await r.json()) as { jobId: string };
+      localStorage.setItem(JOB_STORAGE_KEY, jobId);
+      await pollJob(jobId);
     } catch (e: any) {
       setErr(e?.message ?? "エラーが発生しました");
-    } finally {
       setLoading(false);
     }
   }
 
   return (
     <div style={{ maxWidth: 980, margin: "0 auto", padding: 18 }}>
-      <h1 style={{ fontSize: 22, fontWeight: 800, marginBottom: 12 }}>分析モード</h1>
+      <div style={{ display: "flex", alignItems: "center", gap: 12, marginBottom: 12 }}>
+        <h1 style={{ fontSize: 22, fontWeight: 800 }}>分析モード</h1>
+        <Link href="/analyze/batch" style={{ marginLeft: "auto", fontSize: 13 }}>
+          一括分析 →
+        </Link>
+        <Link href="/analyze/history" style={{ fontSize: 13 }}>
+          分析履歴 →
+        </Link>
+        <button
+          type="button"
+          onClick={async () => {
+            await fetch("/api/logout", { method: "POST" }).catch(() => null);
+            router.replace("/login/teacher");
+          }}
+          style={{ fontSize: 13, padding: "4px 10px", borderRadius: 8, border: "1px solid #bbb", background: "#fff" }}
+        >
+          ログアウト
+        </button>
+      </div>
 
       <form onSubmit={onSubmit}>
         {/* ① Upload */}
@@ -255,6 +404,28 @@ export default function AnalyzeClient() {
           </div>
         </div>
 
+        {/* 生徒 */}
+        <div style={{ border: "1px solid #ddd", borderRadius: 12, padding: 14, marginTop: 12 }}>
+          <div style={{ fontWeight: 800, marginBottom: 6 }}>生徒</div>
+          <div style={{ color: "#666", fontSize: 13, marginBottom: 10 }}>
+            生徒IDを入れると、過去の分析の受験履歴と統合して推移を判定します（空欄ならPDFから読み取り）
+          </div>
+          <div style={{ display: "flex", gap: 8 }}>
+            <input
+              value={studentId}
+              onChange={(e) => setStudentId(e.target.value)}
+              placeholder="生徒ID（例：S123456）"
+              style={{ padding: "8px 10px", border: "1px solid #ccc", borderRadius: 8, fontSize: 14 }}
+            />
+            <input
+              value={studentName}
+              onChange={(e) => setStudentName(e.target.value)}
+              placeholder="氏名（任意）"
+              style={{ padding: "8px 10px", border: "1px solid #ccc", borderRadius: 8, fontSize: 14 }}
+            />
+          </div>
+        </div>
+
         {/* ② Teacher selections */}
         <div style={{ border: "1px solid #ddd", borderRadius: 12, padding: 14, marginTop: 12 }}>
           <div style={{ fontWeight: 800, marginBottom: 10 }}>③ 講師の視点（出力設定）</div>
@@ -332,6 +503,8 @@ export default function AnalyzeClient() {
             onClick={() => {
               setSingleFiles(null);
               setYearlyFile(null);
+              setStudentId("");
+              setStudentName("");
               setResult(null);
               setErr(null);
             }}
@@ -350,6 +523,17 @@ export default function AnalyzeClient() {
 
           {err && <div style={{ color: "#b00", fontWeight: 700 }}>{err}</div>}
         </div>
+
+        {/* ✅ 分析ジョブの進み具合（再読み込みしても続きから表示） */}
+        {job && job.status !== "succeeded" && (
+          <div style={{ marginTop: 10, fontSize: 13, color: "#444" }}>
+            {job.stages.map((st) => (
+              <div key={st.key} style={{ fontWeight: st.status === "running" ? 700 : 400 }}>
+                {STAGE_MARK[st.status]} {st.label}
+              </div>
+            ))}
+          </div>
+        )}
       </form>
 
       {/* Result */}
@@ -358,6 +542,11 @@ export default function AnalyzeClient() {
           <div style={{ border: "1px solid #ddd", borderRadius: 12, padding: 14 }}>
             <div style={{ fontWeight: 900, marginBottom: 8 }}>結果</div>
             <div style={{ color: "#333" }}>{result.summary}</div>
+            {result.createdAt && (
+              <div style={{ fontSize: 12, color: "#666", marginTop: 4 }}>
+                保存済みの分析（{new Date(result.createdAt).toLocaleString("ja-JP")}）
+              </div>
+            )}
 
             <div style={{ marginTop: 10, fontSize: 13, color: "#555" }}>
               設定：tone=<b>{result.selections?.tone}</b> / target=<b>{result.selections?.target}</b> / focus=
@@ -372,6 +561,13 @@ export default function AnalyzeClient() {
                     モード：<b>{result.analysisMode}</b>
                   </div>
                 )}
+                {result.student && (
+                  <div>
+                    生徒：<b>{result.student.name ?? "（氏名不明）"}</b>（{result.student.id}）／ 受験履歴{" "}
+                    {result.student.timelineTests}件（今回 追加{result.student.added}・更新{result.student.updated}）{" "}
+                    <Link href={`/consult?student=${encodeURIComponent(result.student.id)}`}>この生徒について相談 →</Link>
+                  </div>
+                )}
                 {result.studentType && (
                   <div>
                     判定：<b>{result.studentType}</b>
@@ -406,77 +602,172 @@ export default function AnalyzeClient() {
             )}
           </div>
 
-          {/* ★追加：analysis表示（カットなし追記） */}
+          {/* ✅ 年間の成績表：講師が確認・修正 → 再計算（再OCRなし） */}
+          {(result.corrections || result.files?.yearly) && (
+            <div style={{ marginTop: 12, border: "1px solid #ddd", borderRadius: 12, padding: 14 }}>
+              <YearlyTestsEditor
+                key={result.corrections?.correctedAt ?? "extracted"}
+                analysisId={result.analysisId}
+                tests={result.corrections?.tests ?? (result.ocr?.yearlyReportJson as { tests?: JukuTest[] } | null)?.tests ?? []}
+                provenance={result.corrections ? result.corrections.provenance : result.ocr?.yearlyProvenance}
+                correctedAt={result.corrections?.correctedAt}
+                onRecomputed={(data) => setResult(data as AnalyzeResponse)}
+              />
+            </div>
+          )}
+
+          {/* ✅ 次回の公開模試の見込み（推定値。保護者向けレポートには入れない） */}
+          {result.forecast && (
+            <div style={{ marginTop: 12, border: "1px dashed #999", borderRadius: 12, padding: 14 }}>
+              <div style={{ display: "flex", alignItems: "baseline", gap: 8 }}>
+                <div style={{ fontWeight: 900 }}>📈 次回の公開模試（推定）</div>
+                <div style={{ fontSize: 12, color: "#666" }}>講師用の参考値です。保護者・生徒向けレポートには載りません。</div>
+              </div>
+              <div style={{ marginTop: 8, fontSize: 14 }}>
+                偏差値 <b style={{ fontSize: 20 }}>{result.forecast.predicted}</b> 前後（
+                {result.forecast.low}〜{result.forecast.high}）
+                <span style={{ marginLeft: 8, fontSize: 12, color: "#666" }}>
+                  公開模試（{TARGET_SCALE_LABELS[result.forecast.scale]}）{result.forecast.basedOn}回分から推定／確からしさ：{result.forecast.confidence}
+                </span>
+              </div>
+              <ul style={{ margin: "6px 0 0 18px", fontSize: 13, color: "#444" }}>
+                {result.forecast.drivers.map((d, i) => (
+                  <li key={i}>{d}</li>
+                ))}
+              </ul>
+            </div>
+          )}
+
+          {/* ✅ 志望校との差（生徒IDがあるときだけ登録できる） */}
+          {result.student && (
+            <div style={{ marginTop: 12, border: "1px solid #ddd", borderRadius: 12, padding: 14 }}>
+              <TargetSchoolsPanel
+                key={result.student.id}
+                studentId={result.student.id}
+                kokai={{ four: result.yearlyTrends?.kokaiFourValues ?? [], two: result.yearlyTrends?.kokaiTwoValues ?? [] }}
+                isTwoSubjectStudent={!!result.isTwoSubjectStudent}
+              />
+            </div>
+          )}
+
+          {/* ✅ 単発ミス分析（A/B/C） */}
+          {result.mistakeSummary && (
+            <div style={{ marginTop: 12, border: "1px solid #ddd", borderRadius: 12, padding: 14 }}>
+              <div style={{ fontWeight: 900, marginBottom: 8 }}>🧩 単発ミス分析（正答率 A/B/C）</div>
+              <div style={{ fontSize: 13, color: "#555" }}>{result.mistakeSummary.message}</div>
+
+              {!!result.mistakeSummary.subjects?.length && (
+                <table style={{ width: "100%", borderCollapse: "collapse", fontSize: 13, marginTop: 8 }}>
+                  <thead>
+                    <tr>
+                      <th style={{ textAlign: "left", borderBottom: "1px solid #ddd", padding: "6px 0" }}>科目</th>
+                      {(["A", "B", "C"] as const).map((lv) => (
+                        <th key={lv} style={{ textAlign: "right", borderBottom: "1px solid #ddd", padding: "6px 0" }}>
+                          {lv}（×/問）
+                        </th>
+                      ))}
+                      <th style={{ textAlign: "right", borderBottom: "1px solid #ddd", padding: "6px 0" }}>A/B失点</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {result.mistakeSummary.subjects.map((s) => (
+                      <tr key={s.subject}>
+                        <td style={{ padding: "6px 0" }}>{s.label}</td>
+                        {(["A", "B", "C"] as const).map((lv) => (
+                          <td key={lv} style={{ textAlign: "right" }}>
+                            {s.byLevel[lv].miss}/{s.byLevel[lv].total}
+                          </td>
+                        ))}
+                        <td style={{ textAlign: "right" }}>
+                          {s.abLostPoints != null ? `${s.abLostPoints}点` : `${s.abMiss}問`}
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              )}
+
+              {result.mistakeSummary.combined && (
+                <div style={{ marginTop: 8, fontWeight: 700 }}>{result.mistakeSummary.combined.insight}</div>
+              )}
+
+              {!!result.mistakeSummary.subjects?.length && (
+                <ul style={{ margin: "6px 0 0 18px", fontSize: 13, color: "#444" }}>
+                  {result.mistakeSummary.subjects.map((s) => (
+                    <li key={s.subject}>{s.insight}</li>
+                  ))}
+                </ul>
+              )}
+            </div>
+          )}
+
+          {/* ★追加：analysis表示（科目別の推移） */}
           {result?.analysis && (
             <div style={{ marginTop: 12 }}>
               <div style={{ border: "1px solid #ddd", borderRadius: 12, padding: 14 }}>
-                <div style={{ fontWeight: 900, marginBottom: 8 }}>📊 集計（analysis）</div>
-
-                <div style={{ padding: 12, border: "1px solid #eee", borderRadius: 12 }}>
-                  <div style={{ fontWeight: 800, marginBottom: 6 }}>単発（複数）の集計</div>
-
-                  {result.analysis.singles?.weakest ? (
-                    <div style={{ marginBottom: 8 }}>
-                      弱点（平均偏差値が低い）：
+                <div style={{ fontWeight: 900, marginBottom: 8 }}>📊 科目別の推移（公開模試）</div>
+
+                {result.analysis.yearly.subjects.length === 0 ? (
+                  <div style={{ color: "#666" }}>※年間の公開模試に科目別の列が無い（読めなかった）ため、集計できませんでした</div>
+                ) : (
+                  <>
+                    <div style={{ marginBottom: 4 }}>
+                      弱点（直近の平均偏差値が低い）：
                       <b>
-                        {result.analysis.singles.weakest.name}（
-                        {typeof result.analysis.singles.weakest.avgDeviation === "number"
-                          ? result.analysis.singles.weakest.avgDeviation.toFixed(1)
+                        {result.analysis.yearly.weakest
+                          ? `${result.analysis.yearly.weakest.name}（${result.analysis.yearly.weakest.recentAverage ?? "-"}）`
                           : "-"}
-                        ）
                       </b>
                     </div>
-                  ) : (
-                    <div style={{ color: "#666", marginBottom: 8 }}>※単発の成績JSONがまだ取れていないため、集計できませんでした</div>
-                  )}
+                    <div style={{ marginBottom: 8 }}>
+                      伸びた科目：
+                      <b>
+                        {result.analysis.yearly.mostImproved
+                          ? `${result.analysis.yearly.mostImproved.name}（${formatChange(result.analysis.yearly.mostImproved.stats.regression.change)}）`
+                          : "はっきり上向きの科目はまだありません"}
+                      </b>
+                    </div>
 
-                  {!!result.analysis.singles?.subjects?.length && (
                     <table style={{ width: "100%", borderCollapse: "collapse", fontSize: 13 }}>
                       <thead>
                         <tr>
                           <th style={{ textAlign: "left", borderBottom: "1px solid #ddd", padding: "6px 0" }}>科目</th>
-                          <th style={{ textAlign: "right", borderBottom: "1px solid #ddd", padding: "6px 0" }}>平均偏差値</th>
                           <th style={{ textAlign: "right", borderBottom: "1px solid #ddd", padding: "6px 0" }}>直近偏差値</th>
-                          <th style={{ textAlign: "right", borderBottom: "1px solid #ddd", padding: "6px 0" }}>最低偏差値</th>
-                          <th style={{ textAlign: "right", borderBottom: "1px solid #ddd", padding: "6px 0" }}>件数</th>
+                          <th style={{ textAlign: "right", borderBottom: "1px solid #ddd", padding: "6px 0" }}>直近平均</th>
+                          <th style={{ textAlign: "right", borderBottom: "1px solid #ddd", padding: "6px 0" }}>最低</th>
+                          <th style={{ textAlign: "right", borderBottom: "1px solid #ddd", padding: "6px 0" }}>推移（直線での変化）</th>
+                          <th style={{ textAlign: "left", borderBottom: "1px solid #ddd", padding: "6px 0 6px 12px" }}>偏差値の並び</th>
                         </tr>
                       </thead>
                       <tbody>
-                        {result.analysis.singles.subjects.map((s: any) => (
+                        {result.analysis.yearly.subjects.map((s) => (
                           <tr key={s.name}>
                             <td style={{ padding: "6px 0" }}>{s.name}</td>
-                            <td style={{ textAlign: "right" }}>{typeof s.avgDeviation === "number" ? s.avgDeviation.toFixed(1) : "-"}</td>
-                            <td style={{ textAlign: "right" }}>{typeof s.lastDeviation === "number" ? s.lastDeviation.toFixed(1) : "-"}</td>
-                            <td style={{ textAlign: "right" }}>{typeof s.minDeviation === "number" ? s.minDeviation.toFixed(1) : "-"}</td>
-                            <td style={{ textAlign: "right" }}>{s.count ?? 0}</td>
+                            <td style={{ textAlign: "right" }}>{s.deviation ?? "-"}</td>
+                            <td style={{ textAlign: "right" }}>{s.recentAverage ?? "-"}</td>
+                            <td style={{ textAlign: "right" }}>{s.minDeviation ?? "-"}</td>
+                            <td style={{ textAlign: "right" }}>
+                              {TREND_LABELS[s.trend]}（{formatChange(s.stats.regression.change)}）
+                            </td>
+                            <td style={{ padding: "6px 0 6px 12px", color: "#555" }}>
+                              {s.series.map((p) => p.deviation ?? "-").join(" → ")}
+                            </td>
                           </tr>
                         ))}
                       </tbody>
                     </table>
-                  )}
-                </div>
-
-                <div style={{ padding: 12, border: "1px solid #eee", borderRadius: 12, marginTop: 12 }}>
-                  <div style={{ fontWeight: 800, marginBottom: 6 }}>年間（1枚）の集計</div>
-
-                  {result.analysis.yearly?.weakest ? (
-                    <div>
-                      弱点（偏差値が低い）：
-                      <b>
-                        {result.analysis.yearly.weakest.name}（
-                        {typeof result.analysis.yearly.weakest.deviation === "number" ? result.analysis.yearly.weakest.deviation.toFixed(1) : "-"}
-                        ）
-                      </b>
-                    </div>
-                  ) : (
-                    <div style={{ color: "#666" }}>※年間の成績JSONがまだ取れていないため、集計できませんでした</div>
-                  )}
-                </div>
+                  </>
+                )}
               </div>
             </div>
           )}
 
           {/* OCR / 判定 / JSON表示 */}
+          {result.ocr?.cache && result.ocr.cache.hits + result.ocr.cache.misses > 0 && (
+            <div style={{ marginTop: 12, fontSize: 12, color: "#666" }}>
+              OCRキャッシュ：ヒット {result.ocr.cache.hits} / 新規 {result.ocr.cache.misses}
+            </div>
+          )}
           <div style={{ marginTop: 12, display: "grid", gridTemplateColumns: "1fr 1fr", gap: 12 }}>
             {/* singles */}
             <div style={{ border: "1px solid #ddd", borderRadius: 12, padding: 14 }}>
@@ -487,7 +778,10 @@ export default function AnalyzeClient() {
                   {result.ocr.singles.map((r: any) => (
                     <div key={r.path} style={{ border: "1px solid #eee", borderRadius: 12, padding: 12 }}>
                       <div style={{ fontWeight: 800 }}>{r.name}</div>
-                      <div style={{ fontSize: 12, color: "#666" }}>{formatBytes(r.size)}</div>
+                      <div style={{ fontSize: 12, color: "#666" }}>
+                        {formatBytes(r.size)}
+                        {r.textSource && <>／{r.textSource === "text-layer" ? "テキストレイヤから読み取り" : "OCRで読み取り"}</>}
+                      </div>
 
                       {"ok" in r && r.ok === false && <div style={{ marginTop: 8, color: "#b00", fontWeight: 700 }}>OCR失敗：{r.error}</div>}
 
@@ -558,7 +852,12 @@ export default function AnalyzeClient() {
               ) : (
                 <div style={{ border: "1px solid #eee", borderRadius: 12, padding: 12 }}>
                   <div style={{ fontWeight: 800 }}>{result.files.yearly.name}</div>
-                  <div style={{ fontSize: 12, color: "#666" }}>{formatBytes(result.files.yearly.size)}</div>
+                  <div style={{ fontSize: 12, color: "#666" }}>
+                    {formatBytes(result.files.yearly.size)}
+                    {result.ocr?.yearlyDebug?.textSource && (
+                      <>／{result.ocr.yearlyDebug.textSource === "text-layer" ? "テキストレイヤから読み取り" : "OCRで読み取り"}</>
+                    )}
+                  </div>
 
                   {result.ocr?.yearlyGradeCheck && (
                     <div style={{ marginTop: 8, fontSize: 13 }}>
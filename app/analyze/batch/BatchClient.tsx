@@ -0,0 +1,273 @@
+"use client";
+
+import React, { useEffect, useRef, useState } from "react";
+import Link from "next/link";
+import { useRouter } from "next/navigation";
+import ReportTabs from "@/components/ReportTabs";
+import type { BatchStudentView, BatchView } from "@/lib/analysisBatches";
+import type { JobStatus } from "@/lib/analysisJobs";
+import { REPORT_CASE_LABELS } from "@/lib/reportStage";
+
+type Tone = "gentle" | "balanced" | "strict";
+type Target = "student" | "parent" | "teacher";
+
+const POLL_INTERVAL_MS = 3000;
+const POLL_MAX_FAILURES = 5;
+
+const STATUS_LABELS: Record<JobStatus, { label: string; color: string }> = {
+  queued: { label: "待機中", color: "#888" },
+  running: { label: "分析中", color: "#06c" },
+  succeeded: { label: "完了", color: "#080" },
+  failed: { label: "失敗", color: "#b00" },
+};
+
+const cell: React.CSSProperties = { padding: "6px 4px", borderBottom: "1px solid #eee", verticalAlign: "top" };
+
+function studentLabel(s: BatchStudentView) {
+  if (s.studentName && s.studentId) return `${s.studentName}（${s.studentId}）`;
+  return s.studentName ?? s.studentId ?? s.key;
+}
+
+export default function BatchClient({ batchId }: { batchId?: string }) {
+  const router = useRouter();
+
+  const [zipFile, setZipFile] = useState<File | null>(null);
+  const [pdfFiles, setPdfFiles] = useState<FileList | null>(null);
+  const [tone, setTone] = useState<Tone>("balanced");
+  const [target, setTarget] = useState<Target>("parent");
+
+  const [batch, setBatch] = useState<BatchView | null>(null);
+  const [submitting, setSubmitting] = useState(false);
+  const [err, setErr] = useState<string | null>(null);
+
+  const pollRef = useRef(0);
+
+  // ✅ batchId があれば終わるまでポーリング（ページを離れても分析は続く）
+  useEffect(() => {
+    if (!batchId) return;
+    const token = ++pollRef.current;
+    let failures = 0;
+
+    const tick = async () => {
+      if (pollRef.current !== token) return;
+      try {
+        const r = await fetch(`/api/analyze/batch/${encodeURIComponent(batchId)}`, { cache: "no-store" });
+        const data = await r.json().catch(() => null);
+        if (r.status === 404) throw new Error(data?.message ?? "一括分析が見つかりません");
+        if (!r.ok) throw new Error(data?.message ?? `Server error (${r.status})`);
+        if (pollRef.current !== token) return;
+        failures = 0;
+        setErr(null);
+        setBatch(data as BatchView);
+        if ((data as BatchView).done) return;
+      } catch (e: unknown) {
+        failures += 1;
+        if (failures >= POLL_MAX_FAILURES) {
+          setErr(e instanceof Error ? e.message : "状態を取得できませんでした");
+          return;
+        }
+      }
+      setTimeout(tick, POLL_INTERVAL_MS);
+    };
+
+    tick();
+    return () => {
+      pollRef.current += 1;
+    };
+  }, [batchId]);
+
+  async function onSubmit(e: React.FormEvent) {
+    e.preventDefault();
+    setErr(null);
+
+    if (!zipFile && !pdfFiles?.length) {
+      setErr("ZIP または PDF を選んでください");
+      return;
+    }
+
+    const fd = new FormData();
+    if (zipFile) fd.append("zip", zipFile);
+    for (const f of Array.from(pdfFiles ?? [])) fd.append("files", f);
+    fd.append("tone", tone);
+    fd.append("target", target);
+    fd.append("focus", JSON.stringify(["mistake"]));
+
+    setSubmitting(true);
+    try {
+      const r = await fetch("/api/analyze/batch", { method: "POST", body: fd });
+      if (!r.ok) {
+        const t = await r.text().catch(() => "");
+        let message = t || `Server error (${r.status})`;
+        try {
+          message = (JSON.parse(t) as { message?: string }).message ?? message;
+        } catch {
+          // 本文がJSONでなければそのまま
+        }
+        throw new Error(message);
+      }
+      const { batchId: id } = (await r.json()) as { batchId: string };
+      setBatch(null);
+      router.replace(`/analyze/batch?id=${encodeURIComponent(id)}`);
+    } catch (e: unknown) {
+      setErr(e instanceof Error ? e.message : "エラーが発生しました");
+    } finally {
+      setSubmitting(false);
+    }
+  }
+
+  return (
+    <div style={{ maxWidth: 980, margin: "0 auto", padding: 18 }}>
+      <div style={{ display: "flex", alignItems: "center", gap: 12, marginBottom: 12 }}>
+        <h1 style={{ fontSize: 22, fontWeight: 800 }}>一括分析（クラス）</h1>
+        <Link href="/analyze" style={{ marginLeft: "auto", fontSize: 13 }}>
+          ← 1人ずつ分析する
+        </Link>
+        <Link href="/analyze/history" style={{ fontSize: 13 }}>
+          分析履歴 →
+        </Link>
+      </div>
+
+      <form onSubmit={onSubmit} style={{ border: "1px solid #ddd", borderRadius: 12, padding: 14 }}>
+        <div style={{ fontWeight: 800, marginBottom: 6 }}>成績表PDFをまとめてアップロード</div>
+        <div style={{ color: "#666", fontSize: 13, marginBottom: 10, lineHeight: 1.7 }}>
+          ファイル名（またはZIP内のフォルダ名）で生徒ごとに分けます。
+          <br />
+          例：<code>S123456_山田太郎_年間.pdf</code> / <code>S123456_山田太郎_第5回.pdf</code> /{" "}
+          <code>S123456_山田太郎/年間.pdf</code>
+          <br />
+          「年間」「推移」を含むPDFが年間の成績表、それ以外は単発テストとして扱います。生徒IDが無いときは氏名でまとめます。
+        </div>
+
+        <div style={{ display: "grid", gridTemplateColumns: "1fr 1fr", gap: 12 }}>
+          <label style={{ display: "block" }}>
+            <div style={{ fontWeight: 700, marginBottom: 4 }}>ZIP</div>
+            <input type="file" accept=".zip,application/zip" onChange={(e) => setZipFile(e.target.files?.[0] ?? null)} />
+          </label>
+          <label style={{ display: "block" }}>
+            <div style={{ fontWeight: 700, marginBottom: 4 }}>PDF（複数可）</div>
+            <input type="file" accept="application/pdf" multiple onChange={(e) => setPdfFiles(e.target.files)} />
+          </label>
+        </div>
+
+        <div style={{ display: "flex", gap: 16, marginTop: 12, fontSize: 14 }}>
+          <label>
+            トーン{" "}
+            <select value={tone} onChange={(e) => setTone(e.target.value as Tone)}>
+              <option value="gentle">優しめ</option>
+              <option value="balanced">バランス</option>
+              <option value="strict">厳しめ</option>
+            </select>
+          </label>
+          <label>
+            出力対象{" "}
+            <select value={target} onChange={(e) => setTarget(e.target.value as Target)}>
+              <option value="student">子ども向け</option>
+              <option value="parent">保護者向け</option>
+              <option value="teacher">講師向け</option>
+            </select>
+          </label>
+          <button
+            type="submit"
+            disabled={submitting}
+            style={{
+              marginLeft: "auto",
+              padding: "8px 14px",
+              borderRadius: 8,
+              border: "1px solid #222",
+              background: "#111",
+              color: "#fff",
+              fontWeight: 700,
+            }}
+          >
+            {submitting ? "送信中..." : "一括分析する"}
+          </button>
+        </div>
+      </form>
+
+      {err && <div style={{ color: "#b00", fontWeight: 700, marginTop: 12 }}>{err}</div>}
+
+      {batchId && !batch && !err && <div style={{ color: "#666", marginTop: 12 }}>読み込み中...</div>}
+
+      {batch && (
+        <div style={{ marginTop: 16 }}>
+          <div style={{ display: "flex", gap: 12, alignItems: "baseline", marginBottom: 8 }}>
+            <div style={{ fontWeight: 800 }}>生徒一覧（{batch.students.length}人）</div>
+            <div style={{ fontSize: 13, color: "#555" }}>
+              完了 {batch.counts.succeeded} / 失敗 {batch.counts.failed} / 分析中 {batch.counts.running} / 待機{" "}
+              {batch.counts.queued}
+              {!batch.done && "（自動で更新します）"}
+            </div>
+          </div>
+
+          <table style={{ width: "100%", borderCollapse: "collapse", fontSize: 13 }}>
+            <thead>
+              <tr style={{ textAlign: "left", color: "#555" }}>
+                <th style={cell}>生徒</th>
+                <th style={cell}>状態</th>
+                <th style={cell}>モード</th>
+                <th style={cell}>推移</th>
+                <th style={cell}>注意</th>
+                <th style={cell} />
+              </tr>
+            </thead>
+            <tbody>
+              {batch.students.map((s) => (
+                <tr key={s.jobId}>
+                  <td style={cell}>
+                    <div style={{ fontWeight: 700 }}>{studentLabel(s)}</div>
+                    <div style={{ color: "#888", fontSize: 12 }}>
+                      年間：{s.files.yearly ?? "なし"} / 単発：{s.files.singles}件
+                    </div>
+                  </td>
+                  <td style={{ ...cell, color: STATUS_LABELS[s.status].color, fontWeight: 700 }}>
+                    {STATUS_LABELS[s.status].label}
+                    {s.error && <div style={{ fontWeight: 400, fontSize: 12 }}>{s.error}</div>}
+                  </td>
+                  <td style={cell}>{s.analysisMode ?? "-"}</td>
+                  <td style={cell}>{s.reportCase ? REPORT_CASE_LABELS[s.reportCase] : "-"}</td>
+                  <td style={cell}>
+                    {s.warnings.length === 0 ? (
+                      "-"
+                    ) : (
+                      <ul style={{ margin: 0, paddingLeft: 16, color: "#b60" }}>
+                        {s.warnings.map((w, i) => (
+                          <li key={i}>{w}</li>
+                        ))}
+                      </ul>
+                    )}
+                  </td>
+                  <td style={{ ...cell, minWidth: 220 }}>
+                    {s.analysisId && (
+                      <Link href={`/analyze?id=${encodeURIComponent(s.analysisId)}`} style={{ fontWeight: 700 }}>
+                        詳細・修正 →
+                      </Link>
+                    )}
+                    {!!s.reports && (
+                      <details style={{ marginTop: 4 }}>
+                        <summary style={{ cursor: "pointer" }}>レポート</summary>
+                        <ReportTabs reports={s.reports} />
+                      </details>
+                    )}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+
+          {batch.skipped.length > 0 && (
+            <div style={{ marginTop: 12, padding: 10, borderRadius: 10, background: "#fff7e6", fontSize: 13 }}>
+              <div style={{ fontWeight: 700, marginBottom: 4 }}>読み込まなかったファイル</div>
+              <ul style={{ margin: "0 0 0 18px" }}>
+                {batch.skipped.map((s, i) => (
+                  <li key={i}>
+                    {s.name}：{s.reason}
+                  </li>
+                ))}
+              </ul>
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
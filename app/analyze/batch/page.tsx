@@ -0,0 +1,12 @@
+import { redirect } from "next/navigation";
+import { getTeacher } from "@/lib/auth";
+import BatchClient from "./BatchClient";
+
+export default async function AnalyzeBatchPage({ searchParams }: { searchParams: Promise<{ id?: string }> }) {
+  const teacher = await getTeacher();
+  if (!teacher) redirect("/login/teacher");
+
+  // ✅ /analyze/batch?id=<batchId> で一括分析の一覧を再表示
+  const { id } = await searchParams;
+  return <BatchClient batchId={id} />;
+}
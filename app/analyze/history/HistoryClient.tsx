@@ -0,0 +1,120 @@
+"use client";
+
+import React, { useEffect, useState } from "react";
+import Link from "next/link";
+
+type AnalysisRow = {
+  id: string;
+  created_at: string;
+  student_id: string | null;
+  student_name: string | null;
+  analysis_mode: "full" | "yearly-only";
+  summary: string | null;
+  selections: { tone?: string; target?: string; focus?: string[] } | null;
+  warnings: string[] | null;
+};
+
+function formatDateTime(iso: string) {
+  const d = new Date(iso);
+  if (Number.isNaN(d.getTime())) return iso;
+  return d.toLocaleString("ja-JP", { dateStyle: "medium", timeStyle: "short" });
+}
+
+export default function HistoryClient() {
+  const [studentId, setStudentId] = useState("");
+  const [rows, setRows] = useState<AnalysisRow[] | null>(null);
+  const [err, setErr] = useState<string | null>(null);
+  const [loading, setLoading] = useState(false);
+
+  async function load(sid: string) {
+    setLoading(true);
+    setErr(null);
+    try {
+      const qs = sid ? `?studentId=${encodeURIComponent(sid)}` : "";
+      const r = await fetch(`/api/analyses${qs}`);
+      const data = await r.json().catch(() => null);
+      if (!r.ok || !data?.ok) throw new Error(data?.message ?? `Server error (${r.status})`);
+      setRows(data.analyses as AnalysisRow[]);
+    } catch (e: unknown) {
+      setErr(e instanceof Error ? e.message : "エラーが発生しました");
+    } finally {
+      setLoading(false);
+    }
+  }
+
+  useEffect(() => {
+    load("");
+  }, []);
+
+  return (
+    <div style={{ maxWidth: 980, margin: "0 auto", padding: 18 }}>
+      <div style={{ display: "flex", alignItems: "center", gap: 12, marginBottom: 12 }}>
+        <h1 style={{ fontSize: 22, fontWeight: 800 }}>分析履歴</h1>
+        <Link href="/analyze" style={{ marginLeft: "auto", fontSize: 13 }}>
+          ← 新しく分析する
+        </Link>
+      </div>
+
+      <form
+        onSubmit={(e) => {
+          e.preventDefault();
+          load(studentId.trim());
+        }}
+        style={{ display: "flex", gap: 8, marginBottom: 12 }}
+      >
+        <input
+          value={studentId}
+          onChange={(e) => setStudentId(e.target.value)}
+          placeholder="生徒IDで絞り込み"
+          style={{ padding: "8px 10px", border: "1px solid #ccc", borderRadius: 8, fontSize: 14 }}
+        />
+        <button
+          type="submit"
+          disabled={loading}
+          style={{ padding: "8px 12px", borderRadius: 8, border: "1px solid #222", background: "#111", color: "#fff", fontWeight: 700 }}
+        >
+          {loading ? "読み込み中..." : "検索"}
+        </button>
+      </form>
+
+      {err && <div style={{ color: "#b00", fontWeight: 700, marginBottom: 12 }}>{err}</div>}
+
+      {rows && rows.length === 0 && <div style={{ color: "#666" }}>分析履歴はまだありません</div>}
+
+      {!!rows?.length && (
+        <table style={{ width: "100%", borderCollapse: "collapse", fontSize: 13 }}>
+          <thead>
+            <tr>
+              <th style={{ textAlign: "left", borderBottom: "1px solid #ddd", padding: "6px 0" }}>日時</th>
+              <th style={{ textAlign: "left", borderBottom: "1px solid #ddd", padding: "6px 0" }}>生徒</th>
+              <th style={{ textAlign: "left", borderBottom: "1px solid #ddd", padding: "6px 0" }}>モード</th>
+              <th style={{ textAlign: "left", borderBottom: "1px solid #ddd", padding: "6px 0" }}>概要</th>
+              <th style={{ borderBottom: "1px solid #ddd", padding: "6px 0" }} />
+            </tr>
+          </thead>
+          <tbody>
+            {rows.map((r) => (
+              <tr key={r.id} style={{ borderBottom: "1px solid #f0f0f0" }}>
+                <td style={{ padding: "6px 0" }}>{formatDateTime(r.created_at)}</td>
+                <td>
+                  {r.student_name ?? "（氏名不明）"}
+                  {r.student_id ? <span style={{ color: "#666" }}>（{r.student_id}）</span> : null}
+                </td>
+                <td>{r.analysis_mode}</td>
+                <td>
+                  {r.summary ?? "-"}
+                  {!!r.warnings?.length && <span style={{ color: "#b60" }}>（注意 {r.warnings.length}件）</span>}
+                </td>
+                <td style={{ textAlign: "right" }}>
+                  <Link href={`/analyze?id=${encodeURIComponent(r.id)}`} style={{ fontWeight: 700 }}>
+                    開く
+                  </Link>
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      )}
+    </div>
+  );
+}
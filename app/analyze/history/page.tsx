@@ -0,0 +1,10 @@
+import { redirect } from "next/navigation";
+import { getTeacher } from "@/lib/auth";
+import HistoryClient from "./HistoryClient";
+
+export default async function AnalyzeHistoryPage() {
+  const teacher = await getTeacher();
+  if (!teacher) redirect("/login/teacher");
+
+  return <HistoryClient />;
+}
@@ -1,11 +1,12 @@
-import { cookies } from "next/headers";
 import { redirect } from "next/navigation";
+import { getTeacher } from "@/lib/auth";
 import AnalyzeClient from "./AnalyzeClient";
 
-export default async function AnalyzePage() {
-  const cookieName = process.env.TEACHER_LOGIN_COOKIE ?? "teacher_session";
-  const hasSession = (await cookies()).get(cookieName)?.value;
-  if (!hasSession) redirect("/login/teacher");
+export default async function AnalyzePage({ searchParams }: { searchParams: Promise<{ id?: string }> }) {
+  const teacher = await getTeacher();
+  if (!teacher) redirect("/login/teacher");
 
-  return <AnalyzeClient />;
+  // ✅ /analyze?id=<analysisId> で過去の分析を再表示
+  const { id } = await searchParams;
+  return <AnalyzeClient analysisId={id} />;
 }
@@ -19,6 +19,11 @@ const samples = {
       { q: 3, rate: 55, correct: true },
       { q: 4, rate: 42, correct: true },
       { q: 5, rate: 25, correct: false }
+    ], rika: [
+      { q: 1, rate: 78, correct: true },
+      { q: 2, rate: 61, correct: true },
+      { q: 3, rate: 47, correct: false },
+      { q: 4, rate: 22, correct: false }
     ]}}
   },
   B: {
@@ -37,6 +42,11 @@ const samples = {
       { q: 3, rate: 58, correct: true },
       { q: 4, rate: 46, correct: false },
       { q: 5, rate: 33, correct: false }
+    ], shakai: [
+      { q: 1, rate: 81, correct: true },
+      { q: 2, rate: 64, correct: false },
+      { q: 3, rate: 52, correct: false },
+      { q: 4, rate: 35, correct: true }
     ]}}
   },
   C: {
@@ -55,6 +65,11 @@ const samples = {
       { q: 3, rate: 60, correct: false },
       { q: 4, rate: 44, correct: false },
       { q: 5, rate: 28, correct: false }
+    ], rika: [
+      { q: 1, rate: 84, correct: false },
+      { q: 2, rate: 71, correct: false },
+      { q: 3, rate: 50, correct: true },
+      { q: 4, rate: 30, correct: false }
     ]}}
   }
 } as const;
@@ -0,0 +1,229 @@
+import { NextRequest, NextResponse } from "next/server";
+import { z } from "zod";
+import { getTeacher } from "@/lib/auth";
+import { TestSchema, type JukuReportJson, type JukuTest } from "@/lib/jukuReportSchema";
+import type { MistakeSummary } from "@/lib/mistakeSummary";
+import { provenanceForCorrections, type TestProvenance } from "@/lib/provenance";
+import { runReportStage, type AnalysisMode, type Selections } from "@/lib/reportStage";
+import { applyCorrections, sortTimeline } from "@/lib/studentTimeline";
+import { listStudentTargets } from "@/lib/studentTargets";
+import type { TargetSchool } from "@/lib/targetSchools";
+import { createAdminClient } from "@/lib/supabase/admin";
+
+export const runtime = "nodejs";
+
+/** 保存済みレスポンスのうち、再計算で読む/書き換える項目 */
+type StoredResponse = {
+  analysisMode: AnalysisMode;
+  selections: Selections;
+  mistakeSummary: MistakeSummary;
+  warnings?: string[];
+  extractWarnings?: string[];
+  student?: { id: string; name: string | null; timelineTests: number; added: number; updated: number } | null;
+  ocr?: { yearlyReportJson?: JukuReportJson | null; yearlyProvenance?: TestProvenance[] | null };
+  corrections?: {
+    tests: JukuTest[];
+    provenance: TestProvenance[];
+    correctedAt: string;
+    correctedBy: string;
+  } | null;
+  [key: string]: unknown;
+};
+
+/* =========================
+   講師の入力チェック
+   - OCR結果と違って「黙って null にする」はしない（打ち間違いはそのまま返して直してもらう）
+========================= */
+const RANGES = {
+  fourScore: { min: 0, max: 500 },
+  twoScore: { min: 0, max: 400 },
+  grade: { min: 1, max: 10 },
+  deviation: { min: 10, max: 90 },
+};
+
+function validateCorrectedTests(raw: unknown): { tests: JukuTest[]; errors: string[] } {
+  const parsed = z.array(TestSchema).safeParse(raw);
+  if (!parsed.success) {
+    return {
+      tests: [],
+      errors: parsed.error.issues.map((i) => `${i.path.map((p) => (typeof p === "number" ? `${p + 1}行目` : String(p))).join(".")}: ${i.message}`),
+    };
+  }
+
+  const errors: string[] = [];
+  const inRange = (row: number, label: string, v: number | null, r: { min: number; max: number }) => {
+    if (v != null && (v < r.min || v > r.max)) errors.push(`${row}行目 ${label}: ${v} は範囲外（${r.min}〜${r.max}）`);
+  };
+
+  parsed.data.forEach((t, i) => {
+    const row = i + 1;
+    if (t.date != null && !/^\d{4}-\d{2}-\d{2}$/.test(t.date)) errors.push(`${row}行目 日付: "${t.date}" は YYYY-MM-DD で入力してください`);
+    inRange(row, "4科得点", t.totals.four.score, RANGES.fourScore);
+    inRange(row, "2科得点", t.totals.two.score, RANGES.twoScore);
+    inRange(row, "4科評価", t.totals.four.grade, RANGES.grade);
+    inRange(row, "2科評価", t.totals.two.grade, RANGES.grade);
+    inRange(row, "4科偏差値", t.totals.four.deviation, RANGES.deviation);
+    inRange(row, "2科偏差値", t.totals.two.deviation, RANGES.deviation);
+  });
+
+  return { tests: sortTimeline(parsed.data), errors };
+}
+
+/* ===============================
+   POST /api/analyses/:id/recompute
+   - body: { tests: JukuTest[] }（講師が直した年間の成績表）
+   - 再OCRはせず、推移判定 → レポート文面（runReportStage）だけやり直す
+   - 修正は analyses.corrected_tests と生徒の時系列（students.timeline）に保存
+================================ */
+export async function POST(req: NextRequest, ctx: { params: Promise<{ id: string }> }) {
+  const teacher = await getTeacher();
+  if (!teacher) {
+    return NextResponse.json({ ok: false, message: "unauthorized" }, { status: 401 });
+  }
+
+  const { id } = await ctx.params;
+
+  let body: { tests?: unknown };
+  try {
+    body = await req.json();
+  } catch {
+    return NextResponse.json({ ok: false, message: "invalid json" }, { status: 400 });
+  }
+
+  const { tests, errors } = validateCorrectedTests(body?.tests);
+  if (errors.length > 0) {
+    return NextResponse.json({ ok: false, message: "入力に誤りがあります", errors }, { status: 400 });
+  }
+
+  const supabase = createAdminClient();
+  const { data: row, error: selErr } = await supabase
+    .from("analyses")
+    .select("id, created_at, student_id, response")
+    .eq("id", id)
+    .maybeSingle();
+
+  if (selErr) {
+    console.error("[analyses get error]", selErr);
+    return NextResponse.json({ ok: false, message: selErr.message }, { status: 500 });
+  }
+  if (!row) {
+    return NextResponse.json({ ok: false, message: "not found" }, { status: 404 });
+  }
+
+  const response = row.response as StoredResponse;
+  const extracted = response.ocr?.yearlyReportJson ?? null;
+  // 前回の修正があればそれが「今入っている値」
+  const previous: JukuTest[] = response.corrections?.tests ?? extracted?.tests ?? [];
+  const previousProvenance = response.corrections ? response.corrections.provenance : response.ocr?.yearlyProvenance;
+  // 値を変えた欄だけ teacher-corrected（触っていない欄は元の出どころのまま）
+  const provenance = provenanceForCorrections(previous, previousProvenance, tests);
+
+  const warnings: string[] = [...(response.extractWarnings ?? [])];
+  warnings.push(`講師が成績表を修正して再計算しました（${tests.length}件）。`);
+
+  // ✅ 生徒の時系列に反映（他の分析で入った回と合わせて推移を見る）
+  let student = response.student ?? null;
+  let history: JukuTest[] = tests;
+  const studentId: string | null = row.student_id ?? null;
+
+  if (studentId) {
+    const { data: existing, error: stErr } = await supabase
+      .from("students")
+      .select("id, name, timeline")
+      .eq("id", studentId)
+      .maybeSingle();
+
+    if (stErr) {
+      console.error("[students select error]", stErr);
+      warnings.push("生徒の受験履歴の読み込みに失敗したため、推移は修正した成績表のみで判定しています。");
+    } else {
+      const prev: JukuTest[] = Array.isArray(existing?.timeline) ? existing.timeline : [];
+      const applied = applyCorrections(prev, previous, tests);
+
+      const { error: upErr } = await supabase.from("students").upsert({
+        id: studentId,
+        name: existing?.name ?? student?.name ?? null,
+        timeline: applied.timeline,
+        updated_at: new Date().toISOString(),
+      });
+      if (upErr) {
+        console.error("[students upsert error]", upErr);
+        warnings.push("生徒の受験履歴への反映に失敗しました（この分析の推移は修正後の値で判定しています）。");
+      } else {
+        history = applied.timeline;
+        student = {
+          id: studentId,
+          name: existing?.name ?? student?.name ?? null,
+          timelineTests: applied.timeline.length,
+          added: student?.added ?? 0,
+          updated: student?.updated ?? 0,
+        };
+      }
+    }
+  }
+
+  const yearly: JukuReportJson = {
+    docType: "juku_report",
+    student: { id: studentId, name: student?.name ?? extracted?.student.name ?? null },
+    meta: extracted?.meta ?? { sourceFilename: null, title: null },
+    tests: history,
+    notes: extracted?.notes ?? [],
+  };
+
+  // ✅ 志望校は今の登録内容で差を出し直す
+  let targets: TargetSchool[] = [];
+  if (studentId) {
+    try {
+      targets = await listStudentTargets(studentId);
+    } catch (e) {
+      console.error("[student_targets list error]", studentId, e);
+      warnings.push("志望校の読み込みに失敗したため、志望校との差はレポートに入っていません。");
+    }
+  }
+
+  const stage = runReportStage({
+    yearly,
+    analysisMode: response.analysisMode,
+    mistakeSummary: response.mistakeSummary,
+    selections: response.selections,
+    targets,
+  });
+  warnings.push(...stage.warnings);
+
+  const correctedAt = new Date().toISOString();
+  const next: StoredResponse = {
+    ...response,
+    studentType: stage.studentType,
+    isTwoSubjectStudent: stage.isTwoSubjectStudent,
+    reportCase: stage.reportCase,
+    targetGaps: stage.targetGaps,
+    analysis: { yearly: stage.subjectTrends },
+    reports: stage.reports,
+    yearlyTrends: stage.trends,
+    warnings,
+    student,
+    corrections: { tests, provenance, correctedAt, correctedBy: teacher.user.id },
+  };
+
+  const { error: upErr } = await supabase
+    .from("analyses")
+    .update({
+      response: next,
+      // 見込みは講師画面のみ：response には入れない
+      forecast: stage.forecast,
+      reports: stage.reports,
+      yearly_trends: stage.trends,
+      warnings,
+      corrected_tests: tests,
+      corrected_at: correctedAt,
+      corrected_by: teacher.user.id,
+    })
+    .eq("id", id);
+
+  if (upErr) {
+    console.error("[analyses update error]", upErr);
+    return NextResponse.json({ ok: false, message: upErr.message }, { status: 500 });
+  }
+
+  return NextResponse.json({ ...next, forecast: stage.forecast, analysisId: row.id, createdAt: row.created_at });
+}
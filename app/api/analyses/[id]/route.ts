@@ -0,0 +1,40 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getTeacher } from "@/lib/auth";
+import { createAdminClient } from "@/lib/supabase/admin";
+
+export const runtime = "nodejs";
+
+/* ===============================
+   GET /api/analyses/:id
+   - 保存済みの /api/analyze レスポンスをそのまま返す（再OCRなしで再表示）
+   - 次回の見込みは analyses.forecast に分けて保存しているので、ここで戻す
+================================ */
+export async function GET(_req: NextRequest, ctx: { params: Promise<{ id: string }> }) {
+  if (!(await getTeacher())) {
+    return NextResponse.json({ ok: false, message: "unauthorized" }, { status: 401 });
+  }
+
+  const { id } = await ctx.params;
+
+  const supabase = createAdminClient();
+  const { data, error } = await supabase
+    .from("analyses")
+    .select("id, created_at, response, forecast")
+    .eq("id", id)
+    .maybeSingle();
+
+  if (error) {
+    console.error("[analyses get error]", error);
+    return NextResponse.json({ ok: false, message: error.message }, { status: 500 });
+  }
+  if (!data) {
+    return NextResponse.json({ ok: false, message: "not found" }, { status: 404 });
+  }
+
+  return NextResponse.json({
+    ...data.response,
+    forecast: data.forecast ?? null,
+    analysisId: data.id,
+    createdAt: data.created_at,
+  });
+}
@@ -0,0 +1,35 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getTeacher } from "@/lib/auth";
+import { createAdminClient } from "@/lib/supabase/admin";
+
+export const runtime = "nodejs";
+
+/* ===============================
+   GET /api/analyses
+   - 過去の分析一覧（新しい順）
+   - ?studentId=... で生徒を絞り込み
+================================ */
+export async function GET(req: NextRequest) {
+  if (!(await getTeacher())) {
+    return NextResponse.json({ ok: false, message: "unauthorized" }, { status: 401 });
+  }
+
+  const studentId = req.nextUrl.searchParams.get("studentId");
+  const limit = Math.min(Math.max(Number(req.nextUrl.searchParams.get("limit")) || 50, 1), 200);
+
+  const supabase = createAdminClient();
+  let q = supabase
+    .from("analyses")
+    .select("id, created_at, teacher_id, student_id, student_name, analysis_mode, summary, selections, warnings")
+    .order("created_at", { ascending: false })
+    .limit(limit);
+  if (studentId) q = q.eq("student_id", studentId);
+
+  const { data, error } = await q;
+  if (error) {
+    console.error("[analyses list error]", error);
+    return NextResponse.json({ ok: false, message: error.message }, { status: 500 });
+  }
+
+  return NextResponse.json({ ok: true, analyses: data ?? [] });
+}
@@ -0,0 +1,35 @@
+import { NextRequest, NextResponse, after } from "next/server";
+import { getTeacher } from "@/lib/auth";
+import { getAnalysisBatch, pumpAnalysisBatch } from "@/lib/analysisBatches";
+
+export const runtime = "nodejs";
+
+/* ===============================
+   GET /api/analyze/batch/:id
+   - 生徒ごとの状態と、終わった生徒の analysisMode / 推移ケース / warnings / reports
+   - 見られるのは一括分析を作った講師本人だけ
+   - 終わっていなければ、空いた枠に次の生徒を流す（ワーカーが途中で止まっても、ポーリングで続きが進む）
+================================ */
+export async function GET(req: NextRequest, ctx: { params: Promise<{ id: string }> }) {
+  const teacher = await getTeacher();
+  if (!teacher) {
+    return NextResponse.json({ ok: false, message: "unauthorized" }, { status: 401 });
+  }
+
+  const { id } = await ctx.params;
+
+  try {
+    const batch = await getAnalysisBatch(id, teacher.user.id);
+    if (!batch) {
+      return NextResponse.json({ ok: false, message: "not found" }, { status: 404 });
+    }
+    if (!batch.done) {
+      const origin = req.nextUrl.origin;
+      after(() => pumpAnalysisBatch(id, origin));
+    }
+    return NextResponse.json(batch, { headers: { "Cache-Control": "no-store" } });
+  } catch (e) {
+    console.error("[analysis_batches get error]", e);
+    return NextResponse.json({ ok: false, message: e instanceof Error ? e.message : "error" }, { status: 500 });
+  }
+}
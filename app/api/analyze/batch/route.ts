@@ -0,0 +1,109 @@
+import { NextRequest, NextResponse, after } from "next/server";
+import { createClient as createUserClient } from "@/lib/supabase/server";
+import { getTeacher } from "@/lib/auth";
+import { parseSelections } from "@/lib/analyzePipeline";
+import { MAX_BATCH_STUDENTS, createAnalysisBatch, pumpAnalysisBatch } from "@/lib/analysisBatches";
+import {
+  BATCH_TOTAL_LIMIT_MESSAGE,
+  BatchTooLargeError,
+  MAX_BATCH_FILES,
+  MAX_BATCH_TOTAL_BYTES,
+  groupBatchFiles,
+  unzipPdfs,
+  type BatchFile,
+  type BatchSkipped,
+} from "@/lib/batchFiles";
+import { findYearlyFormat } from "@/lib/yearlyFormats";
+import type { YearlyFormat } from "@/lib/yearlyParser";
+
+export const runtime = "nodejs";
+
+// ここでは PDF の保存とジョブ作成まで。分析は生徒ごとのワーカー（/api/worker/analysis-jobs/:id）がそれぞれの持ち時間で流す
+export const maxDuration = 120;
+
+/* =========================
+   POST /api/analyze/batch
+   - zip（ZIP 1つ）または files（PDF 複数）+ tone / target / focus
+   - ファイル名・フォルダ名で生徒ごとに分けて（lib/batchFiles）、1人1ジョブ・1ワーカー呼び出しで分析
+   - レスポンスは batchId だけ（202）。進み具合・結果は GET /api/analyze/batch/:id
+========================= */
+export async function POST(req: NextRequest) {
+  try {
+    // ✅ 講師アカウントでのログイン必須
+    const teacher = await getTeacher();
+    if (!teacher) {
+      return new NextResponse("講師としてログインしてください。", { status: 401 });
+    }
+
+    const fd = await req.formData();
+    const zip = fd.get("zip");
+    const pdfs = fd.getAll("files").filter((v): v is File => v instanceof File);
+
+    const files: BatchFile[] = [];
+    const skipped: BatchSkipped[] = [];
+
+    if (zip instanceof File) {
+      try {
+        const unzipped = unzipPdfs(new Uint8Array(await zip.arrayBuffer()));
+        files.push(...unzipped.files);
+        skipped.push(...unzipped.skipped);
+      } catch (e) {
+        if (e instanceof BatchTooLargeError) return new NextResponse(e.message, { status: 400 });
+        console.error("[batch unzip error]", zip.name, e);
+        return new NextResponse("ZIPを展開できませんでした。", { status: 400 });
+      }
+    }
+    for (const f of pdfs) {
+      if (files.length >= MAX_BATCH_FILES) {
+        skipped.push({ name: f.name, reason: `1回に読めるのは${MAX_BATCH_FILES}ファイルまでです` });
+        continue;
+      }
+      if (!/\.pdf$/i.test(f.name)) {
+        skipped.push({ name: f.name, reason: "PDFではありません" });
+        continue;
+      }
+      files.push({ path: f.name, name: f.name, bytes: new Uint8Array(await f.arrayBuffer()) });
+    }
+    // ✅ ZIP の中身と個別PDFを合わせた合計にも上限（超えたら一括分析ごと受け付けない）
+    if (files.reduce((sum, f) => sum + f.bytes.byteLength, 0) > MAX_BATCH_TOTAL_BYTES) {
+      return new NextResponse(BATCH_TOTAL_LIMIT_MESSAGE, { status: 400 });
+    }
+
+    const grouped = groupBatchFiles(files);
+    skipped.push(...grouped.skipped);
+
+    if (grouped.students.length === 0) {
+      return NextResponse.json(
+        { ok: false, message: "生徒ごとに分けられるPDFがありません。", skipped },
+        { status: 400 }
+      );
+    }
+    if (grouped.students.length > MAX_BATCH_STUDENTS) {
+      return NextResponse.json(
+        { ok: false, message: `1回の一括分析は${MAX_BATCH_STUDENTS}人までです（${grouped.students.length}人）。`, skipped },
+        { status: 400 }
+      );
+    }
+
+    const yearlyFormatRaw = fd.get("yearlyFormat");
+    const yearlyFormat: YearlyFormat =
+      typeof yearlyFormatRaw === "string" && findYearlyFormat(yearlyFormatRaw) ? yearlyFormatRaw : "auto";
+
+    const { batchId, jobIds } = await createAnalysisBatch({
+      teacherId: teacher.user.id,
+      storage: await createUserClient(),
+      students: grouped.students,
+      skipped,
+      selections: parseSelections(fd),
+      yearlyFormat,
+    });
+
+    const origin = req.nextUrl.origin;
+    after(() => pumpAnalysisBatch(batchId, origin));
+
+    return NextResponse.json({ batchId, students: jobIds.length, skipped }, { status: 202 });
+  } catch (e) {
+    console.error("[batch POST fatal]", e);
+    return new NextResponse(e instanceof Error ? e.message : "Server error", { status: 500 });
+  }
+}
@@ -0,0 +1,30 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getTeacher } from "@/lib/auth";
+import { getAnalysisJob } from "@/lib/analysisJobs";
+
+export const runtime = "nodejs";
+
+/* ===============================
+   GET /api/analyze/jobs/:id
+   - 段ごとの状態（stages）と、終わっていれば結果（result = 旧 /api/analyze のレスポンス）
+   - 見られるのはジョブを作った講師本人だけ
+================================ */
+export async function GET(_req: NextRequest, ctx: { params: Promise<{ id: string }> }) {
+  const teacher = await getTeacher();
+  if (!teacher) {
+    return NextResponse.json({ ok: false, message: "unauthorized" }, { status: 401 });
+  }
+
+  const { id } = await ctx.params;
+
+  try {
+    const job = await getAnalysisJob(id, teacher.user.id);
+    if (!job) {
+      return NextResponse.json({ ok: false, message: "not found" }, { status: 404 });
+    }
+    return NextResponse.json(job, { headers: { "Cache-Control": "no-store" } });
+  } catch (e) {
+    console.error("[analysis_jobs get error]", e);
+    return NextResponse.json({ ok: false, message: e instanceof Error ? e.message : "error" }, { status: 500 });
+  }
+}
@@ -1,1235 +1,86 @@
 /// <reference types="node" />
 import { Buffer } from "buffer";
-import { randomUUID } from "crypto";
-import { NextRequest, NextResponse } from "next/server";
-import { createClient } from "@supabase/supabase-js";
-import OpenAI from "openai";
+import { NextRequest, NextResponse, after } from "next/server";
+import { createClient as createUserClient } from "@/lib/supabase/server";
+import { getTeacher } from "@/lib/auth";
+import { parseSelections, type AnalyzeInputFile } from "@/lib/analyzePipeline";
+import { createAnalysisJob, runAnalysisJob } from "@/lib/analysisJobs";
+import { findYearlyFormat } from "@/lib/yearlyFormats";
+import type { YearlyFormat } from "@/lib/yearlyParser";
 
 export const runtime = "nodejs";
 
-/* =========================
-   Clients
-========================= */
-const supabase = createClient(
-  process.env.SUPABASE_URL!,
-  process.env.SUPABASE_SERVICE_ROLE_KEY!,
-  { auth: { persistSession: false } }
-);
-
-const openai = new OpenAI({
-  apiKey: process.env.OPENAI_API_KEY,
-});
-
-/* =========================
-   Types
-========================= */
-type Trend = "up" | "down" | "flat" | "unknown";
-
-// ✅ 追加：返却用
-type AnalysisMode = "full" | "yearly-only";
-type StudentType = "two" | "four";
-
-type JukuReportJson = {
-  docType: "juku_report";
-  student: { name: string | null; id: string | null };
-  meta: { sourceFilename: string | null; title: string | null };
-  tests: Array<{
-    testType: "ikusei" | "kokai_moshi" | "other";
-    testName: string | null;
-    date: string | null;
-    subjects: Array<{
-      name: string | null;
-      score: number | null;
-      deviation: number | null;
-      rank: number | null;
-    }>;
-    totals: {
-      two: {
-        score: number | null;
-        deviation: number | null;
-        rank: number | null;
-        grade: number | null;
-      };
-      four: {
-        score: number | null;
-        deviation: number | null;
-        rank: number | null;
-        grade: number | null;
-      };
-    };
-    notes: string[];
-  }>;
-  notes: string[];
-};
-
-type YearlyFormat = "auto" | "A" | "B";
-
-/** ✅ 追加：UI表示用レポート型 */
-type Menndan1Min = { title: string; body: string; bullets?: string[]; tags?: string[] };
-type ChildSimple = { title: string; body: string; action?: string };
-type ParentHandout = { title: string; summary: string; points: string[]; nextAction: string };
-type Reports = {
-  menndan_1min: Menndan1Min;
-  child_simple: ChildSimple;
-  parent_handout: ParentHandout;
-};
-
-/** ✅ 追加：単発ミス分析（まずはスタブ。単発OCR接続後に本実装へ） */
-type MistakeSummary = {
-  status: "not-implemented" | "no-single" | "ok";
-  message: string;
-  subject?: string;
-  byLevel?: { A: { total: number; miss: number }; B: { total: number; miss: number }; C: { total: number; miss: number } };
-  items?: Array<{ q: number; rate: number; correct: boolean; level: "A" | "B" | "C" }>;
-};
-
-/**
- * ✅ Schemaエラー回避：docTypeにtype必須
- * ※ tests の詳細はここでは縛らず、抽出後に整形する方針
- */
-const JUKU_REPORT_JSON_SCHEMA = {
-  name: "juku_report_json",
-  schema: {
-    type: "object",
-    additionalProperties: false,
-    properties: {
-      docType: { type: "string", const: "juku_report" },
-      student: {
-        type: "object",
-        additionalProperties: false,
-        properties: {
-          name: { type: ["string", "null"] },
-          id: { type: ["string", "null"] },
-        },
-        required: ["name", "id"],
-      },
-      meta: {
-        type: "object",
-        additionalProperties: false,
-        properties: {
-          sourceFilename: { type: ["string", "null"] },
-          title: { type: ["string", "null"] },
-        },
-        required: ["sourceFilename", "title"],
-      },
-      tests: { type: "array", items: { type: "object" } },
-      notes: { type: "array", items: { type: "string" } },
-    },
-    required: ["docType", "student", "meta", "tests", "notes"],
-  },
-  strict: true,
-} as const;
-
-/* =========================
-   Utils
-========================= */
-function safeName(name: string) {
-  return name.replace(/[^\w.\-()]+/g, "_");
-}
-
-function toNumberOrNull(v: any): number | null {
-  if (typeof v === "number" && Number.isFinite(v)) return v;
-  if (typeof v === "string") {
-    const s = v.replace(/[^\d.\-]/g, "");
-    if (!s) return null;
-    const n = Number(s);
-    return Number.isFinite(n) ? n : null;
-  }
-  return null;
-}
+// after() のワーカーもこの関数の実行時間に含まれる（OCR 2回 + 直接抽出でも収まるように）
+// - lib/analysisJobs の WORKER_MAX_DURATION_S と同じ値（止まったジョブの判定に使う）
+// - レスポンスを早く返すだけで、持ち時間そのものは延びない。超える長さのOCRはこの関数の外のワーカーで流す必要がある
+export const maxDuration = 300;
 
-function clampNum(n: any, min: number, max: number): number | null {
-  const v = toNumberOrNull(n);
-  if (v === null) return null;
-  if (v < min || v > max) return null;
-  return v;
-}
-
-function safeParseJson<T>(text: string): T | null {
-  try {
-    return JSON.parse(text) as T;
-  } catch {
-    return null;
-  }
-}
-
-function normalizeTestTypeLabel(s: string) {
-  const t = String(s ?? "").replace(/\s+/g, "");
-  if (/(学習力育成テスト|育成テスト|学習力育成|育成)/.test(t)) return "ikusei";
-  if (/(公開模試|公開模擬試験|公開模試成績|公開|Public模試成績|Public模試)/i.test(t))
-    return "kokai_moshi";
-  return "other";
-}
-
-function isGakuhanLike(s: string) {
-  const t = String(s ?? "").replace(/\s+/g, "");
-  return /(学判|学力判定|学力診断|学力到達度|到達度テスト)/.test(t);
-}
-
-/**
- * 日付：
- * - YYYY/M/D → YYYY-MM-DD
- * - YYYY/M   → YYYY-MM-01
- * - YYYY     → YYYY-01-01（年だけでも落とさない）
- */
-function parseYmdOrYmLoose(s: string): string | null {
-  const t = String(s ?? "").trim();
-
-  const m1 = t.match(/(20\d{2})\s*[\/\-\.\s]\s*(\d{1,2})\s*[\/\-\.\s]\s*(\d{1,2})/);
-  if (m1) {
-    const yy = Number(m1[1]);
-    const mm = Number(m1[2]);
-    const dd = Number(m1[3]);
-    if (mm >= 1 && mm <= 12 && dd >= 1 && dd <= 31) {
-      return `${String(yy).padStart(4, "0")}-${String(mm).padStart(2, "0")}-${String(dd).padStart(2, "0")}`;
-    }
-  }
-
-  const m2 = t.match(/(20\d{2})\s*[\/\-\.\s]\s*(\d{1,2})\b/);
-  if (m2) {
-    const yy = Number(m2[1]);
-    const mm = Number(m2[2]);
-    if (mm >= 1 && mm <= 12) {
-      return `${String(yy).padStart(4, "0")}-${String(mm).padStart(2, "0")}-01`;
-    }
-  }
-
-  const m0 = t.match(/\b(20\d{2})\b/);
-  if (m0) {
-    const yy = Number(m0[1]);
-    return `${String(yy).padStart(4, "0")}-01-01`;
-  }
-
-  return null;
-}
-
-function sliceBetweenAny(text: string, starts: RegExp[], ends: RegExp[]) {
-  let startPos = -1;
-  for (const st of starts) {
-    const p = text.search(st);
-    if (p >= 0 && (startPos < 0 || p < startPos)) startPos = p;
-  }
-  if (startPos < 0) return "";
-
-  const sub = text.slice(startPos);
-
-  let endPos = -1;
-  for (const ed of ends) {
-    const p = sub.search(ed);
-    if (p >= 0 && (endPos < 0 || p < endPos)) endPos = p;
-  }
-  if (endPos < 0) return sub;
-
-  return sub.slice(0, endPos);
-}
-
-function dashToNull(v: any): any {
-  const s = String(v ?? "").trim();
-  if (s === "-" || s === "—" || s === "－" || s === "") return null;
-  return v;
-}
-
-/** ✅ 追加：TSが「nullが消えた」と理解できる型ガード */
-function isFiniteNumber(v: unknown): v is number {
-  return typeof v === "number" && Number.isFinite(v);
-}
-
-/* =========================
-   Guards / Normalization
-========================= */
-function nullifyFieldsByType(t: any) {
-  // 育成：score + grade（偏差は使わない）
-  if (t.testType === "ikusei") {
-    if (t?.totals?.two) t.totals.two.deviation = null;
-    if (t?.totals?.four) t.totals.four.deviation = null;
-  }
-
-  // 公開：score + deviation（gradeは使わない）
-  if (t.testType === "kokai_moshi") {
-    if (t?.totals?.two) t.totals.two.grade = null;
-    if (t?.totals?.four) t.totals.four.grade = null;
-  }
-}
-
-function forceNullifyFourIfMissing(t: any) {
-  if (!t?.totals?.four) return;
-  const fourScore = toNumberOrNull(t.totals.four.score);
-  const fourDev = toNumberOrNull(t.totals.four.deviation);
-  const fourGrade = toNumberOrNull(t.totals.four.grade);
-  if (fourScore == null && fourDev == null && fourGrade == null) {
-    t.totals.four = { score: null, deviation: null, rank: null, grade: null };
-  }
-}
-
-/**
- * ✅ 育成の2科/4科ズレを「範囲」で救う
- * - 2科は 0〜400
- * - 4科は 0〜500
- */
-function fixIkuseiTwoFourByRange(t: any) {
-  if (!t || t.testType !== "ikusei") return;
-  if (!t.totals?.two || !t.totals?.four) return;
-
-  const twoScore = toNumberOrNull(t.totals.two.score);
-  const fourScore = toNumberOrNull(t.totals.four.score);
-
-  // 2科が 401〜500 なら、それは4科得点の可能性が高い
-  // かつ 4科が 0〜400 なら入れ替え
-  if (twoScore != null && twoScore > 400 && twoScore <= 500) {
-    if (fourScore == null || (fourScore >= 0 && fourScore <= 400)) {
-      t.totals.four.score = twoScore;
-      t.totals.two.score = fourScore ?? null;
-
-      const twoGrade = toNumberOrNull(t.totals.two.grade);
-      const fourGrade = toNumberOrNull(t.totals.four.grade);
-      t.totals.four.grade = twoGrade ?? t.totals.four.grade ?? null;
-      t.totals.two.grade = fourGrade ?? t.totals.two.grade ?? null;
-    }
-  }
-}
-
-/**
- * 育成の2科/4科が混ざった時の安全弁（強条件）
- */
-function fixIkuseiTwoFourMix(t: any) {
-  if (!t || t.testType !== "ikusei") return;
-  if (!t.totals?.two || !t.totals?.four) return;
-
-  const twoScore = toNumberOrNull(t.totals.two.score);
-  const fourScore = toNumberOrNull(t.totals.four.score);
-  const twoGrade = toNumberOrNull(t.totals.two.grade);
-  const fourGrade = toNumberOrNull(t.totals.four.grade);
-
-  if (twoScore == null && fourScore == null) return;
-
-  // 4科が小さすぎ、2科が大きすぎ → 入れ替わりの可能性が高い
-  if (fourScore != null && twoScore != null) {
-    const fourTooSmall = fourScore <= 170;
-    const twoTooBig = twoScore >= 220;
-    if (fourTooSmall && twoTooBig) {
-      t.totals.two.score = fourScore;
-      t.totals.four.score = twoScore;
-
-      t.totals.two.grade = fourGrade ?? t.totals.two.grade ?? null;
-      t.totals.four.grade = twoGrade ?? t.totals.four.grade ?? null;
-      return;
-    }
-  }
-
-  // 低得点だから4科をnull化、は誤爆するのでやらない
-}
-
-// ✅ 公開：4科得点が「日付断片/桁落ち」っぽいときは null
-function fixKokaiFourScoreIfSuspicious(t: any) {
-  if (!t || t.testType !== "kokai_moshi") return;
-
-  const fourScore = toNumberOrNull(t?.totals?.four?.score);
-  const fourDev = toNumberOrNull(t?.totals?.four?.deviation);
-
-  if (fourScore != null && fourScore > 0 && fourScore <= 20) {
-    t.totals.four.score = null;
-    t.totals.four.deviation = null;
-  }
-
-  void fourDev;
-}
-
-/* =========================
-   ✅ 追加：analysisMode / 2科4科判定
-========================= */
-function computeAnalysisMode(singleCount: number): AnalysisMode {
-  return singleCount > 0 ? "full" : "yearly-only";
-}
-
-/**
- * 年間データだけでも判定できるように：
- * - 育成テストの totals.two.score が「ほぼ埋まって」いて totals.four.score が「ほぼ空」なら two
- * - 逆なら four
- * - 混在は安全側（four）に倒し warning
- */
-function detectStudentTypeFromYearly(
-  yearly: JukuReportJson | null,
-  warnings: string[]
-): { studentType: StudentType; isTwoSubjectStudent: boolean } {
-  if (!yearly?.tests?.length) return { studentType: "four", isTwoSubjectStudent: false };
-
-  const ikusei = (yearly.tests ?? []).filter((t) => t.testType === "ikusei");
-  const n = ikusei.length;
-  if (n === 0) return { studentType: "four", isTwoSubjectStudent: false };
-
-  const twoPresent = ikusei.filter((t: any) => isFiniteNumber(toNumberOrNull(t?.totals?.two?.score))).length;
-  const fourPresent = ikusei.filter((t: any) => isFiniteNumber(toNumberOrNull(t?.totals?.four?.score))).length;
-
-  const almostAll = Math.max(1, Math.floor(n * 0.7));
-  const few = Math.floor(n * 0.3);
-
-  if (twoPresent >= almostAll && fourPresent <= few) return { studentType: "two", isTwoSubjectStudent: true };
-  if (fourPresent >= almostAll && twoPresent <= few) return { studentType: "four", isTwoSubjectStudent: false };
-
-  warnings.push(
-    `2科/4科判定が混在（育成: twoPresent=${twoPresent}, fourPresent=${fourPresent}, n=${n}）。暫定的に4科扱い。`
-  );
-  return { studentType: "four", isTwoSubjectStudent: false };
-}
-
-/* =========================
-   Format Detection
-========================= */
-function detectYearlyFormatFromOcrText(text: string): YearlyFormat {
-  const t = String(text ?? "");
-
-  // 5年寄り（B）
-  if (/Public模試成績/i.test(t)) return "B";
-  if (/年間学習力育成テスト/i.test(t)) return "B";
-  if (/(Ⅲ|III)\s*[\.．]\s*年間学習力育成テスト/i.test(t)) return "B";
-
-  // 6年寄り（A）
-  if (/(V|Ⅴ)\s*[\.．]\s*公開模試成績/i.test(t)) return "A";
-  if (/(Ⅲ|III)\s*[\.．]\s*(前期|前年)学習力育成テスト/i.test(t)) return "A";
-
-  if (/公開模試成績|公開模試|育成テスト/.test(t)) return "A";
-
-  return "auto";
-}
-
-/* =========================
-   OCR (PDF -> text)
-========================= */
-async function ocrPdfFromStorage(params: {
-  bucket: string;
-  path: string;
-  filename: string;
-  focusHint?: string;
-}) {
-  const { bucket, path, filename, focusHint } = params;
-
-  const { data: pdfBlob, error } = await supabase.storage.from(bucket).download(path);
-  if (error || !pdfBlob) throw new Error(`Supabase download failed: ${error?.message}`);
-
-  const ab = await pdfBlob.arrayBuffer();
-  const buf = Buffer.from(ab);
-
-  const uploaded = await openai.files.create({
-    file: await OpenAI.toFile(buf, filename, { type: "application/pdf" }),
-    purpose: "assistants",
-  });
-
-  try {
-    const base =
-      "PDFをページ番号付きでOCR転記してください。要約禁止。推測禁止。省略禁止。表は可能な限り表形式で。";
-
-    const focus = focusHint
-      ? `\n\n【重要】今回は次の内容が載っている箇所だけを優先して転記して：\n${focusHint}\n（それ以外は省略してOK）`
-      : "";
-
-    const resp = await openai.responses.create({
-      model: leadingModelName(),
-      input: [
-        {
-          role: "user",
-          content: [
-            { type: "input_file", file_id: uploaded.id },
-            { type: "input_text", text: base + focus },
-          ],
-        },
-      ],
-    });
-
-    return typeof resp.output_text === "string" ? resp.output_text.trim() : "";
-  } finally {
-    try {
-      await openai.files.delete(uploaded.id);
-    } catch {}
-  }
-}
-
-/* =========================
-   Build yearly JSON from OCR text (format aware)
-========================= */
-function buildYearlyFromOcrTextByFormat(
-  ocrText: string,
-  sourceFilename: string,
-  format: Exclude<YearlyFormat, "auto">
-) {
-  const yearly: JukuReportJson = {
-    docType: "juku_report",
-    student: { name: null, id: null },
-    meta: { sourceFilename, title: null },
-    tests: [],
-    notes: [],
-  };
-
-  // ===== 育成ブロック =====
-  const ikuseiStarts =
-    format === "A"
-      ? [
-          /(III|Ⅲ)\s*[\.．]\s*(前期|前年)学習力育成テスト出題範囲及び成績/i,
-          /(III|Ⅲ)\s*[\.．]\s*(前期|前年)学習力育成テスト/i,
-        ]
-      : [
-          /(III|Ⅲ)\s*[\.．]\s*年間学習力育成テスト出題範囲及び成績/i,
-          /(III|Ⅲ)\s*[\.．]\s*年間学習力育成テスト/i,
-        ];
-
-  const ikuseiEnds = [
-    /思考力育成テスト/i,
-    /合格力実践テスト/i,
-    /(IV|Ⅳ)\s*[\.．]/i,
-    /(V|Ⅴ)\s*[\.．]/i,
-    /公開模試/i,
-    /Public模試/i,
-  ];
-
-  const ikuseiBlock = sliceBetweenAny(ocrText, ikuseiStarts, ikuseiEnds);
-
-  // ✅ 修正：2科の得点/評価が「空欄」でも拾えるようにする
-  // | 回 | 日付 | 4科得点 | 評価 | 2科得点 | 評価 | ...
-  const ikuseiRowRe =
-    /\|\s*(\d{1,2})\s*\|\s*([^\|]{3,24})\|\s*([0-9]{1,3}|\-)\s*\|\s*([0-9]{1,2}(?:\.\d+)?|\-)\s*\|\s*([^|]*)\|\s*([^|]*)\|[^\r\n]*(?:\r?\n|$)/g;
-
-  for (const m of ikuseiBlock.matchAll(ikuseiRowRe)) {
-    const n = Number(m[1]);
-    const date = parseYmdOrYmLoose(m[2]);
-    if (!date) continue;
-
-    const notes: string[] = [];
-
-    const fourScore = clampNum(toNumberOrNull(dashToNull(m[3])), 0, 500);
-    const twoScore = clampNum(toNumberOrNull(dashToNull(m[5])), 0, 400);
-
-    // ✅ 育成評価：3〜10以外は「OCR甘い」扱いで null
-    const fourGradeRaw = toNumberOrNull(dashToNull(m[4]));
-    const twoGradeRaw = toNumberOrNull(dashToNull(m[6]));
-
-    const fourGrade = clampNum(fourGradeRaw, 3, 10);
-    const twoGrade = clampNum(twoGradeRaw, 3, 10);
-
-    if (fourGradeRaw === 1 || fourGradeRaw === 2) notes.push(`育成: 4科評価が${fourGradeRaw}として読まれたため破棄`);
-    if (twoGradeRaw === 1 || twoGradeRaw === 2) notes.push(`育成: 2科評価が${twoGradeRaw}として読まれたため破棄`);
-
-    const t: any = {
-      testType: "ikusei",
-      testName: `第${n}回育成テスト`,
-      date,
-      subjects: [],
-      totals: {
-        two: { score: twoScore, deviation: null, rank: null, grade: twoGrade },
-        four: { score: fourScore, deviation: null, rank: null, grade: fourGrade },
-      },
-      notes,
-    };
-
-    nullifyFieldsByType(t);
-    forceNullifyFourIfMissing(t);
-
-    fixIkuseiTwoFourByRange(t);
-    fixIkuseiTwoFourMix(t);
-
-    yearly.tests.push(t);
-  }
-
-  // ===== 公開ブロック =====
-  const kokaiStarts =
-    format === "A"
-      ? [/(V|Ⅴ)\s*[\.．]\s*公開模試成績/i, /公開模試成績/i]
-      : [/Public模試成績/i, /公開模試成績/i, /(V|Ⅴ)\s*[\.．]\s*公開模試成績/i];
-
-  const kokaiEnds = [
-    /春期/i,
-    /夏期/i,
-    /冬期/i,
-    /合格力育成テスト/i,
-    /合格力実践テスト/i,
-    /転記終了/i,
-    /必要に応じて他の部分も転記/i,
-  ];
-
-  const kokaiBlock = sliceBetweenAny(ocrText, kokaiStarts, kokaiEnds);
-
-  // ✅ 公開：2科列が空でも拾う（? で任意）
-  // | 回 | 年 | 月 | 日 | 4科得点 | 偏差 | 2科得点 | 偏差 |
-  const kokaiRowReSplit =
-    /\|\s*(\d{1,2})\s*\|\s*(20\d{2})\s*\|\s*(\d{1,2})\s*\|\s*(\d{1,2})\s*\|\s*([0-9]{1,3}|\-)\s*\|\s*([0-9]{1,2}(?:\.\d+)?|\-)\s*\|\s*([^|]*)?\|\s*([^|]*)?\|/g;
-
-  // | 回 | 日付 | 4科得点 | 偏差 | 2科得点 | 偏差 |
-  const kokaiRowRe =
-    /\|\s*(\d{1,2})\s*\|\s*([^\|]{3,24})\|\s*([0-9]{1,3}|\-)\s*\|\s*([0-9]{1,2}(?:\.\d+)?|\-)\s*\|\s*([^|]*)?\|\s*([^|]*)?\|/g;
-
-  let matchedAnyKokai = false;
-
-  for (const m of kokaiBlock.matchAll(kokaiRowReSplit)) {
-    matchedAnyKokai = true;
-
-    const n = Number(m[1]);
-    const yy = Number(m[2]);
-    const mm = Number(m[3]);
-    const dd = Number(m[4]);
-
-    const date =
-      mm >= 1 && mm <= 12 && dd >= 1 && dd <= 31
-        ? `${String(yy).padStart(4, "0")}-${String(mm).padStart(2, "0")}-${String(dd).padStart(2, "0")}`
-        : null;
-    if (!date) continue;
-
-    const fourScore = clampNum(toNumberOrNull(dashToNull(m[5])), 0, 500);
-    const fourDev = clampNum(toNumberOrNull(dashToNull(m[6])), 10, 90);
-
-    const twoScore = clampNum(toNumberOrNull(dashToNull(m[7])), 0, 400);
-    let twoDev = clampNum(toNumberOrNull(dashToNull(m[8])), 10, 90);
-
-    // ✅ twoScore が無いなら twoDev も必ず null（誤読10対策）
-    if (twoScore == null) twoDev = null;
-
-    const t: any = {
-      testType: "kokai_moshi",
-      testName: `第${n}回公開模試`,
-      date,
-      subjects: [],
-      totals: {
-        two: { score: twoScore, deviation: twoDev, rank: null, grade: null },
-        four: { score: fourScore, deviation: fourDev, rank: null, grade: null },
-      },
-      notes: [],
-    };
-
-    nullifyFieldsByType(t);
-    forceNullifyFourIfMissing(t);
-    fixKokaiFourScoreIfSuspicious(t);
-
-    yearly.tests.push(t);
-  }
-
-  if (!matchedAnyKokai) {
-    for (const m of kokaiBlock.matchAll(kokaiRowRe)) {
-      const n = Number(m[1]);
-      const date = parseYmdOrYmLoose(m[2]);
-      if (!date) continue;
-
-      const fourScore = clampNum(toNumberOrNull(dashToNull(m[3])), 0, 500);
-      const fourDev = clampNum(toNumberOrNull(dashToNull(m[4])), 10, 90);
-
-      const twoScore = clampNum(toNumberOrNull(dashToNull(m[5])), 0, 400);
-      let twoDev = clampNum(toNumberOrNull(dashToNull(m[6])), 10, 90);
-      if (twoScore == null) twoDev = null;
-
-      const t: any = {
-        testType: "kokai_moshi",
-        testName: `第${n}回公開模試`,
-        date,
-        subjects: [],
-        totals: {
-          two: { score: twoScore, deviation: twoDev, rank: null, grade: null },
-          four: { score: fourScore, deviation: fourDev, rank: null, grade: null },
-        },
-        notes: [],
-      };
-
-      nullifyFieldsByType(t);
-      forceNullifyFourIfMissing(t);
-      fixKokaiFourScoreIfSuspicious(t);
-
-      yearly.tests.push(t);
-    }
-  }
-
-  // 念のため：育成/公開のみ + 学判除外
-  yearly.tests = yearly.tests
-    .map((t: any) => {
-      const nm = String(t?.testName ?? "");
-      const tt = normalizeTestTypeLabel(nm);
-      return { ...t, testType: tt };
-    })
-    .filter(
-      (t: any) =>
-        (t.testType === "ikusei" || t.testType === "kokai_moshi") &&
-        !isGakuhanLike(String(t?.testName ?? ""))
-    );
-
-  yearly.tests.sort((a, b) => {
-    const da = a.date ?? "";
-    const db = b.date ?? "";
-    if (da && db) return da.localeCompare(db);
-    if (da && !db) return -1;
-    if (!da && db) return 1;
-    return String(a.testName ?? "").localeCompare(String(b.testName ?? ""));
-  });
-
-  return yearly;
-}
-
-function buildYearlyFromOcrTextAuto(ocrText: string, sourceFilename: string) {
-  const detected = detectYearlyFormatFromOcrText(ocrText);
-
-  const a = buildYearlyFromOcrTextByFormat(ocrText, sourceFilename, "A");
-  const b = buildYearlyFromOcrTextByFormat(ocrText, sourceFilename, "B");
-
-  const aCount = a.tests?.length ?? 0;
-  const bCount = b.tests?.length ?? 0;
-
-  let best: JukuReportJson;
-  let chosen: Exclude<YearlyFormat, "auto">;
-
-  if (aCount > bCount) {
-    best = a;
-    chosen = "A";
-  } else if (bCount > aCount) {
-    best = b;
-    chosen = "B";
-  } else {
-    if (detected === "B") {
-      best = b;
-      chosen = "B";
-    } else {
-      best = a;
-      chosen = "A";
-    }
-  }
-
-  return { yearly: best, detected, chosen, aCount, bCount };
-}
-
-/* =========================
-   Direct extraction (保険)
-========================= */
-async function extractJukuReportJsonDirectFromPdf(params: {
-  bucket: string;
-  path: string;
-  filename: string;
-  mode: "yearly" | "single";
-}): Promise<{ ok: boolean; reportJson: JukuReportJson | null; raw: string; error: string | null }> {
-  const { bucket, path, filename, mode } = params;
-
-  const { data: pdfBlob, error } = await supabase.storage.from(bucket).download(path);
-  if (error || !pdfBlob) throw new Error(`Supabase download failed: ${error?.message}`);
-
-  const ab = await pdfBlob.arrayBuffer();
-  const buf = Buffer.from(ab);
-
-  const uploaded = await openai.files.create({
-    file: await OpenAI.toFile(buf, filename, { type: "application/pdf" }),
-    purpose: "assistants",
-  });
-
-  try {
-    const system =
-      mode === "yearly"
-        ? `
-あなたは塾の「成績推移表」からデータ抽出します。
-抽出対象：育成（得点/評価）、公開（得点/偏差）
-禁止：推測、2科→4科コピー、学判、平均点/平均との差の生成
-返答は必ずJSONのみ。
-`.trim()
-        : `
-あなたは塾の「単発の成績表」からデータ抽出します。
-育成/公開のみ。推測禁止。返答はJSONのみ。
-`.trim();
-
-    const resp = await openai.responses.create({
-      model: leadingModelName(),
-      input: [
-        { role: "system", content: system },
-        {
-          role: "user",
-          content: [
-            { type: "input_file", file_id: uploaded.id },
-            { type: "input_text", text: `ファイル名: ${filename}\n指定スキーマに沿ってJSON化。空欄はnull。` },
-          ],
-        },
-      ],
-      text: {
-        format: {
-          type: "json_schema",
-          name: JUKU_REPORT_JSON_SCHEMA.name,
-          schema: (JUKU_REPORT_JSON_SCHEMA as any).schema,
-          strict: (JUKU_REPORT_JSON_SCHEMA as any).strict,
-        },
-      } as any,
-    });
-
-    const out = typeof resp.output_text === "string" ? resp.output_text.trim() : "";
-    const parsed = safeParseJson<JukuReportJson>(out);
-
-    if (!parsed || parsed.docType !== "juku_report") {
-      return { ok: false, reportJson: null, raw: out, error: "JSON parse failed or invalid docType" };
-    }
-
-    parsed.tests = Array.isArray(parsed.tests) ? parsed.tests : [];
-    parsed.tests = parsed.tests
-      .map((t: any) => {
-        const nm = String(t?.testName ?? t?.testType ?? "");
-        const tt = normalizeTestTypeLabel(nm);
-        return { ...t, testType: tt };
-      })
-      .filter((t: any) => !isGakuhanLike(String(t?.testName ?? "")));
-
-    parsed.tests = parsed.tests.filter((t: any) => t.testType === "ikusei" || t.testType === "kokai_moshi");
-
-    for (const t of parsed.tests ?? []) {
-      t.totals = t.totals ?? {
-        two: { score: null, deviation: null, rank: null, grade: null },
-        four: { score: null, deviation: null, rank: null, grade: null },
-      };
-
-      t.totals.two.score = clampNum(t.totals.two.score, 0, 400);
-      t.totals.four.score = clampNum(t.totals.four.score, 0, 500);
-      t.totals.two.deviation = clampNum(t.totals.two.deviation, 10, 90);
-      t.totals.four.deviation = clampNum(t.totals.four.deviation, 10, 90);
-
-      if (t.testType === "ikusei") {
-        // ✅ 育成評価は3〜10固定（1・2は“甘い”扱いで落とす）
-        const g2raw = toNumberOrNull(t?.totals?.two?.grade);
-        const g4raw = toNumberOrNull(t?.totals?.four?.grade);
-
-        t.totals.two.grade = clampNum(g2raw, 3, 10);
-        t.totals.four.grade = clampNum(g4raw, 3, 10);
-
-        t.notes = Array.isArray(t.notes) ? t.notes : [];
-        if (g2raw === 1 || g2raw === 2) t.notes.push(`育成: 2科評価が${g2raw}として読まれたため破棄`);
-        if (g4raw === 1 || g4raw === 2) t.notes.push(`育成: 4科評価が${g4raw}として読まれたため破棄`);
-
-        fixIkuseiTwoFourByRange(t);
-        fixIkuseiTwoFourMix(t);
-      } else {
-        t.totals.two.grade = clampNum(t.totals.two.grade, 0, 10);
-        t.totals.four.grade = clampNum(t.totals.four.grade, 0, 10);
-
-        // ✅ 公開：twoScore無いならtwoDev null
-        const twoScore = toNumberOrNull(t?.totals?.two?.score);
-        if (twoScore == null && t?.totals?.two) t.totals.two.deviation = null;
-      }
-
-      nullifyFieldsByType(t);
-      forceNullifyFourIfMissing(t);
-      fixKokaiFourScoreIfSuspicious(t);
-    }
-
-    return { ok: true, reportJson: parsed, raw: out, error: null };
-  } catch (e: any) {
-    return { ok: false, reportJson: null, raw: "", error: e?.message ?? "extract error" };
-  } finally {
-    try {
-      await openai.files.delete(uploaded.id);
-    } catch {}
-  }
-}
-
-/* =========================
-   Trends
-========================= */
-function judgeTrend(vals: number[], threshold: number): Trend {
-  if (!vals || vals.length < 2) return "unknown";
-  const first = vals[0];
-  const last = vals[vals.length - 1];
-  if (!Number.isFinite(first) || !Number.isFinite(last)) return "unknown";
-  const diff = last - first;
-  if (diff >= threshold) return "up";
-  if (diff <= -threshold) return "down";
-  return "flat";
-}
-
-function extractYearlyTrends(yearly: JukuReportJson | null) {
-  if (!yearly) {
-    return {
-      ikusei: { trend: "unknown" as Trend, values: [] as number[] },
-      ikuseiGradeValues: [] as number[],
-      ikuseiScoreValues: [] as number[],
-      kokai: { trend: "unknown" as Trend, values: [] as number[] },
-    };
-  }
-
-  const tests = yearly.tests ?? [];
-
-  // 育成：gradeだけ（3〜10）
-  const ikuseiGradeValues: number[] = tests
-    .filter((t) => t.testType === "ikusei")
-    .map((t: any) => {
-      const g2 = typeof t?.totals?.two?.grade === "number" ? t.totals.two.grade : null;
-      const g4 = typeof t?.totals?.four?.grade === "number" ? t.totals.four.grade : null;
-      return g2 ?? g4;
-    })
-    .filter(isFiniteNumber);
-
-  // 育成：2科得点だけ（0〜400）
-  const ikuseiScoreValues: number[] = tests
-    .filter((t) => t.testType === "ikusei")
-    .map((t: any) => (typeof t?.totals?.two?.score === "number" ? t.totals.two.score : null))
-    .filter(isFiniteNumber);
-
-  // ✅ A案：育成 values は「grade優先、無ければ2科得点で補完」
-  // ※ ここはスケール混在（3〜10 と 0〜400）なので UI はラベル分け推奨
-  const ikuseiUnifiedValues: number[] = tests
-    .filter((t) => t.testType === "ikusei")
-    .map((t: any) => {
-      const g2 = typeof t?.totals?.two?.grade === "number" ? t.totals.two.grade : null;
-      const g4 = typeof t?.totals?.four?.grade === "number" ? t.totals.four.grade : null;
-      const grade = g2 ?? g4;
-
-      if (typeof grade === "number" && Number.isFinite(grade)) return grade;
-
-      const s2 = typeof t?.totals?.two?.score === "number" ? t.totals.two.score : null;
-      if (typeof s2 === "number" && Number.isFinite(s2)) return s2;
-
-      return null;
-    })
-    .filter(isFiniteNumber);
-
-  // 公開：偏差（4科偏差優先、無ければ2科）
-  const kokaiVals: number[] = tests
-    .filter((t) => t.testType === "kokai_moshi")
-    .map((t: any) =>
-      typeof t?.totals?.four?.deviation === "number"
-        ? t.totals.four.deviation
-        : typeof t?.totals?.two?.deviation === "number"
-          ? t.totals.two.deviation
-          : null
-    )
-    .filter(isFiniteNumber);
-
-  return {
-    ikusei: { trend: judgeTrend(ikuseiUnifiedValues, 1), values: ikuseiUnifiedValues },
-    ikuseiGradeValues,
-    ikuseiScoreValues,
-    kokai: { trend: judgeTrend(kokaiVals, 3), values: kokaiVals },
-  };
-}
-
-/* =========================
-   ✅ 追加：reports / mistakeSummary builder
-========================= */
-function pickReportCase(trends: ReturnType<typeof extractYearlyTrends>, warnings: string[]) {
-  const ik = trends.ikusei?.trend ?? "unknown";
-  const kk = trends.kokai?.trend ?? "unknown";
-
-  // ざっくり3分類（UIで差が見えることが目的）
-  if (kk === "up" || ik === "up") return "rising";
-  if (kk === "down") return "unstable";
-  if (ik === "flat" && kk === "flat") return "stable";
-  if (ik === "unknown" && kk === "unknown") {
-    warnings.push("年間推移の数値が少なく、レポートは暫定コメントになります。");
-    return "unknown";
-  }
-  // default
-  return "stable";
-}
-
-function buildReports(params: {
-  analysisMode: AnalysisMode;
-  studentType: StudentType;
-  isTwoSubjectStudent: boolean;
-  trends: ReturnType<typeof extractYearlyTrends>;
-  warnings: string[];
-}): Reports {
-  const { analysisMode, studentType, isTwoSubjectStudent, trends, warnings } = params;
-
-  const c = pickReportCase(trends, warnings);
-
-  const studentLabel =
-    studentType === "two"
-      ? "（2科目生）"
-      : isTwoSubjectStudent
-        ? "（2科目生）"
-        : "（4科目生想定）";
-
-  const baseTitle = analysisMode === "yearly-only" ? `面談用コメント（暫定：年間のみ）${studentLabel}` : `面談用コメント（1分版）${studentLabel}`;
-
-  if (c === "rising") {
-    return {
-      menndan_1min: {
-        title: baseTitle,
-        body:
-          "推移を見ると、ここ数か月で上向きの動きが出ています。\n" +
-          "育成・公開のどちらか（または両方）で上昇傾向が見えており、努力が結果に結びつき始めている段階です。\n\n" +
-          "次回は『取れる問題を安定して取り切る』ことに絞ると、伸びが定着しやすくなります。\n" +
-          "（単発の○×正答率一覧が入ると、どの難度で落としているかまで精密に確認できます。）",
-        bullets: [
-          "年間推移は上向きの兆し",
-          "次は『標準問題の取り切り』で安定化",
-          "単発○×が入ると優先課題が確定",
-        ],
-        tags: ["上昇", "伸び始め", "定着"],
-      },
-      child_simple: {
-        title: "きみへのメッセージ",
-        body:
-          "さいきん、少しずつできることが増えてきたよ。\n" +
-          "つぎは『みんなができる問題』をていねいに取るだけでOK。\n" +
-          "あせらず、1つずついこう！",
-        action: "途中式を1行でも書いてから答える",
-      },
-      parent_handout: {
-        title: "成績状況のご報告（要点）",
-        summary:
-          "成績は上向きの兆しが見えています。次は標準問題の取り切りを意識することで、伸びが定着しやすくなります。",
-        points: [
-          "年間推移：上昇傾向の兆し",
-          "課題：標準問題の安定得点",
-          "単発○×正答率で優先課題を確定可能",
-        ],
-        nextAction: "標準問題の見直しルール（最後5分）を固定する",
-      },
-    };
-  }
-
-  if (c === "unstable") {
-    return {
-      menndan_1min: {
-        title: baseTitle,
-        body:
-          "推移を見ると、力はある一方で結果に波が出やすい状態です。\n" +
-          "このタイプは『難しい問題を増やす』よりも、『取りこぼしを減らす』方が伸びます。\n\n" +
-          "次回は、易〜標準の取り切り（計算チェック・見直し手順の固定）を最優先にします。\n" +
-          "（単発の○×正答率一覧が入ると、A/B/Cのどこで落ちているかが明確になります。）",
-        bullets: [
-          "結果に波が出やすい",
-          "優先は『取りこぼし削減』",
-          "見直し手順の固定が効く",
-        ],
-        tags: ["不安定", "精度", "見直し"],
-      },
-      child_simple: {
-        title: "きみへのメッセージ",
-        body:
-          "できる力はあるよ。\n" +
-          "でも、ときどき『かんたんな問題』でミスが出ちゃうことがある。\n" +
-          "つぎは『かんたんな問題をぜったい落とさない』をいちばん大事にしよう。",
-        action: "さいごの3分でかんたんな問題だけ見直す",
-      },
-      parent_handout: {
-        title: "成績状況のご報告（要点）",
-        summary:
-          "学力はありますが、結果に波が出やすい状態です。易〜標準の取りこぼし削減を優先すると安定しやすくなります。",
-        points: [
-          "年間推移：上下の波が見られる",
-          "課題：易〜標準の取りこぼし",
-          "次回：見直し手順の固定が最優先",
-        ],
-        nextAction: "計算チェック／見直しの型を1つに固定する",
-      },
-    };
-  }
-
-  // stable / unknown
-  return {
-    menndan_1min: {
-      title: baseTitle,
-      body:
-        "推移を見ると、現状は大きく崩れてはいません。\n" +
-        "次に伸ばすには、『取れる問題を安定して取り切る』ことを軸にすると効果が出やすいです。\n\n" +
-        "単発の○×正答率一覧が入ると、A/B/Cのどこを優先するべきかが確定し、面談コメントもより具体化できます。",
-      bullets: [
-        "大崩れはしていない",
-        "次は『標準問題の取り切り』で伸びやすい",
-        "単発○×が入ると精密化できる",
-      ],
-      tags: ["安定", "次の一手", "標準問題"],
-    },
-    child_simple: {
-      title: "きみへのメッセージ",
-      body:
-        "いまのきみは、しっかり力がついてきてるよ。\n" +
-        "つぎは『ふつうの問題をまちがえない』を大事にしよう。",
-      action: "ふつうの問題を1回だけ見直す",
-    },
-    parent_handout: {
-      title: "成績状況のご報告（要点）",
-      summary:
-        "成績は安定しています。次は標準問題の取り切りを軸に、得点の安定感を高めていきます。",
-      points: [
-        "年間推移：大きな崩れはなし",
-        "課題：標準問題の安定得点",
-        "単発○×正答率で優先課題を確定可能",
-      ],
-      nextAction: "標準問題の見直しルールを継続する",
-    },
-  };
-}
-
-function buildMistakeSummary(uploadedSinglesCount: number): MistakeSummary {
-  if (uploadedSinglesCount <= 0) {
-    return { status: "no-single", message: "単発PDFが未投入のため、○×正答率からのミス分析は未実施です。" };
-  }
-  // まだ単発OCRを繋いでいない段階なので、まずはスタブでUIを動かす
-  return {
-    status: "not-implemented",
-    message: "単発PDFの○×正答率一覧の抽出（OCR/パース）が未接続です。接続後にA/B/C難度分類とミス傾向が出ます。",
-  };
-}
-
-/* =========================
-   Model helper
-========================= */
-function leadingModelName() {
-  return "gpt-4.1-mini";
+async function readFile(file: File): Promise<AnalyzeInputFile> {
+  return { name: file.name, type: file.type, size: file.size, bytes: Buffer.from(await file.arrayBuffer()) };
 }
 
 /* =========================
    Handler
+   - 入力チェック → ジョブ作成 → jobId を返す（202）
+   - 分析本体（lib/analyzePipeline）はレスポンス後に after() で実行
+   - 進み具合・結果は GET /api/analyze/jobs/:id
 ========================= */
 export async function POST(req: NextRequest) {
   try {
+    // ✅ 講師アカウントでのログイン必須（分析は講師個人にひも付けて保存）
+    const teacher = await getTeacher();
+    if (!teacher) {
+      return new NextResponse("講師としてログインしてください。", { status: 401 });
+    }
+
     const fd = await req.formData();
 
     const singleFiles = fd.getAll("single").filter((v): v is File => v instanceof File);
     const yearlyFileRaw = fd.get("yearly");
     const yearlyFile = yearlyFileRaw instanceof File ? yearlyFileRaw : null;
 
+    const selections = parseSelections(fd);
+
+    // ✅ 生徒ID/氏名（入力があればOCRより優先）
+    const studentId = String(fd.get("studentId") ?? "").trim();
+    const studentName = String(fd.get("studentName") ?? "").trim();
+
     const yearlyFormatRaw = fd.get("yearlyFormat");
     const yearlyFormat: YearlyFormat =
-      yearlyFormatRaw === "A" || yearlyFormatRaw === "B" || yearlyFormatRaw === "auto"
-        ? (yearlyFormatRaw as any)
-        : "auto";
+      typeof yearlyFormatRaw === "string" && findYearlyFormat(yearlyFormatRaw) ? yearlyFormatRaw : "auto";
 
     if (singleFiles.length === 0 && !yearlyFile) {
       return new NextResponse("PDFがありません。", { status: 400 });
     }
 
-    const bucket = process.env.SUPABASE_PDF_BUCKET ?? "report-pdfs";
-    const baseDir = `analyze/${randomUUID()}`;
-
-    async function upload(file: File) {
-      const ab = await file.arrayBuffer();
-      const path = `${baseDir}/${safeName(file.name)}`;
-      const { error } = await supabase.storage.from(bucket).upload(path, ab, {
-        contentType: file.type || "application/pdf",
-        upsert: true,
-      });
-      if (error) throw new Error(error.message);
-      return { path, name: file.name, size: file.size };
-    }
-
-    const uploadedSingles: { path: string; name: string; size: number }[] = [];
-    for (const f of singleFiles) uploadedSingles.push(await upload(f));
-    const uploadedYearly = yearlyFile ? await upload(yearlyFile) : null;
-
-    // ✅ 追加：warnings / analysisMode（UIで使う）
-    const warnings: string[] = [];
-    const analysisMode: AnalysisMode = computeAnalysisMode(uploadedSingles.length);
-    if (analysisMode === "yearly-only") {
-      warnings.push("単発PDFが未投入のため、分析モードは yearly-only（年間推移の参考分析）です。");
-    }
-
-    let yearlyOcrText: string | null = null;
-    let yearlyOcrError: string | null = null;
-
-    let yearlyReportJson: any | null = null;
-    let yearlyReportJsonMeta: { ok: boolean; error: string | null } | null = null;
-    let yearlyDebug: any | null = null;
-
-    if (uploadedYearly) {
-      try {
-        const yearlyOcrTextIkusei = await ocrPdfFromStorage({
-          bucket,
-          path: uploadedYearly.path,
-          filename: uploadedYearly.name,
-          focusHint:
-            "III. 学習力育成テスト 出題範囲及び成績（回数・試験実施日・4科目得点・評価・2科目得点・評価の表）",
-        });
-
-        const yearlyOcrTextKokai = await ocrPdfFromStorage({
-          bucket,
-          path: uploadedYearly.path,
-          filename: uploadedYearly.name,
-          focusHint:
-            "V. 公開模試成績（回数・年/月/日・4科得点・偏差・2科得点・偏差の表）",
-        });
-
-        yearlyOcrText = [yearlyOcrTextIkusei, yearlyOcrTextKokai].filter(Boolean).join("\n\n---\n\n");
-      } catch (e: any) {
-        yearlyOcrText = null;
-        yearlyOcrError = e?.message ?? "yearly OCR error";
-        console.error("[yearly OCR error]", uploadedYearly?.name, e);
-      }
-
-      if (yearlyOcrText) {
-        if (yearlyFormat === "A" || yearlyFormat === "B") {
-          yearlyReportJson = buildYearlyFromOcrTextByFormat(yearlyOcrText, uploadedYearly.name, yearlyFormat);
-          yearlyReportJsonMeta = { ok: true, error: null };
-          yearlyDebug = {
-            mode: "yearly-ocr-regex",
-            forcedFormat: yearlyFormat,
-            ocrLen: yearlyOcrText.length,
-            extractedTests: yearlyReportJson.tests?.length ?? 0,
-          };
-        } else {
-          const auto = buildYearlyFromOcrTextAuto(yearlyOcrText, uploadedYearly.name);
-          yearlyReportJson = auto.yearly;
-          yearlyReportJsonMeta = { ok: true, error: null };
-          yearlyDebug = {
-            mode: "yearly-ocr-regex",
-            detectedFormat: auto.detected,
-            chosenFormat: auto.chosen,
-            tryA: auto.aCount,
-            tryB: auto.bCount,
-            ocrLen: yearlyOcrText.length,
-            extractedTests: yearlyReportJson.tests?.length ?? 0,
-          };
-        }
-      } else {
-        const extractedYearly = await extractJukuReportJsonDirectFromPdf({
-          bucket,
-          path: uploadedYearly.path,
-          filename: uploadedYearly.name,
-          mode: "yearly",
-        });
-
-        yearlyReportJson = extractedYearly.reportJson;
-        yearlyReportJsonMeta = {
-          ok: extractedYearly.ok,
-          error: extractedYearly.ok ? null : extractedYearly.error ?? "JSON化に失敗",
-        };
-        yearlyDebug = { mode: "yearly-direct", rawLen: extractedYearly.raw?.length ?? 0 };
-      }
-    }
-
-    // ✅ 追加：2科/4科判定（年間が無い場合は安全側）
-    const st = detectStudentTypeFromYearly((yearlyReportJson as any) ?? null, warnings);
-    const studentType: StudentType = st.studentType;
-    const isTwoSubjectStudent: boolean = st.isTwoSubjectStudent;
-
-    const trends = extractYearlyTrends(yearlyReportJson as any);
-
-    // ✅ 追加：reports（UIにそのまま渡せる）
-    const reports: Reports = buildReports({
-      analysisMode,
-      studentType,
-      isTwoSubjectStudent,
-      trends,
-      warnings,
+    // PDFはここで読み切る（レスポンス後はリクエスト本文を読めない）
+    const singles = await Promise.all(singleFiles.map(readFile));
+    const yearly = yearlyFile ? await readFile(yearlyFile) : null;
+    const storage = await createUserClient();
+
+    const jobId = await createAnalysisJob(teacher.user.id, {
+      singles: singles.map((f) => ({ name: f.name, size: f.size })),
+      yearly: yearly ? { name: yearly.name, size: yearly.size } : null,
+      selections,
+      studentId,
+      studentName,
+      yearlyFormat,
     });
 
-    // ✅ 追加：mistakeSummary（まずはUI確認用スタブ）
-    const mistakeSummary: MistakeSummary = buildMistakeSummary(uploadedSingles.length);
-
-    return NextResponse.json({
-      summary: `単発=${uploadedSingles.length}枚 / 年間=${uploadedYearly ? "あり" : "なし"}`,
-
-      // ✅ 追加（フロントで分岐に使える）
-      analysisMode,
-      studentType,
-      isTwoSubjectStudent,
-      warnings,
-
-      // ✅ 追加：レポート（面談/配布/子ども向け）
-      reports,
-
-      // ✅ 追加：単発ミス分析（スタブ）
-      mistakeSummary,
+    after(() =>
+      runAnalysisJob(jobId, {
+        teacherId: teacher.user.id,
+        storage,
+        singles,
+        yearly,
+        selections,
+        studentId,
+        studentName,
+        yearlyFormat,
+      })
+    );
 
-      files: { singles: uploadedSingles, yearly: uploadedYearly },
-      ocr: {
-        singles: [],
-        yearly: yearlyOcrText,
-        yearlyError: yearlyOcrError,
-        yearlyReportJson,
-        yearlyReportJsonMeta,
-        yearlyDebug,
-      },
-      yearlyTrends: trends,
-      commentary:
-        uploadedSingles.length === 0
-          ? "単発PDFが未投入です。メイン分析は単発（育成/公開の1回分）を入れると精度が上がります。年間は推移の補助として扱います。"
-          : "単発PDFを元に分析します。",
-    });
+    return NextResponse.json({ jobId }, { status: 202 });
   } catch (e: any) {
     console.error("[route POST fatal]", e);
     return new NextResponse(e?.message ?? "Server error", { status: 500 });
@@ -1,25 +1,18 @@
 import { NextRequest, NextResponse } from "next/server";
+import { summarizeBySubject, type SingleQ, type SubjectKey } from "@/lib/mistakeSummary";
 
-type Difficulty = "A" | "B" | "C";
 type Trend = "up" | "down" | "flat" | "unknown";
 
 type YearlyTest =
   | { type: "ikusei"; date: string; twoScore: number; grade: number }
   | { type: "kokai"; date: string; deviation: number };
 
-type SingleQ = { q: number; rate: number; correct: boolean };
 type SampleInput = {
   studentKey: "A" | "B" | "C";
   yearly: { tests: YearlyTest[] };
-  single: { date: string; questionStats: { sansuu: SingleQ[] } };
+  single: { date: string; questionStats: Partial<Record<SubjectKey, SingleQ[]>> };
 };
 
-function classify(rate: number): Difficulty {
-  if (rate >= 70) return "A";
-  if (rate >= 40) return "B";
-  return "C";
-}
-
 function trend(vals: number[], threshold: number): Trend {
   if (!vals || vals.length < 2) return "unknown";
   const diff = vals[vals.length - 1] - vals[0];
@@ -29,29 +22,7 @@ function trend(vals: number[], threshold: number): Trend {
 }
 
 function buildMistakeSummary(single: SampleInput["single"]) {
-  const items = single.questionStats.sansuu.map((x) => ({
-    ...x,
-    level: classify(x.rate),
-  }));
-
-  const byLevel = { A: { total: 0, miss: 0 }, B: { total: 0, miss: 0 }, C: { total: 0, miss: 0 } };
-  for (const it of items) {
-    byLevel[it.level].total += 1;
-    if (!it.correct) byLevel[it.level].miss += 1;
-  }
-
-  const aMiss = byLevel.A.miss;
-  const bMiss = byLevel.B.miss;
-  const cMiss = byLevel.C.miss;
-
-  const insight =
-    aMiss >= 1
-      ? "A問題（易）での取りこぼしがあり、安定性が最優先課題です。"
-      : bMiss >= 2
-        ? "B問題（標準）の取りこぼしが多く、得点の芯を作ることが最優先です。"
-        : "A/Bは概ね取れており、C（難）は伸びしろ領域です。";
-
-  return { subject: "sansuu", items, byLevel, insight };
+  return summarizeBySubject(single.questionStats);
 }
 
 function buildYearlyTrends(yearly: SampleInput["yearly"]) {
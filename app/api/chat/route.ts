@@ -1,13 +1,16 @@
 import { createClient } from "@supabase/supabase-js";
 import { NextRequest, NextResponse } from "next/server";
-import OpenAI from "openai";
+import { getSessionUser } from "@/lib/auth";
+import { buildChatMessages, formatTurnsForSummary, trimHistoryToBudget, type ChatTurn } from "@/lib/chatContext";
+import { getLlmProvider } from "@/lib/llm";
+import type { SessionUser } from "@/lib/auth";
+import type { MistakeSummary } from "@/lib/mistakeSummary";
+import { buildStudentContext } from "@/lib/studentContext";
 
 /* ===============================
-   OpenAI
+   LLM（LLM_PROVIDER で openai / stub を切替）
 ================================ */
-const openai = new OpenAI({
-  apiKey: process.env.OPENAI_API_KEY!,
-});
+const llm = getLlmProvider();
 
 /* ===============================
    Supabase（Service Role）
@@ -59,6 +62,118 @@ const SYSTEM_PROMPT = `
 として振る舞ってください。
 `;
 
+/* ===============================
+   会話コンテキスト
+================================ */
+// 過去ターンに使うトークン予算（あふれた古いターンは要約に畳み込む）
+const HISTORY_TOKEN_BUDGET = 3000;
+
+const SUMMARY_PROMPT = `
+あなたは中学受験の相談記録の要約係です。
+これまでの要約と新しいやり取りを統合し、次の相談で必要な事実だけを箇条書きで残してください。
+・学年、志望校レベル、塾、科目、悩み、補足質問への回答、提案済みの対策 を優先
+・推測で情報を足さない
+・400字以内
+`.trim();
+
+type ThreadRow = { id: string; user_id: string; summary: string | null; summarized_count: number };
+
+async function summarizeTurns(prevSummary: string | null, turns: ChatTurn[]) {
+  const text = await llm.chat([
+    { role: "system", content: SUMMARY_PROMPT },
+    {
+      role: "user",
+      content: `【これまでの要約】\n${prevSummary ?? "（なし）"}\n\n【新しいやり取り】\n${formatTurnsForSummary(turns)}`,
+    },
+  ]);
+  return text.trim() || prevSummary;
+}
+
+/* ===============================
+   util
+================================ */
+const FALLBACK_REPLY = "ごめんね、うまく整理できなかった。もう一度教えて。";
+
+/** 返答の確定保存（responses.answer / スレッド） */
+async function saveReply(threadId: string, logId: unknown, reply: string) {
+  await supabase
+    .from("responses")
+    .update({ answer: reply })
+    .eq("id", logId);
+
+  await supabase.from("chat_messages").insert({ thread_id: threadId, role: "assistant", content: reply });
+  await supabase.from("chat_threads").update({ updated_at: new Date().toISOString() }).eq("id", threadId);
+}
+
+/** SSE 1イベント分 */
+function sseEvent(event: "meta" | "delta" | "done" | "error", data: unknown) {
+  return new TextEncoder().encode(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
+}
+
+/**
+ * 相談対象の生徒
+ * - 保護者：profiles.student_id に固定（body の指定は無視）
+ * - 講師/管理者：body.student_id で指定
+ */
+function resolveStudentId(session: SessionUser, body: { student_id?: unknown } | null): string | null {
+  if (session.role === "parent") return session.studentId;
+  if (session.role === "teacher" || session.role === "admin") {
+    const sid = typeof body?.student_id === "string" ? body.student_id.trim() : "";
+    return sid || null;
+  }
+  return null;
+}
+
+/** 生徒の時系列 + 直近の分析 → system に差し込むデータ文 */
+async function loadStudentContext(studentId: string) {
+  const [{ data: student }, { data: latest }] = await Promise.all([
+    supabase.from("students").select("id, name, timeline").eq("id", studentId).maybeSingle(),
+    supabase
+      .from("analyses")
+      .select("created_at, yearly_trends, mistakeSummary:response->mistakeSummary")
+      .eq("student_id", studentId)
+      .order("created_at", { ascending: false })
+      .limit(1)
+      .maybeSingle(),
+  ]);
+
+  if (!student && !latest) return null;
+
+  return buildStudentContext({
+    studentId,
+    name: student?.name ?? null,
+    timeline: Array.isArray(student?.timeline) ? student.timeline : [],
+    latest: latest
+      ? {
+          createdAt: latest.created_at ?? null,
+          yearlyTrends: latest.yearly_trends ?? null,
+          mistakeSummary: (latest.mistakeSummary as MistakeSummary | null) ?? null,
+        }
+      : null,
+  });
+}
+
+async function loadOwnThread(threadId: string, userId: string) {
+  const { data, error } = await supabase
+    .from("chat_threads")
+    .select("id, user_id, summary, summarized_count")
+    .eq("id", threadId)
+    .maybeSingle();
+  if (error) throw error;
+  if (!data || data.user_id !== userId) return null;
+  return data as ThreadRow;
+}
+
+async function loadThreadMessages(threadId: string): Promise<ChatTurn[]> {
+  const { data, error } = await supabase
+    .from("chat_messages")
+    .select("role, content")
+    .eq("thread_id", threadId)
+    .order("id", { ascending: true });
+  if (error) throw error;
+  return (data ?? []) as ChatTurn[];
+}
+
 /* ===============================
    util
 ================================ */
@@ -66,6 +181,26 @@ function jsonError(message: string, status = 400, extra?: any) {
   return NextResponse.json({ ok: false, message, ...extra }, { status });
 }
 
+/* ===============================
+   GET /api/chat?thread_id=...
+   - スレッドの過去メッセージ（画面の再表示用）
+================================ */
+export async function GET(req: NextRequest) {
+  const session = await getSessionUser();
+  if (!session) return jsonError("unauthorized", 401);
+
+  const threadId = req.nextUrl.searchParams.get("thread_id");
+  if (!threadId) return jsonError("thread_id is required");
+
+  const thread = await loadOwnThread(threadId, session.user.id).catch(() => null);
+  if (!thread) return jsonError("thread not found", 404);
+
+  const messages = await loadThreadMessages(thread.id).catch(() => null);
+  if (!messages) return jsonError("failed to load messages", 500);
+
+  return NextResponse.json({ ok: true, thread_id: thread.id, messages });
+}
+
 /* ===============================
    POST /api/chat
 ================================ */
@@ -85,9 +220,55 @@ export async function POST(req: NextRequest) {
     return jsonError("message is required");
   }
 
+  // 講師/保護者の Supabase Auth ユーザーIDで記録（proxy でログイン済みのはず）
+  const session = await getSessionUser();
+  if (!session) return jsonError("unauthorized", 401);
+
+  /* -------- ①' スレッド（無ければ新規） -------- */
+  let thread: ThreadRow | null = null;
+  const threadIdIn = typeof body?.thread_id === "string" ? body.thread_id : "";
+
+  if (threadIdIn) {
+    thread = await loadOwnThread(threadIdIn, session.user.id).catch(() => null);
+    if (!thread) return jsonError("thread not found", 404);
+  } else {
+    const { data: created, error: threadErr } = await supabase
+      .from("chat_threads")
+      .insert({ user_id: session.user.id, title: message.slice(0, 40) })
+      .select("id, user_id, summary, summarized_count")
+      .single();
+    if (threadErr || !created) {
+      console.error("Supabase thread insert error:", threadErr);
+      return NextResponse.json({ ok: false, where: "chat_threads_insert", error: threadErr }, { status: 500 });
+    }
+    thread = created as ThreadRow;
+  }
+
+  /* -------- ①'' 過去ターン：予算内は原文、あふれた分は要約へ -------- */
+  const allTurns = await loadThreadMessages(thread.id).catch(() => [] as ChatTurn[]);
+  const { kept, dropped } = trimHistoryToBudget(allTurns.slice(thread.summarized_count), HISTORY_TOKEN_BUDGET);
+
+  let summary = thread.summary;
+  if (dropped.length > 0) {
+    try {
+      summary = await summarizeTurns(summary, dropped);
+      await supabase
+        .from("chat_threads")
+        .update({ summary, summarized_count: thread.summarized_count + dropped.length })
+        .eq("id", thread.id);
+    } catch (e) {
+      // 要約に失敗しても会話は続ける（あふれた分は今回は送らない）
+      console.error("chat summary error:", e);
+    }
+  }
+
+  /* -------- ①''' 対象生徒の実データ（あれば） -------- */
+  const studentId = resolveStudentId(session, body);
+  const studentContext = studentId ? await loadStudentContext(studentId).catch(() => null) : null;
+
   /* -------- ② Supabase用データ（本番補完） -------- */
   const insertRow = {
-    user_id: body?.user_id ?? "web",
+    user_id: session.user.id,
     test_id: body?.test_id ?? "ed9ba4f3-fdca-48a7-9d1e-6287cf505c98",
     subject: body?.subject ?? "未分類",               // NOT NULL
     qid: body?.qid ?? `web-${crypto.randomUUID()}`,   // NOT NULL
@@ -110,29 +291,72 @@ export async function POST(req: NextRequest) {
     );
   }
 
-  /* -------- ④ OpenAI（まなぶ先生AI） -------- */
-  const completion = await openai.chat.completions.create({
-    model: "gpt-4.1-mini",
-    messages: [
-      { role: "system", content: SYSTEM_PROMPT },
-      { role: "user", content: message },
-    ],
-  });
+  await supabase.from("chat_messages").insert({ thread_id: thread.id, role: "user", content: message });
 
-  const reply =
-    completion.choices[0]?.message?.content ??
-    "ごめんね、うまく整理できなかった。もう一度教えて。";
+  /* -------- ④ LLM（まなぶ先生AI）：要約 + 直近ターン + 今回 -------- */
+  const chatMessages = buildChatMessages({ systemPrompt: SYSTEM_PROMPT, studentContext, summary, kept, message });
+
+  const threadId = thread.id;
+  const logId = data?.[0]?.id;
+
+  /* -------- ④' ストリーミング（SSE）：meta → delta… → done -------- */
+  if (body?.stream === true) {
+    const abort = new AbortController();
+
+    const stream = new ReadableStream<Uint8Array>({
+      async start(controller) {
+        controller.enqueue(
+          sseEvent("meta", { thread_id: threadId, log_id: logId, grounded: studentContext ? studentId : null })
+        );
+
+        let reply = "";
+        try {
+          for await (const delta of llm.chatStream(chatMessages, { signal: abort.signal })) {
+            reply += delta;
+            controller.enqueue(sseEvent("delta", { delta }));
+          }
+        } catch (e) {
+          console.error("LLM stream error:", e);
+          try {
+            controller.enqueue(sseEvent("error", { message: "stream interrupted" }));
+          } catch {}
+        }
+
+        // 途中で切れても、届いた分は保存する
+        reply = reply || FALLBACK_REPLY;
+        await saveReply(threadId, logId, reply);
+
+        try {
+          controller.enqueue(sseEvent("done", { reply, thread_id: threadId, log_id: logId }));
+          controller.close();
+        } catch {
+          // クライアント切断済み
+        }
+      },
+      cancel() {
+        abort.abort();
+      },
+    });
+
+    return new Response(stream, {
+      headers: {
+        "Content-Type": "text/event-stream; charset=utf-8",
+        "Cache-Control": "no-cache, no-transform",
+        Connection: "keep-alive",
+      },
+    });
+  }
+
+  const reply = (await llm.chat(chatMessages)) || FALLBACK_REPLY;
+
+  await saveReply(threadId, logId, reply);
 
-  await supabase
-    .from("responses")
-    .update({ answer: reply })
-    .eq("id", data?.[0]?.id);
-    
   /* -------- ⑤ 返却 -------- */
   return NextResponse.json({
     ok: true,
     reply,
+    thread_id: thread.id,
     log_id: data?.[0]?.id,
-    received: body, // ★追加：Webから何が届いたか確認用（デバッグが終わったら消す）
+    grounded: studentContext ? studentId : null,
   });
 }
@@ -1,23 +1,40 @@
 import { NextResponse } from "next/server";
+import { loginIdToEmail } from "@/lib/auth";
+import { createClient } from "@/lib/supabase/server";
 
+/* ===============================
+   POST /api/login/teacher
+   - 講師ごとの Supabase Auth アカウントでログイン
+   - profiles.role が teacher でなければセッションを破棄して 403
+================================ */
 export async function POST(req: Request) {
-  const { id, password } = await req.json();
+  const { id, password } = await req.json().catch(() => ({}));
 
-  const ok =
-    id === process.env.TEACHER_LOGIN_ID &&
-    password === process.env.TEACHER_LOGIN_PASSWORD;
+  if (typeof id !== "string" || typeof password !== "string" || !id.trim() || !password) {
+    return NextResponse.json({ error: "invalid" }, { status: 400 });
+  }
+
+  const supabase = await createClient();
+
+  const { data, error } = await supabase.auth.signInWithPassword({
+    email: loginIdToEmail(id),
+    password,
+  });
 
-  if (!ok) {
+  if (error || !data.user) {
     return NextResponse.json({ error: "invalid" }, { status: 401 });
   }
 
-  const res = NextResponse.json({ ok: true });
-  res.cookies.set(process.env.TEACHER_LOGIN_COOKIE ?? "teacher_session", "1", {
-    httpOnly: true,
-    secure: true,
-    sameSite: "lax",
-    path: "/",
-    maxAge: 60 * 60 * 8, // 8時間
-  });
-  return res;
-}
\ No newline at end of file
+  const { data: profile } = await supabase
+    .from("profiles")
+    .select("role")
+    .eq("user_id", data.user.id)
+    .maybeSingle();
+
+  if (profile?.role !== "teacher" && profile?.role !== "admin") {
+    await supabase.auth.signOut();
+    return NextResponse.json({ error: "forbidden" }, { status: 403 });
+  }
+
+  return NextResponse.json({ ok: true });
+}
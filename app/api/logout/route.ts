@@ -0,0 +1,12 @@
+import { NextResponse } from "next/server";
+import { createClient } from "@/lib/supabase/server";
+
+/* ===============================
+   POST /api/logout
+   - Supabase のセッションを破棄（リフレッシュトークンも無効化）
+================================ */
+export async function POST() {
+  const supabase = await createClient();
+  await supabase.auth.signOut();
+  return NextResponse.json({ ok: true });
+}
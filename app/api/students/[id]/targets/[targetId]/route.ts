@@ -0,0 +1,64 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getTeacher } from "@/lib/auth";
+import { deleteStudentTarget, updateStudentTarget } from "@/lib/studentTargets";
+import { parseTargetInput } from "@/lib/targetSchools";
+
+export const runtime = "nodejs";
+
+type Ctx = { params: Promise<{ id: string; targetId: string }> };
+
+/* ===============================
+   PATCH /api/students/:id/targets/:targetId
+   - body: { schoolName, line80, line50, priority }（全項目を送る）
+================================ */
+export async function PATCH(req: NextRequest, ctx: Ctx) {
+  if (!(await getTeacher())) {
+    return NextResponse.json({ ok: false, message: "unauthorized" }, { status: 401 });
+  }
+
+  const { id, targetId } = await ctx.params;
+
+  let body: unknown;
+  try {
+    body = await req.json();
+  } catch {
+    return NextResponse.json({ ok: false, message: "invalid json" }, { status: 400 });
+  }
+
+  const { target, errors } = parseTargetInput(body);
+  if (!target) {
+    return NextResponse.json({ ok: false, message: "入力に誤りがあります", errors }, { status: 400 });
+  }
+
+  try {
+    const updated = await updateStudentTarget({ studentId: id, targetId, target });
+    if (!updated) {
+      return NextResponse.json({ ok: false, message: "not found" }, { status: 404 });
+    }
+    return NextResponse.json({ ok: true, target: updated });
+  } catch (e) {
+    console.error("[student_targets update error]", e);
+    return NextResponse.json({ ok: false, message: e instanceof Error ? e.message : "error" }, { status: 500 });
+  }
+}
+
+/* ===============================
+   DELETE /api/students/:id/targets/:targetId
+================================ */
+export async function DELETE(_req: NextRequest, ctx: Ctx) {
+  if (!(await getTeacher())) {
+    return NextResponse.json({ ok: false, message: "unauthorized" }, { status: 401 });
+  }
+
+  const { id, targetId } = await ctx.params;
+
+  try {
+    if (!(await deleteStudentTarget(id, targetId))) {
+      return NextResponse.json({ ok: false, message: "not found" }, { status: 404 });
+    }
+    return NextResponse.json({ ok: true });
+  } catch (e) {
+    console.error("[student_targets delete error]", e);
+    return NextResponse.json({ ok: false, message: e instanceof Error ? e.message : "error" }, { status: 500 });
+  }
+}
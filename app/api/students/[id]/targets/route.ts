@@ -0,0 +1,59 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getTeacher } from "@/lib/auth";
+import { createStudentTarget, listStudentTargets } from "@/lib/studentTargets";
+import { parseTargetInput } from "@/lib/targetSchools";
+
+export const runtime = "nodejs";
+
+/* ===============================
+   GET /api/students/:id/targets
+   - 生徒の志望校（第◯志望の順）
+================================ */
+export async function GET(_req: NextRequest, ctx: { params: Promise<{ id: string }> }) {
+  if (!(await getTeacher())) {
+    return NextResponse.json({ ok: false, message: "unauthorized" }, { status: 401 });
+  }
+
+  const { id } = await ctx.params;
+
+  try {
+    return NextResponse.json({ ok: true, targets: await listStudentTargets(id) });
+  } catch (e) {
+    console.error("[student_targets list error]", e);
+    return NextResponse.json({ ok: false, message: e instanceof Error ? e.message : "error" }, { status: 500 });
+  }
+}
+
+/* ===============================
+   POST /api/students/:id/targets
+   - body: { schoolName, line80, line50, priority }
+   - 生徒がまだ分析されていなくても登録できる（students の行を作る）
+================================ */
+export async function POST(req: NextRequest, ctx: { params: Promise<{ id: string }> }) {
+  const teacher = await getTeacher();
+  if (!teacher) {
+    return NextResponse.json({ ok: false, message: "unauthorized" }, { status: 401 });
+  }
+
+  const { id } = await ctx.params;
+
+  let body: unknown;
+  try {
+    body = await req.json();
+  } catch {
+    return NextResponse.json({ ok: false, message: "invalid json" }, { status: 400 });
+  }
+
+  const { target, errors } = parseTargetInput(body);
+  if (!target) {
+    return NextResponse.json({ ok: false, message: "入力に誤りがあります", errors }, { status: 400 });
+  }
+
+  try {
+    const created = await createStudentTarget({ studentId: id, target, teacherId: teacher.user.id });
+    return NextResponse.json({ ok: true, target: created }, { status: 201 });
+  } catch (e) {
+    console.error("[student_targets insert error]", e);
+    return NextResponse.json({ ok: false, message: e instanceof Error ? e.message : "error" }, { status: 500 });
+  }
+}
@@ -0,0 +1,33 @@
+import { NextRequest, NextResponse, after } from "next/server";
+import { WORKER_SECRET_HEADER, isWorkerRequest, pumpAnalysisBatch, runBatchJob } from "@/lib/analysisBatches";
+
+export const runtime = "nodejs";
+
+// 生徒1人分（OCR 2回 + 直接抽出）。lib/analysisJobs の WORKER_MAX_DURATION_S と同じ値
+export const maxDuration = 300;
+
+/* ===============================
+   POST /api/worker/analysis-jobs/:id
+   - 一括分析の生徒1人分を、この呼び出しの持ち時間で流す（pumpAnalysisBatch が running にしてから呼ぶ）
+   - 講師のセッションは無い：ANALYSIS_WORKER_SECRET をヘッダで確認（proxy では public 扱い）
+   - 終わったら同じ一括分析の次の生徒を流す
+================================ */
+export async function POST(req: NextRequest, ctx: { params: Promise<{ id: string }> }) {
+  if (!isWorkerRequest(req.headers.get(WORKER_SECRET_HEADER))) {
+    return NextResponse.json({ ok: false, message: "forbidden" }, { status: 403 });
+  }
+
+  const { id } = await ctx.params;
+  const origin = req.nextUrl.origin;
+
+  after(async () => {
+    try {
+      const batchId = await runBatchJob(id);
+      if (batchId) await pumpAnalysisBatch(batchId, origin);
+    } catch (e) {
+      console.error("[batch worker fatal]", id, e);
+    }
+  });
+
+  return NextResponse.json({ ok: true }, { status: 202 });
+}
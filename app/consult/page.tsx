@@ -19,17 +19,100 @@ function getOrCreateDeviceId() {
   return id;
 }
 
+// 相談スレッド（リロードしても同じ会話を続ける）
+const THREAD_KEY = "manabu_thread_id";
+
+type SseEvent = {
+  event: string;
+  data: {
+    thread_id?: string;
+    log_id?: number;
+    grounded?: string | null;
+    delta?: string;
+    reply?: string;
+    message?: string;
+  } | null;
+};
+
+/** /api/chat の SSE（event: meta / delta / done / error）を1イベントずつ読む */
+async function readSse(res: Response, onEvent: (e: SseEvent) => void) {
+  const reader = res.body!.getReader();
+  const decoder = new TextDecoder();
+  let buf = "";
+
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    buf += decoder.decode(value, { stream: true });
+
+    let sep: number;
+    while ((sep = buf.indexOf("\n\n")) >= 0) {
+      const raw = buf.slice(0, sep);
+      buf = buf.slice(sep + 2);
+
+      let event = "message";
+      let data = "";
+      for (const line of raw.split("\n")) {
+        if (line.startsWith("event:")) event = line.slice(6).trim();
+        else if (line.startsWith("data:")) data += line.slice(5).trim();
+      }
+      try {
+        onEvent({ event, data: data ? JSON.parse(data) : null });
+      } catch {
+        // 壊れたイベントは捨てる
+      }
+    }
+  }
+}
+
 export default function ConsultPage() {
   const [input, setInput] = useState("");
   const [deviceId, setDeviceId] = useState("");
   const [messages, setMessages] = useState<ChatMessage[]>([]);
+  const [threadId, setThreadId] = useState<string | null>(null);
+  // 講師が「この生徒について相談」から来たとき（/consult?student=...）。保護者はサーバー側で自動
+  const [studentId, setStudentId] = useState<string | null>(null);
+  const [groundedStudent, setGroundedStudent] = useState<string | null>(null);
+  // 前回の相談を読み込めなかったとき（黙って空の画面にしない）
+  const [historyError, setHistoryError] = useState<string | null>(null);
   const [loading, setLoading] = useState(false);
+  // 返答が流れ始めたら「考え中」表示を消す
+  const [streaming, setStreaming] = useState(false);
   const endRef = useRef<HTMLDivElement | null>(null);
 
   useEffect(() => {
     setDeviceId(getOrCreateDeviceId());
+    setStudentId(new URLSearchParams(window.location.search).get("student"));
+
+    const saved = localStorage.getItem(THREAD_KEY);
+    if (!saved) return;
+    setThreadId(saved);
+
+    // ✅ 読めなかったスレッドIDは捨てて、新しい相談として始め直す（エラーは画面に出す）
+    const dropSavedThread = (message: string) => {
+      localStorage.removeItem(THREAD_KEY);
+      setThreadId(null);
+      setHistoryError(message);
+    };
+
+    fetch(`/api/chat?thread_id=${encodeURIComponent(saved)}`)
+      .then((r) => r.json())
+      .then((data) => {
+        if (data?.ok && Array.isArray(data.messages)) setMessages(data.messages);
+        else dropSavedThread("前回の相談を読み込めませんでした。新しい相談として始めます。");
+      })
+      .catch(() =>
+        dropSavedThread("通信エラーで前回の相談を読み込めませんでした。新しい相談として始めます。")
+      );
   }, []);
 
+  function startNewThread() {
+    localStorage.removeItem(THREAD_KEY);
+    setThreadId(null);
+    setMessages([]);
+    setHistoryError(null);
+  }
+
   useEffect(() => {
     endRef.current?.scrollIntoView({ behavior: "smooth" });
   }, [messages, loading]);
@@ -41,7 +124,25 @@ export default function ConsultPage() {
     const userMessage: ChatMessage = { role: "user", content: input.trim() };
     setMessages((prev) => [...prev, userMessage]);
     setInput("");
+    setHistoryError(null);
     setLoading(true);
+    setStreaming(false);
+
+    let started = false;
+    const appendDelta = (delta: string) => {
+      if (!started) {
+        started = true;
+        setStreaming(true);
+        setMessages((prev) => [...prev, { role: "assistant", content: delta }]);
+        return;
+      }
+      setMessages((prev) => {
+        const next = [...prev];
+        const last = next[next.length - 1];
+        next[next.length - 1] = { ...last, content: last.content + delta };
+        return next;
+      });
+    };
 
     try {
       const res = await fetch("/api/chat", {
@@ -56,16 +157,32 @@ export default function ConsultPage() {
               ? `web-${crypto.randomUUID()}`
               : `web-${Date.now()}`,
           user_id: deviceId || "web",
+          thread_id: threadId,
+          student_id: studentId,
+          stream: true,
         }),
       });
 
-      const data = await res.json();
-      if (!res.ok || !data.ok) throw new Error(data?.message ?? "API error");
+      if (!res.ok || !res.body) {
+        const data = await res.json().catch(() => null);
+        throw new Error(data?.message ?? "API error");
+      }
 
-      setMessages((prev) => [
-        ...prev,
-        { role: "assistant", content: data.reply ?? "エラーが発生しました。" },
-      ]);
+      let interrupted = false;
+      await readSse(res, ({ event, data }) => {
+        if (event === "meta" && data?.thread_id && data.thread_id !== threadId) {
+          setThreadId(data.thread_id);
+          localStorage.setItem(THREAD_KEY, data.thread_id);
+        }
+        if (event === "meta") setGroundedStudent(data?.grounded ?? null);
+        if (event === "delta" && typeof data?.delta === "string") appendDelta(data.delta);
+        if (event === "error") interrupted = true;
+        // 1文字も流れてこなかったときは done の確定文を出す
+        if (event === "done" && !started && typeof data?.reply === "string") appendDelta(data.reply);
+      });
+
+      if (!started) throw new Error("empty stream");
+      if (interrupted) appendDelta("\n\n（通信が途中で切れました。続きが必要ならもう一度送ってください。）");
     } catch {
       setMessages((prev) => [
         ...prev,
@@ -77,6 +194,7 @@ export default function ConsultPage() {
       ]);
     } finally {
       setLoading(false);
+      setStreaming(false);
     }
   }
 
@@ -116,6 +234,14 @@ export default function ConsultPage() {
               >
                 分析へ
               </Link>
+              <button
+                type="button"
+                onClick={startNewThread}
+                disabled={loading}
+                className="text-xs md:text-sm px-3 py-1 rounded-lg border border-slate-300 bg-white text-slate-700 disabled:opacity-50"
+              >
+                新しい相談
+              </button>
               <span className="ml-auto text-[10px] md:text-xs text-slate-400">
                 ID: {deviceId ? deviceId.slice(0, 8) + "…" : "生成中…"}
               </span>
@@ -123,6 +249,14 @@ export default function ConsultPage() {
             <p className="text-xs md:text-sm text-slate-500 mt-1">
               中学受験算数の相談をどうぞ。質問を送ると「優しさ7：厳しさ3」で返します。
             </p>
+            {groundedStudent && (
+              <p className="text-[11px] md:text-xs text-blue-700 mt-1">
+                生徒ID {groundedStudent} の成績データ（公開模試・育成・ミス傾向）をもとに回答します。
+              </p>
+            )}
+            {historyError && (
+              <p className="text-[11px] md:text-xs text-red-600 mt-1">{historyError}</p>
+            )}
           </header>
 
           <section className="flex-1 flex flex-col px-3 md:px-4 pt-3 pb-2 max-h-[70vh] overflow-y-auto bg-slate-50">
@@ -172,7 +306,7 @@ export default function ConsultPage() {
                 );
               })}
 
-              {loading && (
+              {loading && !streaming && (
                 <div className="flex justify-start">
                   <div className="mr-2 mt-3 hidden sm:flex">
                     <div className="w-8 h-8 rounded-full bg-blue-500 text-white flex items-center justify-center text-xs font-bold">
@@ -23,6 +23,10 @@ export default function TeacherLoginPage() {
 
     setLoading(false);
   
+    if (r.status === 403) {
+      setErr("このアカウントには講師の権限がありません");
+      return;
+    }
     if (!r.ok) {
       setErr("IDまたはパスワードが違います");
       return;
@@ -82,7 +86,9 @@ export default function TeacherLoginPage() {
 
       </form>
 
-      <p style={{ marginTop: 12, color: "#666" }}>（デモ用：test / test）</p>
+      <p style={{ marginTop: 12, color: "#666", fontSize: 13 }}>
+        ※ 講師ごとに発行されたIDでログインしてください（分析・相談の記録は講師ごとに残ります）
+      </p>
     </div>
   );
 }
@@ -19,7 +19,7 @@ export default async function Home() {
     redirect("/login");
   }
 
-  if (profile.role === "teacher") redirect("/analyze");
+  if (profile.role === "teacher" || profile.role === "admin") redirect("/analyze");
   redirect("/report");
 }
 
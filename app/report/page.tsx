@@ -0,0 +1,191 @@
+// app/report/page.tsx
+import { createClient } from "@/lib/supabase/server";
+import { redirect } from "next/navigation";
+import type { ReportSection } from "@/lib/reportStage";
+
+type ParentHandout = {
+  title: string;
+  summary: string;
+  points: string[];
+  nextAction: string;
+  sections?: ReportSection[]; // 重点の軸・志望校との差
+};
+type ChildSimple = { title: string; body: string; action?: string };
+type LatestReport = { created_at: string; parent_handout: ParentHandout | null; child_simple: ChildSimple | null };
+
+type TimelineTest = {
+  testType: "ikusei" | "kokai_moshi" | "other";
+  testName: string | null;
+  date: string | null;
+  totals: {
+    two: { score: number | null; deviation: number | null; grade: number | null };
+    four: { score: number | null; deviation: number | null; grade: number | null };
+  };
+};
+
+function num(v: number | null | undefined) {
+  return typeof v === "number" && Number.isFinite(v) ? v : null;
+}
+
+/**
+ * 保護者向けレポート（閲覧のみ）
+ * - 見られるのは profiles.student_id にひも付いた子どもの分だけ
+ * - クエリは RLS が効くユーザー権限のクライアントで行う（URLで生徒を指定する口は作らない）
+ * - analyses は行ごとには読めない：parent_latest_report() が作成日時と parent_handout / child_simple だけを返す
+ */
+export default async function ParentReportPage() {
+  const supabase = await createClient();
+
+  const { data: { user } } = await supabase.auth.getUser();
+  if (!user) redirect("/login/parent");
+
+  const { data: profile } = await supabase
+    .from("profiles")
+    .select("role, student_id")
+    .eq("user_id", user.id)
+    .maybeSingle();
+
+  if (profile?.role === "teacher") redirect("/analyze");
+  if (profile?.role !== "parent" || !profile.student_id) redirect("/login");
+
+  const studentId: string = profile.student_id;
+
+  const [{ data: student }, { data: latest }] = await Promise.all([
+    supabase.from("students").select("id, name, timeline").eq("id", studentId).maybeSingle(),
+    supabase.rpc("parent_latest_report").maybeSingle<LatestReport>(),
+  ]);
+
+  const parent: ParentHandout | null = latest?.parent_handout ?? null;
+  const child: ChildSimple | null = latest?.child_simple ?? null;
+  const timeline: TimelineTest[] = Array.isArray(student?.timeline) ? student.timeline : [];
+
+  const kokai = timeline.filter((t) => t.testType === "kokai_moshi");
+  const ikusei = timeline.filter((t) => t.testType === "ikusei");
+
+  return (
+    <div className="min-h-screen bg-gray-50 px-4 py-8">
+      <div className="mx-auto max-w-2xl space-y-6">
+        <header>
+          <h1 className="text-xl font-bold">まなぶ先生AI 学習レポート</h1>
+          <p className="text-sm text-gray-600">
+            {student?.name ?? "お子さま"}（生徒ID：{studentId}）
+            {latest?.created_at && (
+              <>／ 最終更新：{new Date(latest.created_at).toLocaleDateString("ja-JP")}</>
+            )}
+          </p>
+        </header>
+
+        {!parent && !child && (
+          <div className="bg-white p-6 rounded-xl shadow text-sm text-gray-600">
+            まだレポートが作成されていません。面談前に講師が作成します。
+          </div>
+        )}
+
+        {parent && (
+          <section className="bg-white p-6 rounded-xl shadow">
+            <h2 className="text-lg font-bold mb-2">{parent.title}</h2>
+            <p className="text-sm whitespace-pre-wrap">{parent.summary}</p>
+            <ul className="list-disc pl-5 mt-3 text-sm space-y-1">
+              {parent.points.map((p, i) => (
+                <li key={i}>{p}</li>
+              ))}
+            </ul>
+            <p className="text-sm mt-3">
+              <b>次回まで：</b>
+              {parent.nextAction}
+            </p>
+            {parent.sections && parent.sections.length > 0 && (
+              <div className="mt-4 space-y-2">
+                {parent.sections.map((s, i) => (
+                  <div key={s.axis ?? i}>
+                    <h4 className="font-bold text-sm">{s.title}</h4>
+                    <p className="text-sm whitespace-pre-wrap">{s.body}</p>
+                  </div>
+                ))}
+              </div>
+            )}
+          </section>
+        )}
+
+        {child && (
+          <section className="bg-white p-6 rounded-xl shadow">
+            <h2 className="text-lg font-bold mb-2">{child.title}</h2>
+            <p className="text-sm whitespace-pre-wrap">{child.body}</p>
+            {child.action && (
+              <p className="text-sm mt-3">
+                <b>今日のミッション：</b>
+                {child.action}
+              </p>
+            )}
+          </section>
+        )}
+
+        <section className="bg-white p-6 rounded-xl shadow">
+          <h2 className="text-lg font-bold mb-2">成績の推移</h2>
+
+          {timeline.length === 0 ? (
+            <p className="text-sm text-gray-600">まだ成績データがありません。</p>
+          ) : (
+            <div className="space-y-6">
+              {kokai.length > 0 && (
+                <div>
+                  <h3 className="font-bold text-sm mb-1">公開模試（偏差値）</h3>
+                  <table className="w-full text-sm">
+                    <thead>
+                      <tr className="border-b text-left">
+                        <th className="py-1">日付</th>
+                        <th className="py-1">テスト</th>
+                        <th className="py-1 text-right">4科</th>
+                        <th className="py-1 text-right">2科</th>
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {kokai.map((t, i) => (
+                        <tr key={`${t.date}-${i}`} className="border-b border-gray-100">
+                          <td className="py-1">{t.date ?? "-"}</td>
+                          <td className="py-1">{t.testName ?? "-"}</td>
+                          <td className="py-1 text-right">{num(t.totals?.four?.deviation) ?? "-"}</td>
+                          <td className="py-1 text-right">{num(t.totals?.two?.deviation) ?? "-"}</td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </div>
+              )}
+
+              {ikusei.length > 0 && (
+                <div>
+                  <h3 className="font-bold text-sm mb-1">育成テスト（評価）</h3>
+                  <table className="w-full text-sm">
+                    <thead>
+                      <tr className="border-b text-left">
+                        <th className="py-1">日付</th>
+                        <th className="py-1">テスト</th>
+                        <th className="py-1 text-right">4科</th>
+                        <th className="py-1 text-right">2科</th>
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {ikusei.map((t, i) => (
+                        <tr key={`${t.date}-${i}`} className="border-b border-gray-100">
+                          <td className="py-1">{t.date ?? "-"}</td>
+                          <td className="py-1">{t.testName ?? "-"}</td>
+                          <td className="py-1 text-right">{num(t.totals?.four?.grade) ?? "-"}</td>
+                          <td className="py-1 text-right">{num(t.totals?.two?.grade) ?? "-"}</td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </div>
+              )}
+            </div>
+          )}
+        </section>
+
+        <p className="text-xs text-gray-400 text-center">
+          ご不明な点は、通われている校舎へお問い合わせください
+        </p>
+      </div>
+    </div>
+  );
+}
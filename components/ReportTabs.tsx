@@ -1,16 +1,48 @@
 "use client";
 import { useState } from "react";
 
+type Section = { axis?: string; title: string; body: string };
+
 type Props = {
   reports: {
-    menndan_1min: { title: string; body: string; bullets?: string[]; tags?: string[] };
+    // ✅ 出力対象（target）に応じて最初に開くタブ
+    primary?: "menndan_1min" | "child_simple" | "parent_handout";
+    menndan_1min: { title: string; body: string; bullets?: string[]; tags?: string[]; sections?: Section[] };
     child_simple: { title: string; body: string; action?: string };
-    parent_handout: { title: string; summary: string; points: string[]; nextAction: string };
+    parent_handout: { title: string; summary: string; points: string[]; nextAction: string; sections?: Section[] };
   };
 };
 
+const TAB_BY_PRIMARY = {
+  menndan_1min: "menndan",
+  parent_handout: "parent",
+  child_simple: "child",
+} as const;
+
+function Sections({ sections }: { sections?: Section[] }) {
+  if (!sections?.length) return null;
+  return (
+    <div style={{ display: "grid", gap: 8, marginTop: 8 }}>
+      {sections.map((s, i) => (
+        <div key={s.axis ?? i}>
+          <h4 style={{ fontWeight: 700 }}>{s.title}</h4>
+          <p style={{ whiteSpace: "pre-wrap" }}>{s.body}</p>
+        </div>
+      ))}
+    </div>
+  );
+}
+
 export default function ReportTabs({ reports }: Props) {
-  const [tab, setTab] = useState<"menndan" | "parent" | "child">("menndan");
+  const primaryTab = reports.primary ? TAB_BY_PRIMARY[reports.primary] : "menndan";
+  const [tab, setTab] = useState<"menndan" | "parent" | "child">(primaryTab);
+
+  // ✅ 再生成で primary が変わったら、そのタブに合わせ直す（初回マウント時だけだと前のタブのまま）
+  const [shownPrimary, setShownPrimary] = useState(reports.primary);
+  if (shownPrimary !== reports.primary) {
+    setShownPrimary(reports.primary);
+    setTab(primaryTab);
+  }
 
   return (
     <div style={{ display: "grid", gap: 12 }}>
@@ -31,6 +63,7 @@ export default function ReportTabs({ reports }: Props) {
               ))}
             </ul>
           ) : null}
+          <Sections sections={reports.menndan_1min.sections} />
         </section>
       )}
 
@@ -44,13 +77,14 @@ export default function ReportTabs({ reports }: Props) {
             ))}
           </ul>
           <p><b>次回まで：</b>{reports.parent_handout.nextAction}</p>
+          <Sections sections={reports.parent_handout.sections} />
         </section>
       )}
 
       {tab === "child" && (
         <section>
           <h3>{reports.child_simple.title}</h3>
-          <p>{reports.child_simple.body}</p>
+          <p style={{ whiteSpace: "pre-wrap" }}>{reports.child_simple.body}</p>
           {reports.child_simple.action ? (
             <p><b>今日のミッション：</b>{reports.child_simple.action}</p>
           ) : null}
@@ -0,0 +1,248 @@
+"use client";
+import { useEffect, useState, type CSSProperties } from "react";
+import {
+  RECENT_WINDOW,
+  TARGET_SCALE_LABELS,
+  TARGET_STANDING_LABELS,
+  computeTargetGaps,
+  formatGap,
+  pickTargetSeries,
+  sortTargets,
+  type TargetSchool,
+  type TargetStanding,
+} from "@/lib/targetSchools";
+
+/**
+ * 生徒の志望校（80% / 50% ライン）の登録と、公開模試の偏差値との差
+ * - 差はこの画面で計算し直す（登録・修正がすぐ見える）
+ * - レポートの「志望校との差」は分析・再計算した時点の登録内容
+ */
+
+type Props = {
+  studentId: string;
+  // 公開模試の偏差値（古い順 / yearlyTrends.kokaiFourValues・kokaiTwoValues）
+  kokai: { four: number[]; two: number[] };
+  // 2科目生は2科の偏差値で見る
+  isTwoSubjectStudent: boolean;
+};
+
+type Draft = { id: string | null; schoolName: string; line80: string; line50: string; priority: string };
+
+const EMPTY_DRAFT: Draft = { id: null, schoolName: "", line80: "", line50: "", priority: "1" };
+
+const STANDING_COLORS: Record<TargetStanding, string> = {
+  safe: "#080",
+  possible: "#06c",
+  challenge: "#b00",
+  unknown: "#888",
+};
+
+const cell: CSSProperties = { padding: "6px 4px", borderBottom: "1px solid #eee" };
+const input: CSSProperties = { padding: "6px 8px", border: "1px solid #ccc", borderRadius: 8, fontSize: 13 };
+
+/** 空欄 → null / 数字でなければそのまま送ってサーバーのエラーを出す */
+function numOrNull(s: string): number | string | null {
+  const t = s.trim();
+  if (!t) return null;
+  const n = Number(t);
+  return Number.isFinite(n) ? n : t;
+}
+
+export default function TargetSchoolsPanel({ studentId, kokai, isTwoSubjectStudent }: Props) {
+  const [targets, setTargets] = useState<TargetSchool[] | null>(null);
+  const [draft, setDraft] = useState<Draft>(EMPTY_DRAFT);
+  const [saving, setSaving] = useState(false);
+  const [errors, setErrors] = useState<string[]>([]);
+
+  const base = `/api/students/${encodeURIComponent(studentId)}/targets`;
+
+  useEffect(() => {
+    let cancelled = false;
+    (async () => {
+      try {
+        const r = await fetch(base, { cache: "no-store" });
+        const data = await r.json().catch(() => null);
+        if (!r.ok || !data?.ok) throw new Error(data?.message ?? `Server error (${r.status})`);
+        if (!cancelled) setTargets(data.targets as TargetSchool[]);
+      } catch (e) {
+        if (!cancelled) setErrors([e instanceof Error ? e.message : "志望校を読み込めませんでした"]);
+      }
+    })();
+    return () => {
+      cancelled = true;
+    };
+  }, [base]);
+
+  const save = async () => {
+    setSaving(true);
+    setErrors([]);
+    try {
+      const r = await fetch(draft.id ? `${base}/${encodeURIComponent(draft.id)}` : base, {
+        method: draft.id ? "PATCH" : "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          schoolName: draft.schoolName,
+          line80: numOrNull(draft.line80),
+          line50: numOrNull(draft.line50),
+          priority: Number(draft.priority),
+        }),
+      });
+      const data = await r.json().catch(() => null);
+      if (!r.ok || !data?.ok) {
+        setErrors(data?.errors?.length ? data.errors : [data?.message ?? `Server error (${r.status})`]);
+        return;
+      }
+      const saved = data.target as TargetSchool;
+      setTargets((prev) => sortTargets([...(prev ?? []).filter((t) => t.id !== saved.id), saved]));
+      setDraft(EMPTY_DRAFT);
+    } catch (e) {
+      setErrors([e instanceof Error ? e.message : "保存に失敗しました"]);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const remove = async (t: TargetSchool) => {
+    if (!confirm(`${t.schoolName} を志望校から外しますか？`)) return;
+    setErrors([]);
+    try {
+      const r = await fetch(`${base}/${encodeURIComponent(t.id)}`, { method: "DELETE" });
+      const data = await r.json().catch(() => null);
+      if (!r.ok || !data?.ok) throw new Error(data?.message ?? `Server error (${r.status})`);
+      setTargets((prev) => (prev ?? []).filter((x) => x.id !== t.id));
+      if (draft.id === t.id) setDraft(EMPTY_DRAFT);
+    } catch (e) {
+      setErrors([e instanceof Error ? e.message : "削除に失敗しました"]);
+    }
+  };
+
+  const series = pickTargetSeries(kokai, isTwoSubjectStudent);
+  const summary = targets ? computeTargetGaps(series, targets) : null;
+
+  return (
+    <div>
+      <div style={{ fontWeight: 900, marginBottom: 6 }}>🎯 志望校との差</div>
+      <div style={{ fontSize: 12, color: "#666", marginBottom: 8 }}>
+        公開模試の{TARGET_SCALE_LABELS[series.scale]}の偏差値と、登録した80%／50%ラインとの差です（4科と2科は混ぜません）。差は「今回」と「直近{RECENT_WINDOW}回平均」の両方で出し、判定は平均で行います。レポートへの反映は次の分析・再計算から。
+      </div>
+
+      {summary && (
+        <div style={{ fontSize: 13, marginBottom: 8 }}>
+          今回 <b>{summary.current ?? "-"}</b> ／ 直近{summary.recentCount}回平均 <b>{summary.recentAverage ?? "-"}</b>
+        </div>
+      )}
+
+      {targets && targets.length === 0 && <div style={{ fontSize: 13, color: "#666" }}>志望校はまだ登録されていません</div>}
+
+      {summary && summary.gaps.length > 0 && (
+        <table style={{ width: "100%", borderCollapse: "collapse", fontSize: 13 }}>
+          <thead>
+            <tr style={{ textAlign: "left", color: "#555" }}>
+              <th style={cell}>志望</th>
+              <th style={cell}>学校</th>
+              <th style={{ ...cell, textAlign: "right" }}>80%ライン</th>
+              <th style={{ ...cell, textAlign: "right" }}>差（今回／平均）</th>
+              <th style={{ ...cell, textAlign: "right" }}>50%ライン</th>
+              <th style={{ ...cell, textAlign: "right" }}>差（今回／平均）</th>
+              <th style={cell}>判定</th>
+              <th style={cell} />
+            </tr>
+          </thead>
+          <tbody>
+            {summary.gaps.map((g) => {
+              const t = targets?.find((x) => x.id === g.targetId);
+              return (
+                <tr key={g.targetId}>
+                  <td style={cell}>第{g.priority}</td>
+                  <td style={cell}>{g.schoolName}</td>
+                  <td style={{ ...cell, textAlign: "right" }}>{g.line80 ?? "-"}</td>
+                  <td style={{ ...cell, textAlign: "right" }}>
+                    {formatGap(g.currentGap80)}／{formatGap(g.recentGap80)}
+                  </td>
+                  <td style={{ ...cell, textAlign: "right" }}>{g.line50 ?? "-"}</td>
+                  <td style={{ ...cell, textAlign: "right" }}>
+                    {formatGap(g.currentGap50)}／{formatGap(g.recentGap50)}
+                  </td>
+                  <td style={{ ...cell, color: STANDING_COLORS[g.standing], fontWeight: 700 }}>
+                    {TARGET_STANDING_LABELS[g.standing]}
+                  </td>
+                  <td style={{ ...cell, whiteSpace: "nowrap" }}>
+                    {t && (
+                      <>
+                        <button
+                          type="button"
+                          onClick={() =>
+                            setDraft({
+                              id: t.id,
+                              schoolName: t.schoolName,
+                              line80: t.line80 == null ? "" : String(t.line80),
+                              line50: t.line50 == null ? "" : String(t.line50),
+                              priority: String(t.priority),
+                            })
+                          }
+                        >
+                          編集
+                        </button>{" "}
+                        <button type="button" onClick={() => remove(t)}>
+                          削除
+                        </button>
+                      </>
+                    )}
+                  </td>
+                </tr>
+              );
+            })}
+          </tbody>
+        </table>
+      )}
+
+      <div style={{ display: "flex", gap: 8, marginTop: 10, alignItems: "center", flexWrap: "wrap" }}>
+        <select style={input} value={draft.priority} onChange={(e) => setDraft({ ...draft, priority: e.target.value })}>
+          {[1, 2, 3, 4, 5].map((n) => (
+            <option key={n} value={n}>
+              第{n}志望
+            </option>
+          ))}
+        </select>
+        <input
+          style={{ ...input, width: 180 }}
+          value={draft.schoolName}
+          placeholder="学校名"
+          onChange={(e) => setDraft({ ...draft, schoolName: e.target.value })}
+        />
+        <input
+          style={{ ...input, width: 90 }}
+          value={draft.line80}
+          placeholder="80%ライン"
+          inputMode="decimal"
+          onChange={(e) => setDraft({ ...draft, line80: e.target.value })}
+        />
+        <input
+          style={{ ...input, width: 90 }}
+          value={draft.line50}
+          placeholder="50%ライン"
+          inputMode="decimal"
+          onChange={(e) => setDraft({ ...draft, line50: e.target.value })}
+        />
+        <button type="button" disabled={saving || !targets} onClick={save} style={{ fontWeight: 700 }}>
+          {saving ? "保存中..." : draft.id ? "更新" : "＋ 追加"}
+        </button>
+        {draft.id && (
+          <button type="button" onClick={() => setDraft(EMPTY_DRAFT)}>
+            キャンセル
+          </button>
+        )}
+      </div>
+
+      {errors.length > 0 && (
+        <div style={{ marginTop: 8, padding: 10, borderRadius: 10, background: "#fdecec", color: "#b00", fontSize: 13 }}>
+          <ul style={{ margin: "0 0 0 18px" }}>
+            {errors.map((e, i) => (
+              <li key={i}>{e}</li>
+            ))}
+          </ul>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,304 @@
+"use client";
+import { useState, type CSSProperties } from "react";
+import type { JukuTest } from "@/lib/jukuReportSchema";
+import {
+  SOURCE_LABELS,
+  fieldValue,
+  STEP_LABELS,
+  type Confidence,
+  type FieldProvenance,
+  type ProvenanceField,
+  type TestProvenance,
+} from "@/lib/provenance";
+
+/**
+ * 年間の成績表（抽出結果）を講師が直す表
+ * - セルの修正 / 行の追加・削除 → 「修正を反映して再計算」で /api/analyses/:id/recompute
+ * - 再OCRはしない（推移とレポートだけ作り直す）
+ * - 再計算後に表を作り直すときは親で key を変える
+ * - 確からしさ（provenance）が低いセルは色付け（講師が触ったセルは色を外す）
+ */
+
+type Side = "four" | "two";
+type NumField = "score" | "grade" | "deviation";
+
+// 入力中は文字列で持つ（"" = 空欄 = null）
+type DraftRow = {
+  base: JukuTest;
+  prov?: TestProvenance;
+  testType: JukuTest["testType"];
+  testName: string;
+  date: string;
+  four: Record<NumField, string>;
+  two: Record<NumField, string>;
+};
+
+type Props = {
+  analysisId: string | null | undefined;
+  tests: JukuTest[];
+  provenance?: TestProvenance[] | null;
+  correctedAt?: string | null;
+  onRecomputed: (data: unknown) => void;
+};
+
+const TYPE_LABELS: Record<JukuTest["testType"], string> = {
+  ikusei: "育成",
+  kokai_moshi: "公開",
+  other: "その他",
+};
+
+const NUM_COLUMNS: Array<{ side: Side; field: NumField; label: string }> = [
+  { side: "four", field: "score", label: "4科 得点" },
+  { side: "four", field: "grade", label: "4科 評価" },
+  { side: "four", field: "deviation", label: "4科 偏差" },
+  { side: "two", field: "score", label: "2科 得点" },
+  { side: "two", field: "grade", label: "2科 評価" },
+  { side: "two", field: "deviation", label: "2科 偏差" },
+];
+
+function numText(v: number | null | undefined) {
+  return typeof v === "number" && Number.isFinite(v) ? String(v) : "";
+}
+
+function toDraft(t: JukuTest, prov?: TestProvenance): DraftRow {
+  const side = (s: Side) => ({
+    score: numText(t.totals?.[s]?.score),
+    grade: numText(t.totals?.[s]?.grade),
+    deviation: numText(t.totals?.[s]?.deviation),
+  });
+  return {
+    base: t,
+    prov,
+    testType: t.testType,
+    testName: t.testName ?? "",
+    date: t.date ?? "",
+    four: side("four"),
+    two: side("two"),
+  };
+}
+
+function emptyTest(): JukuTest {
+  const side = { score: null, deviation: null, rank: null, grade: null };
+  return {
+    testType: "kokai_moshi",
+    testName: null,
+    date: null,
+    subjects: [],
+    totals: { two: { ...side }, four: { ...side } },
+    notes: [],
+  };
+}
+
+/** 空欄 → null / 数字でなければ undefined（送る前に止める） */
+function parseNum(s: string): number | null | undefined {
+  const t = s.trim();
+  if (!t) return null;
+  const n = Number(t);
+  return Number.isFinite(n) ? n : undefined;
+}
+
+function draftErrors(rows: DraftRow[]) {
+  const errors: string[] = [];
+  rows.forEach((r, i) => {
+    for (const c of NUM_COLUMNS) {
+      if (parseNum(r[c.side][c.field]) === undefined) errors.push(`${i + 1}行目 ${c.label}: 「${r[c.side][c.field]}」は数値ではありません`);
+    }
+  });
+  return errors;
+}
+
+function fromDraft(d: DraftRow): JukuTest {
+  const side = (s: Side) => ({
+    ...d.base.totals[s],
+    score: parseNum(d[s].score) ?? null,
+    grade: parseNum(d[s].grade) ?? null,
+    deviation: parseNum(d[s].deviation) ?? null,
+  });
+  return {
+    ...d.base,
+    testType: d.testType,
+    testName: d.testName.trim() || null,
+    date: d.date.trim() || null,
+    totals: { four: side("four"), two: side("two") },
+  };
+}
+
+const CONFIDENCE_BG: Record<Confidence, string | undefined> = {
+  high: undefined,
+  medium: "#fff7d6",
+  low: "#ffd8c2",
+};
+
+/** 元の値のままのセルだけ provenance を見る */
+function cellProvenance(r: DraftRow, field: ProvenanceField, current: string): FieldProvenance | null {
+  const fp = r.prov?.[field];
+  if (!fp) return null;
+  const original = field === "date" ? (r.base.date ?? "") : numText(fieldValue(r.base, field) as number | null);
+  return current === original ? fp : null;
+}
+
+function provenanceTitle(fp: FieldProvenance | null) {
+  if (!fp) return undefined;
+  const lines = [`${SOURCE_LABELS[fp.source]}（確からしさ：${fp.confidence}）`];
+  for (const step of fp.steps) lines.push(`・${STEP_LABELS[step]}`);
+  for (const reason of fp.reasons) lines.push(`  ${reason}`);
+  return lines.join("\n");
+}
+
+const cell: CSSProperties = { padding: "4px 6px", borderBottom: "1px solid #eee" };
+const input: CSSProperties = { width: "100%", padding: "4px 6px", border: "1px solid #ccc", borderRadius: 6, fontSize: 13 };
+
+export default function YearlyTestsEditor({ analysisId, tests, provenance, correctedAt, onRecomputed }: Props) {
+  const [rows, setRows] = useState<DraftRow[]>(() => tests.map((t, i) => toDraft(t, provenance?.[i])));
+  const [dirty, setDirty] = useState(false);
+  const [saving, setSaving] = useState(false);
+  const [errors, setErrors] = useState<string[]>([]);
+
+  const update = (i: number, patch: (r: DraftRow) => DraftRow) => {
+    setRows((prev) => prev.map((r, j) => (j === i ? patch(r) : r)));
+    setDirty(true);
+  };
+
+  const recompute = async () => {
+    if (!analysisId) return;
+    const local = draftErrors(rows);
+    setErrors(local);
+    if (local.length > 0) return;
+    setSaving(true);
+    try {
+      const r = await fetch(`/api/analyses/${encodeURIComponent(analysisId)}/recompute`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ tests: rows.map(fromDraft) }),
+      });
+      const data = await r.json().catch(() => null);
+      if (!r.ok) {
+        setErrors(data?.errors?.length ? data.errors : [data?.message ?? `Server error (${r.status})`]);
+        return;
+      }
+      onRecomputed(data);
+    } catch (e) {
+      setErrors([e instanceof Error ? e.message : "再計算に失敗しました"]);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <div>
+      <div style={{ display: "flex", alignItems: "baseline", gap: 8, marginBottom: 6 }}>
+        <div style={{ fontWeight: 900 }}>成績表の確認・修正</div>
+        {correctedAt && (
+          <div style={{ fontSize: 12, color: "#666" }}>講師修正済み（{new Date(correctedAt).toLocaleString("ja-JP")}）</div>
+        )}
+      </div>
+      <div style={{ fontSize: 12, color: "#666", marginBottom: 8 }}>
+        読み取りミスがあればセルを直してください。行の追加・削除もできます（日付は YYYY-MM-DD、空欄は「なし」）。
+        <br />
+        <span style={{ background: CONFIDENCE_BG.low, padding: "0 4px" }}>要確認</span>＝自動補正・範囲外で破棄した欄／
+        <span style={{ background: CONFIDENCE_BG.medium, padding: "0 4px" }}>やや不確か</span>
+        ＝PDFから直接JSON化・文字の掃除をした欄（セルにカーソルを合わせると理由を表示）
+      </div>
+
+      <div style={{ overflowX: "auto" }}>
+        <table style={{ width: "100%", borderCollapse: "collapse", fontSize: 13 }}>
+          <thead>
+            <tr style={{ textAlign: "left", color: "#555" }}>
+              <th style={cell}>日付</th>
+              <th style={cell}>種別</th>
+              <th style={cell}>テスト名</th>
+              {NUM_COLUMNS.map((c) => (
+                <th key={`${c.side}-${c.field}`} style={cell}>
+                  {c.label}
+                </th>
+              ))}
+              <th style={cell} />
+            </tr>
+          </thead>
+          <tbody>
+            {rows.map((r, i) => (
+              <tr key={i}>
+                <td style={{ ...cell, minWidth: 110 }}>
+                  <input
+                    style={{ ...input, background: CONFIDENCE_BG[cellProvenance(r, "date", r.date)?.confidence ?? "high"] }}
+                    title={provenanceTitle(cellProvenance(r, "date", r.date))}
+                    value={r.date}
+                    placeholder="2026-04-26"
+                    onChange={(e) => update(i, (x) => ({ ...x, date: e.target.value }))}
+                  />
+                </td>
+                <td style={cell}>
+                  <select
+                    style={input}
+                    value={r.testType}
+                    onChange={(e) => update(i, (x) => ({ ...x, testType: e.target.value as JukuTest["testType"] }))}
+                  >
+                    {(Object.keys(TYPE_LABELS) as JukuTest["testType"][]).map((k) => (
+                      <option key={k} value={k}>
+                        {TYPE_LABELS[k]}
+                      </option>
+                    ))}
+                  </select>
+                </td>
+                <td style={{ ...cell, minWidth: 130 }}>
+                  <input style={input} value={r.testName} onChange={(e) => update(i, (x) => ({ ...x, testName: e.target.value }))} />
+                </td>
+                {NUM_COLUMNS.map((c) => {
+                  const fp = cellProvenance(r, `${c.side}.${c.field}`, r[c.side][c.field]);
+                  return (
+                    <td key={`${c.side}-${c.field}`} style={{ ...cell, minWidth: 64 }}>
+                      <input
+                        style={{ ...input, textAlign: "right", background: CONFIDENCE_BG[fp?.confidence ?? "high"] }}
+                        title={provenanceTitle(fp)}
+                        inputMode="decimal"
+                        value={r[c.side][c.field]}
+                        onChange={(e) => update(i, (x) => ({ ...x, [c.side]: { ...x[c.side], [c.field]: e.target.value } }))}
+                      />
+                    </td>
+                  );
+                })}
+                <td style={cell}>
+                  <button
+                    type="button"
+                    onClick={() => {
+                      setRows((prev) => prev.filter((_, j) => j !== i));
+                      setDirty(true);
+                    }}
+                  >
+                    削除
+                  </button>
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+
+      <div style={{ display: "flex", gap: 8, marginTop: 8, alignItems: "center" }}>
+        <button
+          type="button"
+          onClick={() => {
+            setRows((prev) => [...prev, toDraft(emptyTest())]);
+            setDirty(true);
+          }}
+        >
+          ＋ 行を追加
+        </button>
+        <button type="button" disabled={!analysisId || !dirty || saving} onClick={recompute} style={{ fontWeight: 700 }}>
+          {saving ? "再計算中..." : "修正を反映して再計算"}
+        </button>
+        {!analysisId && <span style={{ fontSize: 12, color: "#b00" }}>履歴に保存されていないため修正できません</span>}
+      </div>
+
+      {errors.length > 0 && (
+        <div style={{ marginTop: 8, padding: 10, borderRadius: 10, background: "#fdecec", color: "#b00", fontSize: 13 }}>
+          <ul style={{ margin: "0 0 0 18px" }}>
+            {errors.map((e, i) => (
+              <li key={i}>{e}</li>
+            ))}
+          </ul>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,60 @@
+// lib/accessPolicy.ts
+import type { Role } from "@/lib/auth";
+
+/**
+ * ルート → 許可ロールの対応表（proxy.ts が先頭から順に見て最初に当たったものを使う）
+ * - "public"：未ログインでも可
+ * - どれにも当たらないパスは public 扱い（トップ "/" は自前で role ごとに振り分ける）
+ */
+export const ROUTE_POLICY: Array<{ prefix: string; allow: Role[] | "public" }> = [
+  { prefix: "/login", allow: "public" },
+  { prefix: "/api/login", allow: "public" },
+  { prefix: "/api/logout", allow: "public" },
+  // 一括分析のワーカー（内部呼び出し。ANALYSIS_WORKER_SECRET をルート側で確認）
+  { prefix: "/api/worker", allow: "public" },
+
+  // 講師（分析・履歴）
+  { prefix: "/api/analyze", allow: ["teacher", "admin"] },
+  { prefix: "/api/analyses", allow: ["teacher", "admin"] },
+  { prefix: "/analyze", allow: ["teacher", "admin"] },
+  // 生徒ごとの設定（志望校）
+  { prefix: "/api/students", allow: ["teacher", "admin"] },
+
+  // 相談チャット（講師・保護者）
+  { prefix: "/api/chat", allow: ["teacher", "parent", "admin"] },
+  { prefix: "/consult", allow: ["teacher", "parent", "admin"] },
+
+  // 保護者レポート
+  { prefix: "/report", allow: ["parent"] },
+];
+
+/** profiles.role の文字列 → Role（未知の値は null） */
+export function parseRole(v: unknown): Role | null {
+  return v === "teacher" || v === "parent" || v === "admin" ? v : null;
+}
+
+export type AccessDecision = "allow" | "unauthorized" | "forbidden";
+
+function matchesPrefix(pathname: string, prefix: string) {
+  return pathname === prefix || pathname.startsWith(`${prefix}/`);
+}
+
+export function findPolicy(pathname: string) {
+  return ROUTE_POLICY.find((p) => matchesPrefix(pathname, p.prefix)) ?? null;
+}
+
+/** role：未ログインは undefined、ログイン済みで profiles 無しは null */
+export function decideAccess(pathname: string, role: Role | null | undefined): AccessDecision {
+  const policy = findPolicy(pathname);
+  if (!policy || policy.allow === "public") return "allow";
+  if (role === undefined) return "unauthorized";
+  if (role === null || !policy.allow.includes(role)) return "forbidden";
+  return "allow";
+}
+
+/** API の 401/403 は全ルート共通でこの形 */
+export function accessErrorBody(decision: Exclude<AccessDecision, "allow">) {
+  return decision === "unauthorized"
+    ? { ok: false, error: "unauthorized", message: "ログインが必要です。" }
+    : { ok: false, error: "forbidden", message: "この操作を行う権限がありません。" };
+}
@@ -0,0 +1,297 @@
+// lib/analysisBatches.ts
+import { Buffer } from "buffer";
+import { timingSafeEqual } from "crypto";
+import type { SupabaseClient } from "@supabase/supabase-js";
+import { createAdminClient } from "@/lib/supabase/admin";
+import type { AnalyzeInput, AnalyzeInputFile } from "@/lib/analyzePipeline";
+import {
+  claimAnalysisJob,
+  createAnalysisJob,
+  failAnalysisJob,
+  isStaleJob,
+  listBatchJobs,
+  runAnalysisJob,
+  type JobStage,
+  type JobStatus,
+} from "@/lib/analysisJobs";
+import type { BatchFile, BatchSkipped, BatchStudentGroup } from "@/lib/batchFiles";
+import type { ReportCase, Reports, Selections } from "@/lib/reportStage";
+import type { YearlyFormat } from "@/lib/yearlyParser";
+
+/**
+ * 一括分析（analysis_batches）
+ * - 生徒ごとに analysis_jobs を1本ずつ作り、既存の分析パイプラインをそのまま流す
+ * - 1人 = 1回のワーカー呼び出し（POST /api/worker/analysis-jobs/:id）→ 関数の持ち時間は生徒ごと
+ * - PDF は作成時に Storage（batch/<batchId>/）へ置き、ワーカーはそこから読む（リクエスト本文は持ち越せない）
+ * - 同時に走らせるのは BATCH_CONCURRENCY 人まで。ワーカーが終わるたび・一覧のポーリングのたびに次を流す
+ * - 1人の失敗はそのジョブの failed で止まり、他の生徒は続ける（runAnalysisJob が例外を握る）
+ */
+
+/** 同時に流す人数（OCR の同時呼び出しを抑える） */
+const BATCH_CONCURRENCY = 2;
+export const MAX_BATCH_STUDENTS = 40;
+
+/** ワーカー呼び出しの認証（講師のセッションは無いので、共有の秘密をヘッダで渡す） */
+export const WORKER_SECRET_HEADER = "x-worker-secret";
+
+const supabase = createAdminClient();
+
+type StoredPdf = { path: string; name: string; size: number };
+
+/** ジョブの input（ファイル名は一覧表示用、files はワーカーが Storage から読む場所） */
+type BatchJobInput = {
+  key: string;
+  studentId: string | null;
+  studentName: string | null;
+  singles: { name: string; size: number }[];
+  yearly: { name: string; size: number } | null;
+  selections: Selections;
+  yearlyFormat: YearlyFormat;
+  files: { bucket: string; singles: StoredPdf[]; yearly: StoredPdf | null };
+};
+
+function safeName(name: string) {
+  return name.replace(/[^\w.\-()]+/g, "_");
+}
+
+export async function createAnalysisBatch(params: {
+  teacherId: string;
+  storage: SupabaseClient;
+  students: BatchStudentGroup[];
+  skipped: BatchSkipped[];
+  selections: Selections;
+  yearlyFormat: YearlyFormat;
+}): Promise<{ batchId: string; jobIds: string[] }> {
+  const { teacherId, storage, students, skipped, selections, yearlyFormat } = params;
+  const bucket = process.env.SUPABASE_PDF_BUCKET ?? "report-pdfs";
+
+  const { data, error } = await supabase
+    .from("analysis_batches")
+    .insert({ teacher_id: teacherId, selections, skipped })
+    .select("id")
+    .single();
+  if (error || !data) throw new Error(error?.message ?? "一括分析を作成できませんでした");
+
+  const batchId: string = data.id;
+  const jobIds: string[] = [];
+
+  // Storage はログイン中の講師の権限で書く（storage.objects の RLS）
+  let seq = 0;
+  async function put(f: BatchFile): Promise<StoredPdf> {
+    const path = `batch/${batchId}/${seq++}-${safeName(f.name)}`;
+    const { error: upErr } = await storage.storage.from(bucket).upload(path, f.bytes, {
+      contentType: "application/pdf",
+      upsert: true,
+    });
+    if (upErr) throw new Error(`${f.path}: ${upErr.message}`);
+    return { path, name: f.name, size: f.bytes.byteLength };
+  }
+
+  for (const g of students) {
+    const input: BatchJobInput = {
+      key: g.key,
+      studentId: g.studentId,
+      studentName: g.studentName,
+      singles: g.singles.map((f) => ({ name: f.path, size: f.bytes.byteLength })),
+      yearly: g.yearly ? { name: g.yearly.path, size: g.yearly.bytes.byteLength } : null,
+      selections,
+      yearlyFormat,
+      files: {
+        bucket,
+        singles: await Promise.all(g.singles.map(put)),
+        yearly: g.yearly ? await put(g.yearly) : null,
+      },
+    };
+    jobIds.push(await createAnalysisJob(teacherId, input, batchId));
+  }
+
+  return { batchId, jobIds };
+}
+
+/* =========================
+   ワーカー（生徒1人 = 1回の呼び出し）
+========================= */
+export function isWorkerRequest(secretHeader: string | null) {
+  const secret = process.env.ANALYSIS_WORKER_SECRET;
+  if (!secret || !secretHeader) return false;
+  const a = Buffer.from(secretHeader);
+  const b = Buffer.from(secret);
+  return a.length === b.length && timingSafeEqual(a, b);
+}
+
+async function dispatchWorker(jobId: string, origin: string) {
+  try {
+    const secret = process.env.ANALYSIS_WORKER_SECRET;
+    if (!secret) throw new Error("ANALYSIS_WORKER_SECRET is not set");
+    const r = await fetch(`${origin}/api/worker/analysis-jobs/${encodeURIComponent(jobId)}`, {
+      method: "POST",
+      headers: { [WORKER_SECRET_HEADER]: secret },
+    });
+    if (!r.ok) throw new Error(`worker responded ${r.status}`);
+  } catch (e) {
+    console.error("[batch worker dispatch error]", jobId, e);
+    await failAnalysisJob(jobId, "分析ワーカーを起動できませんでした。もう一度分析してください。");
+  }
+}
+
+/**
+ * 空いている枠（BATCH_CONCURRENCY − 走っている人数）だけ、queued の生徒を作成順に取って流す
+ * - 取る（queued → running）のは claimAnalysisJob の原子的な更新なので、同時に呼ばれても二重には流れない
+ * - 止まったワーカー（isStaleJob）は枠に数えない → ポーリングのたびに呼べば途切れても続きから流れる
+ */
+export async function pumpAnalysisBatch(batchId: string, origin: string) {
+  const { data, error } = await supabase
+    .from("analysis_jobs")
+    .select("id, status, stages, updated_at")
+    .eq("batch_id", batchId)
+    .in("status", ["queued", "running"])
+    .order("created_at", { ascending: true });
+  if (error) {
+    console.error("[batch pump error]", batchId, error);
+    return;
+  }
+
+  const rows = (data ?? []) as Array<{ id: string; status: JobStatus; stages: unknown; updated_at: string }>;
+  const now = Date.now();
+  const running = rows.filter(
+    (r) =>
+      r.status === "running" &&
+      !isStaleJob(
+        { status: r.status, batchId, updatedAt: r.updated_at, stages: Array.isArray(r.stages) ? (r.stages as JobStage[]) : [] },
+        now
+      )
+  ).length;
+
+  let slots = BATCH_CONCURRENCY - running;
+  for (const r of rows) {
+    if (slots <= 0) break;
+    if (r.status !== "queued" || !(await claimAnalysisJob(r.id))) continue;
+    slots -= 1;
+    await dispatchWorker(r.id, origin);
+  }
+}
+
+async function download(bucket: string, f: StoredPdf): Promise<AnalyzeInputFile> {
+  const { data, error } = await supabase.storage.from(bucket).download(f.path);
+  if (error || !data) throw new Error(`${f.name}: ${error?.message ?? "download failed"}`);
+  const bytes = Buffer.from(await data.arrayBuffer());
+  return { name: f.name, type: "application/pdf", size: bytes.byteLength, bytes };
+}
+
+/**
+ * ワーカー本体（POST /api/worker/analysis-jobs/:id の after() から）
+ * - pumpAnalysisBatch が running にしたジョブだけ流す。戻り値は次を流すための batchId
+ * - 講師のセッションは無いので、Storage の読み書きは Service Role（呼び出しはワーカーの秘密で確認済み）
+ */
+export async function runBatchJob(jobId: string): Promise<string | null> {
+  const { data: job, error } = await supabase
+    .from("analysis_jobs")
+    .select("id, teacher_id, batch_id, status, input")
+    .eq("id", jobId)
+    .maybeSingle();
+  if (error) throw new Error(error.message);
+  if (!job?.batch_id || job.status !== "running") return job?.batch_id ?? null;
+
+  const input = job.input as BatchJobInput;
+  let analyzeInput: AnalyzeInput;
+  try {
+    analyzeInput = {
+      teacherId: job.teacher_id,
+      storage: supabase,
+      singles: await Promise.all(input.files.singles.map((f) => download(input.files.bucket, f))),
+      yearly: input.files.yearly ? await download(input.files.bucket, input.files.yearly) : null,
+      selections: input.selections,
+      studentId: input.studentId ?? "",
+      studentName: input.studentName ?? "",
+      yearlyFormat: input.yearlyFormat,
+    };
+  } catch (e) {
+    console.error("[batch job input error]", jobId, e);
+    await failAnalysisJob(jobId, e instanceof Error ? `PDFを読み込めませんでした（${e.message}）` : "PDFを読み込めませんでした");
+    return job.batch_id;
+  }
+
+  await runAnalysisJob(jobId, analyzeInput);
+  return job.batch_id;
+}
+
+/* =========================
+   一覧（GET /api/analyze/batch/:id）
+========================= */
+export type BatchStudentView = {
+  jobId: string;
+  key: string;
+  studentId: string | null;
+  studentName: string | null;
+  files: { singles: number; yearly: string | null };
+  status: JobStatus;
+  error: string | null;
+  analysisId: string | null;
+  // 終わった生徒だけ（OCR本文などは載せない）
+  analysisMode: string | null;
+  reportCase: ReportCase | null;
+  warnings: string[];
+  reports: Reports | null;
+};
+
+export type BatchView = {
+  id: string;
+  createdAt: string;
+  selections: Selections;
+  skipped: BatchSkipped[];
+  done: boolean;
+  counts: Record<JobStatus, number>;
+  students: BatchStudentView[];
+};
+
+export async function getAnalysisBatch(id: string, teacherId: string): Promise<BatchView | null> {
+  const { data: batch, error } = await supabase
+    .from("analysis_batches")
+    .select("id, created_at, selections, skipped")
+    .eq("id", id)
+    .eq("teacher_id", teacherId)
+    .maybeSingle();
+
+  if (error) throw new Error(error.message);
+  if (!batch) return null;
+
+  const jobs = await listBatchJobs(id, teacherId);
+
+  const students: BatchStudentView[] = jobs.map((j) => {
+    const input = j.input as {
+      key?: string;
+      studentId?: string | null;
+      studentName?: string | null;
+      singles?: unknown[];
+      yearly?: { name: string } | null;
+    };
+    const r = j.result;
+    return {
+      jobId: j.id,
+      key: input.key ?? j.id,
+      studentId: r?.student?.id ?? input.studentId ?? null,
+      studentName: r?.student?.name ?? input.studentName ?? null,
+      files: { singles: input.singles?.length ?? 0, yearly: input.yearly?.name ?? null },
+      status: j.status,
+      error: j.error,
+      analysisId: j.analysisId,
+      analysisMode: r?.analysisMode ?? null,
+      reportCase: r?.reportCase ?? null,
+      warnings: r?.warnings ?? [],
+      reports: r?.reports ?? null,
+    };
+  });
+
+  const counts: Record<JobStatus, number> = { queued: 0, running: 0, succeeded: 0, failed: 0 };
+  for (const s of students) counts[s.status] += 1;
+
+  return {
+    id: batch.id,
+    createdAt: batch.created_at,
+    selections: batch.selections,
+    skipped: Array.isArray(batch.skipped) ? batch.skipped : [],
+    done: counts.queued + counts.running === 0,
+    counts,
+    students,
+  };
+}
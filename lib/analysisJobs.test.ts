@@ -0,0 +1,64 @@
+// lib/analysisJobs.test.ts
+import { describe, expect, it, vi } from "vitest";
+
+// DB・パイプライン本体は使わない（段の状態遷移だけを見る）
+vi.mock("@/lib/supabase/admin", () => ({ createAdminClient: () => ({}) }));
+vi.mock("@/lib/analyzePipeline", () => ({
+  ANALYZE_STAGES: [
+    { key: "upload", label: "PDFの保存" },
+    { key: "yearly", label: "年間成績表の読み取り" },
+    { key: "singles", label: "単発（設問別）の読み取り" },
+    { key: "report", label: "推移判定・レポート作成" },
+    { key: "save", label: "履歴の保存" },
+  ],
+  runAnalyzePipeline: vi.fn(),
+}));
+
+const { finishStages, initialStages, isStaleJob, JOB_HEARTBEAT_MS, JOB_STALE_MS, WORKER_MAX_DURATION_S, startStage } =
+  await import("@/lib/analysisJobs");
+
+const statuses = (stages: { status: string }[]) => stages.map((s) => s.status);
+
+describe("job stages", () => {
+  it("段を始めると、それより前の段は done", () => {
+    let stages = initialStages();
+    stages = startStage(stages, "upload", "t1");
+    stages = startStage(stages, "singles", "t2"); // yearly を飛ばしても done 扱い
+    expect(statuses(stages)).toEqual(["done", "done", "running", "pending", "pending"]);
+    expect(stages[0]).toMatchObject({ startedAt: "t1", finishedAt: "t2" });
+  });
+
+  it("成功で全段 done / 失敗で走っていた段だけ failed", () => {
+    const running = startStage(initialStages(), "yearly", "t1");
+    expect(statuses(finishStages(running, true, "t2"))).toEqual(["done", "done", "done", "done", "done"]);
+    expect(statuses(finishStages(running, false, "t2"))).toEqual(["done", "failed", "pending", "pending", "pending"]);
+  });
+
+  it("心拍が途切れた running は stale（持ち時間を待たない）", () => {
+    const now = Date.parse("2026-10-18T12:00:00Z");
+    const at = (ms: number) => new Date(now - ms).toISOString();
+    const stages = startStage(initialStages(), "yearly", at(60 * 1000));
+
+    const job = { status: "running" as const, stages };
+    expect(isStaleJob({ ...job, updatedAt: at(JOB_HEARTBEAT_MS * 3 + 1) }, now)).toBe(true);
+    expect(isStaleJob({ ...job, updatedAt: at(JOB_HEARTBEAT_MS) }, now)).toBe(false);
+    expect(isStaleJob({ ...job, status: "succeeded", updatedAt: at(JOB_STALE_MS * 2) }, now)).toBe(false);
+  });
+
+  it("持ち時間 + 余裕を過ぎた running は、心拍があっても stale", () => {
+    const now = Date.parse("2026-10-18T12:00:00Z");
+    const at = (ms: number) => new Date(now - ms).toISOString();
+    const stages = startStage(initialStages(), "upload", at(JOB_STALE_MS + 1));
+
+    expect(JOB_STALE_MS).toBeGreaterThan(WORKER_MAX_DURATION_S * 1000);
+    expect(isStaleJob({ status: "running", updatedAt: at(0), stages }, now)).toBe(true);
+  });
+
+  it("一括分析の queued は順番待ちなので stale にしない", () => {
+    const now = Date.parse("2026-10-18T12:00:00Z");
+    const old = new Date(now - JOB_STALE_MS * 3).toISOString();
+    const stages = initialStages();
+    expect(isStaleJob({ status: "queued", batchId: "b1", updatedAt: old, stages }, now)).toBe(false);
+    expect(isStaleJob({ status: "queued", batchId: null, updatedAt: old, stages }, now)).toBe(true);
+  });
+});
@@ -0,0 +1,237 @@
+// lib/analysisJobs.ts
+import { createAdminClient } from "@/lib/supabase/admin";
+import {
+  ANALYZE_STAGES,
+  runAnalyzePipeline,
+  type AnalyzeInput,
+  type AnalyzeResult,
+  type AnalyzeStageKey,
+} from "@/lib/analyzePipeline";
+
+/**
+ * 分析ジョブ（analysis_jobs）
+ * - POST /api/analyze：createAnalysisJob → after() で runAnalysisJob（レスポンスは jobId だけ）
+ * - GET /api/analyze/jobs/:id：getAnalysisJob（段ごとの状態と、終わっていれば結果）
+ */
+
+export type JobStatus = "queued" | "running" | "succeeded" | "failed";
+export type JobStageStatus = "pending" | "running" | "done" | "failed";
+
+export type JobStage = {
+  key: AnalyzeStageKey;
+  label: string;
+  status: JobStageStatus;
+  startedAt: string | null;
+  finishedAt: string | null;
+};
+
+export type AnalysisJob = {
+  id: string;
+  status: JobStatus;
+  stages: JobStage[];
+  error: string | null;
+  result: AnalyzeResult | null;
+  analysisId: string | null;
+  batchId: string | null;
+  createdAt: string;
+  updatedAt: string;
+};
+
+/**
+ * ワーカーの持ち時間（秒）
+ * - after() のワーカーはリクエストと同じ関数の実行時間に含まれる → app/api/analyze/route.ts の maxDuration と同じ値
+ * - route の maxDuration はリテラルでないと読まれないので、値を変えるときは両方直す
+ */
+export const WORKER_MAX_DURATION_S = 300;
+
+/** 実行中はこの間隔で updated_at を更新（段の切り替えでも更新される） */
+export const JOB_HEARTBEAT_MS = 20 * 1000;
+
+/**
+ * 失敗扱いにする目安（関数のタイムアウト・再起動で落ちると updated_at が止まる）
+ * - 心拍が HEARTBEAT_STALE_MS 途切れた
+ * - 始まってから持ち時間 + 余裕（JOB_STALE_MS）を過ぎた：プラットフォームがもう止めている
+ */
+const HEARTBEAT_STALE_MS = JOB_HEARTBEAT_MS * 3;
+export const JOB_STALE_MS = WORKER_MAX_DURATION_S * 1000 + 60 * 1000;
+
+export function initialStages(): JobStage[] {
+  return ANALYZE_STAGES.map((s) => ({ key: s.key, label: s.label, status: "pending", startedAt: null, finishedAt: null }));
+}
+
+/** stage を開始：それより前の段は done に */
+export function startStage(stages: JobStage[], key: AnalyzeStageKey, now: string): JobStage[] {
+  const at = stages.findIndex((s) => s.key === key);
+  return stages.map((s, i) => {
+    if (i < at && s.status !== "done") return { ...s, status: "done", startedAt: s.startedAt ?? now, finishedAt: now };
+    if (i === at) return { ...s, status: "running", startedAt: now };
+    return s;
+  });
+}
+
+/** 最後：成功なら全段 done / 失敗なら走っていた段を failed */
+export function finishStages(stages: JobStage[], ok: boolean, now: string): JobStage[] {
+  return stages.map((s) => {
+    if (ok) return s.status === "done" ? s : { ...s, status: "done", startedAt: s.startedAt ?? now, finishedAt: now };
+    return s.status === "running" ? { ...s, status: "failed", finishedAt: now } : s;
+  });
+}
+
+/**
+ * - 一括分析の queued は順番待ち（pumpAnalysisBatch が流す）なので、待ち時間では止まった扱いにしない
+ * - running で段がまだ始まっていない（取ってからワーカーが立ち上がるまで）は updated_at から数える
+ */
+export function isStaleJob(
+  job: { status: JobStatus; batchId?: string | null; updatedAt: string; stages: JobStage[] },
+  now: number
+): boolean {
+  if (job.status === "queued") return !job.batchId && now - Date.parse(job.updatedAt) > JOB_STALE_MS;
+  if (job.status !== "running") return false;
+
+  const startedAt = job.stages.find((s) => s.startedAt)?.startedAt ?? job.updatedAt;
+  return now - Date.parse(job.updatedAt) > HEARTBEAT_STALE_MS || now - Date.parse(startedAt) > JOB_STALE_MS;
+}
+
+/* =========================
+   DB
+========================= */
+const supabase = createAdminClient();
+
+export async function createAnalysisJob(
+  teacherId: string,
+  input: Record<string, unknown>,
+  batchId: string | null = null
+): Promise<string> {
+  const { data, error } = await supabase
+    .from("analysis_jobs")
+    .insert({ teacher_id: teacherId, status: "queued", stages: initialStages(), input, batch_id: batchId })
+    .select("id")
+    .single();
+  if (error || !data) throw new Error(error?.message ?? "ジョブを作成できませんでした");
+  return data.id;
+}
+
+async function updateJob(id: string, patch: Record<string, unknown>) {
+  const { error } = await supabase
+    .from("analysis_jobs")
+    .update({ ...patch, updated_at: new Date().toISOString() })
+    .eq("id", id);
+  if (error) console.error("[analysis_jobs update error]", id, error);
+}
+
+/** queued → running（取れたときだけ true。同じジョブを2つのワーカーで流さない） */
+export async function claimAnalysisJob(id: string): Promise<boolean> {
+  const { data, error } = await supabase
+    .from("analysis_jobs")
+    .update({ status: "running", updated_at: new Date().toISOString() })
+    .eq("id", id)
+    .eq("status", "queued")
+    .select("id");
+  if (error) throw new Error(error.message);
+  return (data ?? []).length > 0;
+}
+
+/** パイプラインに入る前に失敗したとき（ワーカーを起動できない・PDFを読めない） */
+export async function failAnalysisJob(id: string, message: string) {
+  await updateJob(id, { status: "failed", error: message });
+}
+
+/**
+ * ワーカー本体（after() から呼ぶ）
+ * - 段が変わるたびに stages を書く（ポーリング側はそれを表示）
+ * - 段の途中（OCR待ち）も JOB_HEARTBEAT_MS ごとに updated_at を更新 → 止まったら isStaleJob で早めに失敗表示
+ * - 例外はジョブの failed として残す（呼び出し元へは投げない）
+ */
+export async function runAnalysisJob(jobId: string, input: AnalyzeInput) {
+  let stages = initialStages();
+  const heartbeat = setInterval(() => void updateJob(jobId, {}), JOB_HEARTBEAT_MS);
+
+  try {
+    await updateJob(jobId, { status: "running" });
+
+    const result = await runAnalyzePipeline(input, async (key) => {
+      stages = startStage(stages, key, new Date().toISOString());
+      await updateJob(jobId, { stages });
+    });
+
+    stages = finishStages(stages, true, new Date().toISOString());
+    await updateJob(jobId, { status: "succeeded", stages, result, analysis_id: result.analysisId });
+  } catch (e) {
+    console.error("[analysis job fatal]", jobId, e);
+    stages = finishStages(stages, false, new Date().toISOString());
+    await updateJob(jobId, {
+      status: "failed",
+      stages,
+      error: e instanceof Error ? e.message : "Server error",
+    });
+  } finally {
+    clearInterval(heartbeat);
+  }
+}
+
+const JOB_COLUMNS = "id, status, stages, error, result, analysis_id, batch_id, created_at, updated_at";
+
+type JobRow = {
+  id: string;
+  status: JobStatus;
+  stages: unknown;
+  error: string | null;
+  result: AnalyzeResult | null;
+  analysis_id: string | null;
+  batch_id: string | null;
+  created_at: string;
+  updated_at: string;
+};
+
+function toJob(row: JobRow): AnalysisJob {
+  const job: AnalysisJob = {
+    id: row.id,
+    status: row.status,
+    stages: Array.isArray(row.stages) ? row.stages : [],
+    error: row.error ?? null,
+    result: row.result ?? null,
+    analysisId: row.analysis_id ?? null,
+    batchId: row.batch_id ?? null,
+    createdAt: row.created_at,
+    updatedAt: row.updated_at,
+  };
+
+  if (isStaleJob(job, Date.now())) {
+    return {
+      ...job,
+      status: "failed",
+      stages: finishStages(job.stages, false, job.updatedAt),
+      error: "処理が途中で止まりました（時間切れの可能性があります）。もう一度分析してください。",
+    };
+  }
+  return job;
+}
+
+/** 講師本人のジョブだけ返す（他人のジョブは null） */
+export async function getAnalysisJob(id: string, teacherId: string): Promise<AnalysisJob | null> {
+  const { data, error } = await supabase
+    .from("analysis_jobs")
+    .select(JOB_COLUMNS)
+    .eq("id", id)
+    .eq("teacher_id", teacherId)
+    .maybeSingle();
+
+  if (error) throw new Error(error.message);
+  return data ? toJob(data as JobRow) : null;
+}
+
+/** 一括分析のジョブ（作成順）。input（生徒ID・ファイル名）も返す */
+export async function listBatchJobs(
+  batchId: string,
+  teacherId: string
+): Promise<Array<AnalysisJob & { input: Record<string, unknown> }>> {
+  const { data, error } = await supabase
+    .from("analysis_jobs")
+    .select(`${JOB_COLUMNS}, input`)
+    .eq("batch_id", batchId)
+    .eq("teacher_id", teacherId)
+    .order("created_at", { ascending: true });
+
+  if (error) throw new Error(error.message);
+  return (data ?? []).map((row) => ({ ...toJob(row as JobRow), input: (row.input ?? {}) as Record<string, unknown> }));
+}
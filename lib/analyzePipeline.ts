@@ -0,0 +1,885 @@
+// lib/analyzePipeline.ts
+/// <reference types="node" />
+import { Buffer } from "buffer";
+import { randomUUID } from "crypto";
+import type { SupabaseClient } from "@supabase/supabase-js";
+import { createAdminClient } from "@/lib/supabase/admin";
+import { mergeTimeline } from "@/lib/studentTimeline";
+import { listStudentTargets } from "@/lib/studentTargets";
+import type { TargetSchool } from "@/lib/targetSchools";
+import type { KokaiForecast } from "@/lib/forecast";
+import { getLlmProvider } from "@/lib/llm";
+import { OCR_CACHE_VERSION, ocrCacheKey, sha256Hex } from "@/lib/ocrCache";
+import { extractPdfTextLayer } from "@/lib/pdfText";
+import { JUKU_REPORT_TEXT_FORMAT, checkRange, validateJukuReport } from "@/lib/jukuReportSchema";
+import {
+  PROVENANCE_FIELDS,
+  countLowConfidence,
+  createTestProvenance,
+  markProvenance,
+  type ProvenanceField,
+  type TestProvenance,
+} from "@/lib/provenance";
+import {
+  FOCUS_ORDER,
+  isFiniteNumber,
+  runReportStage,
+  type AnalysisMode,
+  type FocusAxis,
+  type Reports,
+  type Selections,
+  type Target,
+  type Tone,
+  type YearlyTrends,
+} from "@/lib/reportStage";
+import {
+  buildYearlyFromOcrTextAuto,
+  buildYearlyWithProvenance,
+  clampNum,
+  dashToNull,
+  detectYearlyFormatFromOcrText,
+  fixIkuseiTwoFourByRange,
+  fixIkuseiTwoFourMix,
+  fixKokaiFourScoreIfSuspicious,
+  forceNullifyFourIfMissing,
+  isGakuhanLike,
+  normalizeTestTypeLabel,
+  nullifyFieldsByType,
+  toNumberOrNull,
+  type JukuReportJson,
+  type YearlyFormat,
+} from "@/lib/yearlyParser";
+import {
+  detectSubject,
+  summarizeBySubject,
+  type MistakeSummary,
+  type SingleQ,
+  type SubjectKey,
+} from "@/lib/mistakeSummary";
+
+/**
+ * 分析パイプライン（PDFの保存 → 年間 → 単発 → 生徒の時系列 → レポート → 履歴保存）
+ * - /api/analyze はジョブを作るだけで、実際の処理は lib/analysisJobs がここを呼ぶ
+ * - 段の切り替わりは onStage で通知（ジョブの進み具合表示用）
+ */
+
+/* =========================
+   Clients
+   - Storage（PDF）はログイン中の講師の権限で読み書き（storage.objects の RLS）
+   - students / analyses の書き込みは権限チェック後に Service Role で
+   - LLM は LLM_PROVIDER で切替（openai / stub）
+========================= */
+const supabase = createAdminClient();
+
+const llm = getLlmProvider();
+
+/* =========================
+   Types
+========================= */
+/** ✅ 単発：設問別（正答率 × ○×）。科目ごとの A/B/C 集計は lib/mistakeSummary */
+type SingleQWithSubject = SingleQ & { subject: SubjectKey };
+
+type TextSource = "text-layer" | "model-ocr";
+
+type OcrSingleResult =
+  | {
+      ok: true;
+      path: string;
+      name: string;
+      size: number;
+      text: string;
+      textSource: TextSource;
+      questionStats: SingleQWithSubject[];
+    }
+  | { ok: false; path: string; name: string; size: number; error: string };
+
+/* =========================
+   Utils
+========================= */
+function safeName(name: string) {
+  return name.replace(/[^\w.\-()]+/g, "_");
+}
+
+function safeParseJson<T>(text: string): T | null {
+  try {
+    return JSON.parse(text) as T;
+  } catch {
+    return null;
+  }
+}
+
+/** ✅ FormData から出力設定を読む（不正値は UI の初期値に寄せる） */
+export function parseSelections(fd: FormData): Selections {
+  const toneRaw = fd.get("tone");
+  const targetRaw = fd.get("target");
+  const focusRaw = fd.get("focus");
+
+  const tone: Tone = toneRaw === "gentle" || toneRaw === "balanced" || toneRaw === "strict" ? toneRaw : "gentle";
+  const target: Target =
+    targetRaw === "student" || targetRaw === "parent" || targetRaw === "teacher" ? targetRaw : "student";
+
+  const focusParsed = typeof focusRaw === "string" ? safeParseJson<unknown>(focusRaw) : null;
+  const focus: FocusAxis[] = Array.isArray(focusParsed)
+    ? FOCUS_ORDER.filter((k) => focusParsed.includes(k))
+    : [];
+
+  return { tone, target, focus };
+}
+
+/* =========================
+   ✅ 追加：analysisMode / 2科4科判定
+========================= */
+function computeAnalysisMode(singleCount: number): AnalysisMode {
+  return singleCount > 0 ? "full" : "yearly-only";
+}
+
+/* =========================
+   OCR (PDF -> text)
+   - PDFはアップロード時に読んだバイト列をそのまま使う（Storage から再ダウンロードしない）
+========================= */
+async function ocrPdf(params: { pdf: Buffer; filename: string; focusHint?: string }) {
+  const { pdf, filename, focusHint } = params;
+
+  const base =
+    "PDFをページ番号付きでOCR転記してください。要約禁止。推測禁止。省略禁止。表は可能な限り表形式で。";
+
+  const focus = focusHint
+    ? `\n\n【重要】今回は次の内容が載っている箇所だけを優先して転記して：\n${focusHint}\n（それ以外は省略してOK）`
+    : "";
+
+  return llm.ocrPdf({ pdf, filename, prompt: base + focus });
+}
+
+type OcrCacheStats = { hits: number; misses: number };
+
+/**
+ * ✅ テキストレイヤ（デジタル生成PDF）
+ * - 文字が埋め込まれていれば座標から表を組み直して返す（モデル不要・決定的）
+ * - スキャンPDF / 読めないPDF は ""（→ モデルOCRへ）
+ */
+async function readPdfTextLayer(pdf: Buffer, filename: string) {
+  try {
+    return (await extractPdfTextLayer(pdf)).text;
+  } catch (e) {
+    console.error("[pdf text layer error]", filename, e);
+    return "";
+  }
+}
+
+/**
+ * ✅ OCRキャッシュ（ocr_cache）
+ * - キー：PDFのSHA-256 + focusHint + 版 + モデル（lib/ocrCache）
+ * - ヒットしたらモデルを呼ばない（トーン/対象だけ変えた再分析が速く・安くなる）
+ * - 空の転記結果は保存しない（次回また読み直す）
+ */
+async function ocrPdfCached(params: {
+  pdf: Buffer;
+  filename: string;
+  focusHint?: string;
+  stats: OcrCacheStats;
+}) {
+  const { pdf, filename, focusHint, stats } = params;
+
+  const pdfSha256 = sha256Hex(pdf);
+  const key = ocrCacheKey({ pdfSha256, focusHint: focusHint ?? null, model: llm.model });
+
+  const { data: hit, error: selErr } = await supabase.from("ocr_cache").select("text").eq("key", key).maybeSingle();
+  if (selErr) console.error("[ocr_cache select error]", selErr);
+
+  if (typeof hit?.text === "string") {
+    stats.hits += 1;
+    return hit.text;
+  }
+
+  stats.misses += 1;
+  const text = await ocrPdf({ pdf, filename, focusHint });
+
+  if (text) {
+    const { error: upErr } = await supabase.from("ocr_cache").upsert({
+      key,
+      pdf_sha256: pdfSha256,
+      focus_hint: focusHint ?? null,
+      version: OCR_CACHE_VERSION,
+      model: llm.model,
+      text,
+    });
+    if (upErr) console.error("[ocr_cache upsert error]", upErr);
+  }
+
+  return text;
+}
+
+/* =========================
+   Direct extraction (保険)
+========================= */
+async function extractJukuReportJsonDirectFromPdf(params: {
+  pdf: Buffer;
+  filename: string;
+  mode: "yearly" | "single";
+}): Promise<{
+  ok: boolean;
+  reportJson: JukuReportJson | null;
+  provenance: TestProvenance[];
+  raw: string;
+  error: string | null;
+  warnings: string[];
+}> {
+  const { pdf, filename, mode } = params;
+
+  try {
+    const system =
+      mode === "yearly"
+        ? `
+あなたは塾の「成績推移表」からデータ抽出します。
+抽出対象：育成（得点/評価）、公開（得点/偏差）
+禁止：推測、2科→4科コピー、学判、平均点/平均との差の生成
+返答は必ずJSONのみ。
+`.trim()
+        : `
+あなたは塾の「単発の成績表」からデータ抽出します。
+育成/公開のみ。推測禁止。返答はJSONのみ。
+`.trim();
+
+    const out = (
+      await llm.extractJson({
+        pdf,
+        filename,
+        system,
+        prompt: `ファイル名: ${filename}\n指定スキーマに沿ってJSON化。空欄はnull。`,
+        format: {
+          name: JUKU_REPORT_TEXT_FORMAT.name,
+          schema: JUKU_REPORT_TEXT_FORMAT.schema,
+          strict: JUKU_REPORT_TEXT_FORMAT.strict ?? true,
+        },
+      })
+    ).trim();
+
+    const parsed = safeParseJson<unknown>(out);
+    if (!parsed || typeof parsed !== "object" || (parsed as { docType?: unknown }).docType !== "juku_report") {
+      return {
+        ok: false,
+        reportJson: null,
+        provenance: [],
+        raw: out,
+        error: "JSON parse failed or invalid docType",
+        warnings: [],
+      };
+    }
+
+    // testType は testName から付け直してから検証（モデルが「育成」などを入れても落とさない）
+    const rawTests = (parsed as { tests?: unknown }).tests;
+    if (Array.isArray(rawTests)) {
+      for (const t of rawTests) {
+        if (!t || typeof t !== "object") continue;
+        const r = t as Record<string, unknown>;
+        r.testType = normalizeTestTypeLabel(String(r.testName ?? r.testType ?? ""));
+      }
+    }
+
+    // ✅ スキーマで実行時チェック：型違いは欄ごとに warnings へ
+    const { report, warnings, fixes } = validateJukuReport(parsed);
+    if (!report) {
+      return { ok: false, reportJson: null, provenance: [], raw: out, error: "schema validation failed", warnings };
+    }
+
+    // ✅ 欄ごとの provenance（直接JSONなので基本 medium、手直しした欄は下げる）
+    let rows = report.tests.map((t) => ({ t, prov: createTestProvenance("direct-json") }));
+    for (const f of fixes) {
+      const prov = rows[f.test]?.prov;
+      if (!prov || !(PROVENANCE_FIELDS as string[]).includes(f.field)) continue;
+      const field = f.field as ProvenanceField;
+      if (f.kind === "coerced") markProvenance(prov, field, "normalized", `文字列 ${JSON.stringify(f.value)} を数値に変換`);
+      else markProvenance(prov, field, "clamped", `${JSON.stringify(f.value)} は不正な値のため破棄`);
+    }
+
+    rows = rows.filter(
+      ({ t }) => (t.testType === "ikusei" || t.testType === "kokai_moshi") && !isGakuhanLike(String(t.testName ?? ""))
+    );
+
+    for (const { t, prov } of rows) {
+      const label = t.testName ?? t.date ?? "（名称不明のテスト）";
+      const { two, four } = t.totals;
+
+      // 範囲外で null にした欄は provenance にも残す
+      const range = (field: ProvenanceField, v: number | null, min: number, max: number, name: string) => {
+        const r = checkRange(v, min, max, `${label} ${name}`, warnings);
+        if (v != null && r == null) markProvenance(prov, field, "clamped", `${v} は範囲外（${min}〜${max}）`);
+        return r;
+      };
+
+      two.score = range("two.score", two.score, 0, 400, "2科得点");
+      four.score = range("four.score", four.score, 0, 500, "4科得点");
+      two.deviation = range("two.deviation", two.deviation, 10, 90, "2科偏差");
+      four.deviation = range("four.deviation", four.deviation, 10, 90, "4科偏差");
+
+      if (t.testType === "ikusei") {
+        // ✅ 育成評価は3〜10固定（1・2は“甘い”扱いで落とす）
+        const g2raw = two.grade;
+        const g4raw = four.grade;
+
+        two.grade = range("two.grade", g2raw, 3, 10, "2科評価");
+        four.grade = range("four.grade", g4raw, 3, 10, "4科評価");
+
+        if (g2raw === 1 || g2raw === 2) t.notes.push(`育成: 2科評価が${g2raw}として読まれたため破棄`);
+        if (g4raw === 1 || g4raw === 2) t.notes.push(`育成: 4科評価が${g4raw}として読まれたため破棄`);
+
+        fixIkuseiTwoFourByRange(t, prov);
+        fixIkuseiTwoFourMix(t, prov);
+      } else {
+        two.grade = range("two.grade", two.grade, 0, 10, "2科評価");
+        four.grade = range("four.grade", four.grade, 0, 10, "4科評価");
+
+        // ✅ 公開：twoScore無いならtwoDev null
+        if (two.score == null && two.deviation != null) {
+          markProvenance(prov, "two.deviation", "clamped", `2科得点が無いため偏差${two.deviation}を破棄`);
+          two.deviation = null;
+        }
+      }
+
+      nullifyFieldsByType(t);
+      forceNullifyFourIfMissing(t);
+      fixKokaiFourScoreIfSuspicious(t, prov);
+    }
+
+    report.tests = rows.map((r) => r.t);
+    return { ok: true, reportJson: report, provenance: rows.map((r) => r.prov), raw: out, error: null, warnings };
+  } catch (e) {
+    const error = e instanceof Error ? e.message : String(e);
+    return { ok: false, reportJson: null, provenance: [], raw: "", error, warnings: [] };
+  }
+}
+
+/* =========================
+   Single test (設問別 正答率 / ○×)
+========================= */
+const SINGLE_QUESTION_FOCUS_HINT =
+  "各科目（算数・国語・理科・社会）の設問別成績（問題番号・配点・正答率・正誤（○/×）の表）。表の直前に科目名の見出しを必ず付けて";
+
+function parseCorrectMark(cell: string): boolean | null {
+  const c = String(cell ?? "").replace(/\s+/g, "");
+  if (/^(○|〇|◯|◎|正|正解)$/.test(c)) return true;
+  if (/^(×|✕|✖|Ｘ|X|x|△|誤|不正解)$/.test(c)) return false;
+  return null;
+}
+
+function parseRateCell(cell: string): number | null {
+  const c = String(cell ?? "").replace(/\s+/g, "");
+  const m = c.match(/^([0-9]{1,3}(?:\.\d+)?)[%％]?$/);
+  if (!m) return null;
+  return clampNum(m[1], 0, 100);
+}
+
+function splitTableRow(line: string): string[] | null {
+  const t = line.trim();
+  if (!t.startsWith("|")) return null;
+  return t
+    .replace(/^\|/, "")
+    .replace(/\|$/, "")
+    .split("|")
+    .map((c) => c.trim());
+}
+
+/**
+ * 単発の設問別表をパース
+ * - ヘッダ行（正答率 / 正誤・○×）があれば列位置を固定
+ * - 無ければ「%付きの数値」→ 最後の数値 の順で正答率列を推定
+ * - 問題番号は「1」「(1)」「1(2)」「1-2」などを許容（label に原文を残す）
+ * - 科目は表の外の見出し行 or 「科目」列から拾う（見当たらなければ算数扱い）
+ */
+function parseSingleQuestionStatsFromOcrText(ocrText: string): SingleQWithSubject[] {
+  const out: SingleQWithSubject[] = [];
+  const counters: Partial<Record<SubjectKey, number>> = {};
+  let subject: SubjectKey = "sansuu";
+  let rateIdx = -1;
+  let markIdx = -1;
+  let pointsIdx = -1;
+  let subjectIdx = -1;
+
+  for (const line of String(ocrText ?? "").split(/\r?\n/)) {
+    const cells = splitTableRow(line);
+    if (!cells) {
+      // 見出し行（短い行だけ見る：本文中の「算数」で誤爆しないように）
+      const heading = line.trim();
+      const detected = heading && heading.length <= 30 ? detectSubject(heading) : null;
+      if (detected) {
+        subject = detected;
+        rateIdx = markIdx = pointsIdx = subjectIdx = -1;
+      }
+      continue;
+    }
+    if (cells.length < 3) continue;
+
+    // ヘッダ行：列位置を覚える
+    const hRate = cells.findIndex((c) => /正答率/.test(c));
+    if (hRate >= 0) {
+      rateIdx = hRate;
+      markIdx = cells.findIndex((c) => /(正誤|○×|〇×|正否|判定|結果)/.test(c));
+      pointsIdx = cells.findIndex((c) => /配点/.test(c));
+      subjectIdx = cells.findIndex((c) => /科目|教科/.test(c));
+      continue;
+    }
+
+    const rowSubject = subjectIdx >= 0 && subjectIdx < cells.length ? detectSubject(cells[subjectIdx]) : null;
+    const qSubject = rowSubject ?? subject;
+
+    const labelCell = cells[subjectIdx === 0 ? 1 : 0] ?? "";
+    const label = labelCell.replace(/\s+/g, "");
+    if (!/^[(（]?\d{1,2}[)）]?(?:[\-−ー(（]\d{1,2}[)）]?)?$/.test(label)) continue;
+
+    let correct: boolean | null = null;
+    if (markIdx >= 0 && markIdx < cells.length) correct = parseCorrectMark(cells[markIdx]);
+    if (correct == null) {
+      for (const c of cells.slice(1)) {
+        correct = parseCorrectMark(c);
+        if (correct != null) break;
+      }
+    }
+    if (correct == null) continue;
+
+    let rate: number | null = null;
+    if (rateIdx >= 0 && rateIdx < cells.length) rate = parseRateCell(cells[rateIdx]);
+    if (rate == null) {
+      const pct = cells.slice(1).find((c) => /[%％]/.test(c));
+      if (pct) rate = parseRateCell(pct);
+    }
+    if (rate == null) {
+      const nums = cells.slice(1).map(parseRateCell).filter(isFiniteNumber);
+      rate = nums.length ? nums[nums.length - 1] : null;
+    }
+    if (rate == null) continue;
+
+    const points =
+      pointsIdx >= 0 && pointsIdx < cells.length ? clampNum(toNumberOrNull(dashToNull(cells[pointsIdx])), 1, 50) : null;
+
+    counters[qSubject] = (counters[qSubject] ?? 0) + 1;
+    out.push({ subject: qSubject, q: counters[qSubject]!, label, rate, correct, points });
+  }
+
+  return out;
+}
+
+function buildMistakeSummary(uploadedSinglesCount: number, singles: OcrSingleResult[]): MistakeSummary {
+  if (uploadedSinglesCount <= 0) {
+    return { status: "no-single", message: "単発PDFが未投入のため、○×正答率からのミス分析は未実施です。" };
+  }
+
+  // 科目ごとに寄せる（PDFが科目別に分かれていても1つにまとめる）
+  const bySubject: Partial<Record<SubjectKey, Array<SingleQ & { source: string }>>> = {};
+  for (const r of singles) {
+    if (!r.ok) continue;
+    for (const { subject, ...x } of r.questionStats) {
+      (bySubject[subject] ??= []).push({ ...x, source: r.name });
+    }
+  }
+
+  return summarizeBySubject(bySubject);
+}
+
+/* =========================
+   ✅ 生徒（students）：受験履歴の時系列マージ
+========================= */
+type StudentRef = { id: string; name: string | null; timelineTests: number; added: number; updated: number };
+
+async function mergeIntoStudentTimeline(params: {
+  studentId: string;
+  studentName: string | null;
+  tests: JukuReportJson["tests"];
+}): Promise<{ student: StudentRef; timeline: JukuReportJson["tests"] } | null> {
+  const { studentId, studentName, tests } = params;
+
+  const { data: existing, error: selErr } = await supabase
+    .from("students")
+    .select("id, name, timeline")
+    .eq("id", studentId)
+    .maybeSingle();
+  if (selErr) {
+    console.error("[students select error]", selErr);
+    return null;
+  }
+
+  const prev: JukuReportJson["tests"] = Array.isArray(existing?.timeline) ? existing.timeline : [];
+  const merged = mergeTimeline(prev, tests);
+  const name = studentName ?? existing?.name ?? null;
+
+  const { error: upErr } = await supabase.from("students").upsert({
+    id: studentId,
+    name,
+    timeline: merged.timeline,
+    updated_at: new Date().toISOString(),
+  });
+  if (upErr) {
+    console.error("[students upsert error]", upErr);
+    return null;
+  }
+
+  return {
+    student: { id: studentId, name, timelineTests: merged.timeline.length, added: merged.added, updated: merged.updated },
+    timeline: merged.timeline,
+  };
+}
+
+/* =========================
+   ✅ 履歴保存（analyses）
+========================= */
+async function saveAnalysis(params: {
+  teacherId: string;
+  bucket: string;
+  baseDir: string;
+  response: {
+    summary: string;
+    analysisMode: AnalysisMode;
+    warnings: string[];
+    reports: Reports;
+    selections: Selections;
+    files: unknown;
+    ocr: { yearlyReportJson: JukuReportJson | null };
+    yearlyTrends: YearlyTrends;
+    student: StudentRef | null;
+    forecast: KokaiForecast | null;
+  };
+}): Promise<string | null> {
+  const { teacherId, bucket, baseDir } = params;
+  // ✅ 見込みは講師画面のみ：response には入れず analyses.forecast に分けて保存（GET /api/analyses/:id で戻す）
+  const { forecast, ...response } = params.response;
+  const student = response.student;
+
+  const { data, error } = await supabase
+    .from("analyses")
+    .insert({
+      teacher_id: teacherId,
+      student_id: student?.id ?? null,
+      student_name: student?.name ?? null,
+      bucket,
+      input_files: { baseDir, ...(response.files as object) },
+      selections: response.selections,
+      analysis_mode: response.analysisMode,
+      summary: response.summary,
+      yearly_report_json: response.ocr.yearlyReportJson,
+      yearly_trends: response.yearlyTrends,
+      warnings: response.warnings,
+      reports: response.reports,
+      forecast,
+      response,
+    })
+    .select("id")
+    .single();
+
+  if (error) {
+    console.error("[analyses insert error]", error);
+    return null;
+  }
+  return data?.id ?? null;
+}
+
+
+/* =========================
+   Pipeline
+========================= */
+export const ANALYZE_STAGES = [
+  { key: "upload", label: "PDFの保存" },
+  { key: "yearly", label: "年間成績表の読み取り" },
+  { key: "singles", label: "単発（設問別）の読み取り" },
+  { key: "report", label: "推移判定・レポート作成" },
+  { key: "save", label: "履歴の保存" },
+] as const;
+
+export type AnalyzeStageKey = (typeof ANALYZE_STAGES)[number]["key"];
+
+/** リクエスト時に読んだPDF（ワーカーはこのバイト列を使う） */
+export type AnalyzeInputFile = { name: string; type: string; size: number; bytes: Buffer };
+
+export type AnalyzeInput = {
+  teacherId: string;
+  /** Storage はログイン中の講師の権限で書く（storage.objects の RLS） */
+  storage: SupabaseClient;
+  singles: AnalyzeInputFile[];
+  yearly: AnalyzeInputFile | null;
+  selections: Selections;
+  // ✅ 生徒ID/氏名（入力があればOCRより優先）
+  studentId: string;
+  studentName: string;
+  yearlyFormat: YearlyFormat;
+};
+
+export async function runAnalyzePipeline(input: AnalyzeInput, onStage?: (stage: AnalyzeStageKey) => Promise<void>) {
+  const { teacherId, storage, selections, yearlyFormat } = input;
+  const studentIdInput = input.studentId.trim();
+  const studentNameInput = input.studentName.trim();
+
+  const bucket = process.env.SUPABASE_PDF_BUCKET ?? "report-pdfs";
+  const baseDir = `analyze/${randomUUID()}`;
+
+  // アップロードしたPDFのバイト列（OCRはこれを使う：Storage から読み直さない）
+  const pdfBytes = new Map<string, Buffer>();
+  const ocrCache: OcrCacheStats = { hits: 0, misses: 0 };
+
+  async function upload(file: AnalyzeInputFile) {
+    const path = `${baseDir}/${safeName(file.name)}`;
+    pdfBytes.set(path, file.bytes);
+    const { error } = await storage.storage.from(bucket).upload(path, file.bytes, {
+      contentType: file.type || "application/pdf",
+      upsert: true,
+    });
+    if (error) throw new Error(error.message);
+    return { path, name: file.name, size: file.size };
+  }
+
+  await onStage?.("upload");
+  const uploadedSingles: { path: string; name: string; size: number }[] = [];
+  for (const f of input.singles) uploadedSingles.push(await upload(f));
+  const uploadedYearly = input.yearly ? await upload(input.yearly) : null;
+
+  // ✅ 追加：warnings / analysisMode（UIで使う）
+  const warnings: string[] = [];
+  const analysisMode: AnalysisMode = computeAnalysisMode(uploadedSingles.length);
+  if (analysisMode === "yearly-only") {
+    warnings.push("単発PDFが未投入のため、分析モードは yearly-only（年間推移の参考分析）です。");
+  }
+
+  let yearlyOcrText: string | null = null;
+  let yearlyOcrError: string | null = null;
+  let yearlyTextSource: TextSource | null = null;
+
+  let yearlyReportJson: JukuReportJson | null = null;
+  let yearlyProvenance: TestProvenance[] | null = null;
+  let yearlyReportJsonMeta: { ok: boolean; error: string | null } | null = null;
+  let yearlyDebug: Record<string, unknown> | null = null;
+
+  await onStage?.("yearly");
+  if (uploadedYearly) {
+    // ✅ まずテキストレイヤ：育成/公開の見出しがあり、表が1行でも読めればモデルOCRは呼ばない
+    const layerText = await readPdfTextLayer(pdfBytes.get(uploadedYearly.path)!, uploadedYearly.name);
+    const layerUsable =
+      !!layerText &&
+      detectYearlyFormatFromOcrText(layerText) !== "auto" &&
+      buildYearlyFromOcrTextAuto(layerText, uploadedYearly.name).yearly.tests.length > 0;
+
+    if (layerUsable) {
+      yearlyOcrText = layerText;
+      yearlyTextSource = "text-layer";
+    } else {
+      try {
+        const yearlyOcrTextIkusei = await ocrPdfCached({
+          pdf: pdfBytes.get(uploadedYearly.path)!,
+          filename: uploadedYearly.name,
+          stats: ocrCache,
+          focusHint:
+            "III. 学習力育成テスト 出題範囲及び成績（回数・試験実施日・4科目得点・評価・2科目得点・評価の表）",
+        });
+
+        const yearlyOcrTextKokai = await ocrPdfCached({
+          pdf: pdfBytes.get(uploadedYearly.path)!,
+          filename: uploadedYearly.name,
+          stats: ocrCache,
+          focusHint:
+            "V. 公開模試成績（回数・年/月/日・4科得点・偏差・2科得点・偏差の表）",
+        });
+
+        yearlyOcrText = [yearlyOcrTextIkusei, yearlyOcrTextKokai].filter(Boolean).join("\n\n---\n\n");
+        yearlyTextSource = "model-ocr";
+      } catch (e) {
+        yearlyOcrText = null;
+        yearlyOcrError = e instanceof Error ? e.message : String(e);
+        console.error("[yearly OCR error]", uploadedYearly?.name, e);
+      }
+    }
+
+    if (yearlyOcrText) {
+      if (yearlyFormat !== "auto") {
+        const forced = buildYearlyWithProvenance(yearlyOcrText, uploadedYearly.name, yearlyFormat);
+        yearlyReportJson = forced.yearly;
+        yearlyProvenance = forced.provenance;
+        yearlyReportJsonMeta = { ok: true, error: null };
+        yearlyDebug = {
+          mode: "yearly-ocr-regex",
+          textSource: yearlyTextSource,
+          forcedFormat: yearlyFormat,
+          ocrLen: yearlyOcrText.length,
+          extractedTests: yearlyReportJson.tests?.length ?? 0,
+        };
+      } else {
+        const auto = buildYearlyFromOcrTextAuto(yearlyOcrText, uploadedYearly.name);
+        yearlyReportJson = auto.yearly;
+        yearlyProvenance = auto.provenance;
+        yearlyReportJsonMeta = { ok: true, error: null };
+        yearlyDebug = {
+          mode: "yearly-ocr-regex",
+          textSource: yearlyTextSource,
+          detectedFormat: auto.detected,
+          chosenFormat: auto.chosen,
+          tries: auto.counts,
+          ocrLen: yearlyOcrText.length,
+          extractedTests: yearlyReportJson.tests?.length ?? 0,
+        };
+      }
+    } else {
+      const extractedYearly = await extractJukuReportJsonDirectFromPdf({
+        pdf: pdfBytes.get(uploadedYearly.path)!,
+        filename: uploadedYearly.name,
+        mode: "yearly",
+      });
+
+      yearlyReportJson = extractedYearly.reportJson;
+      yearlyProvenance = extractedYearly.reportJson ? extractedYearly.provenance : null;
+      yearlyReportJsonMeta = {
+        ok: extractedYearly.ok,
+        error: extractedYearly.ok ? null : extractedYearly.error ?? "JSON化に失敗",
+      };
+      yearlyDebug = {
+        mode: "yearly-direct",
+        rawLen: extractedYearly.raw?.length ?? 0,
+        validationWarnings: extractedYearly.warnings.length,
+      };
+      for (const w of extractedYearly.warnings) warnings.push(`年間JSON抽出: ${w}`);
+    }
+
+    const lowCount = yearlyProvenance ? countLowConfidence(yearlyProvenance) : 0;
+    if (lowCount > 0) {
+      warnings.push(`年間の成績表に要確認の数値が${lowCount}か所あります（成績表の確認・修正でハイライト表示）。`);
+    }
+  }
+
+  // ✅ 単発：設問別（正答率・○×）をOCR → パース
+  await onStage?.("singles");
+  const singleResults: OcrSingleResult[] = [];
+  for (const f of uploadedSingles) {
+    try {
+      // ✅ テキストレイヤで設問別の表が読めればそれを使う（スキャンPDFだけモデルOCR）
+      const layerText = await readPdfTextLayer(pdfBytes.get(f.path)!, f.name);
+      const layerStats = layerText ? parseSingleQuestionStatsFromOcrText(layerText) : [];
+      const textSource: TextSource = layerStats.length > 0 ? "text-layer" : "model-ocr";
+
+      const text =
+        textSource === "text-layer"
+          ? layerText
+          : await ocrPdfCached({
+              pdf: pdfBytes.get(f.path)!,
+              filename: f.name,
+              focusHint: SINGLE_QUESTION_FOCUS_HINT,
+              stats: ocrCache,
+            });
+      const questionStats = textSource === "text-layer" ? layerStats : parseSingleQuestionStatsFromOcrText(text);
+      if (questionStats.length === 0) {
+        warnings.push(`単発PDF「${f.name}」から設問別の正答率・○×を読み取れませんでした。`);
+      }
+      singleResults.push({ ok: true, ...f, text, textSource, questionStats });
+    } catch (e) {
+      console.error("[single OCR error]", f.name, e);
+      singleResults.push({ ok: false, ...f, error: e instanceof Error ? e.message : String(e) });
+    }
+  }
+
+  // ✅ 追加：2科/4科判定（年間が無い場合は安全側）
+  // ✅ 生徒の時系列（過去の分析分も含む）にマージして、推移は全履歴で見る
+  const studentId: string | null = studentIdInput || yearlyReportJson?.student?.id || null;
+  const studentName: string | null = studentNameInput || yearlyReportJson?.student?.name || null;
+
+  await onStage?.("report");
+  let historyYearly: JukuReportJson | null = yearlyReportJson;
+  let student: StudentRef | null = null;
+
+  if (studentId) {
+    const merged = await mergeIntoStudentTimeline({
+      studentId,
+      studentName,
+      tests: yearlyReportJson?.tests ?? [],
+    });
+    if (merged) {
+      student = merged.student;
+      historyYearly = {
+        docType: "juku_report",
+        student: { id: studentId, name: merged.student.name },
+        meta: yearlyReportJson?.meta ?? { sourceFilename: null, title: null },
+        tests: merged.timeline,
+        notes: yearlyReportJson?.notes ?? [],
+      };
+    } else {
+      warnings.push("生徒の受験履歴の読み書きに失敗したため、推移は今回の年間PDFのみで判定しています。");
+    }
+  } else if (yearlyReportJson) {
+    warnings.push("生徒IDが不明なため、推移は今回の年間PDFのみで判定しています（生徒IDを入力すると過去分と統合されます）。");
+  }
+
+  // ✅ 志望校（student_targets）：公開模試の偏差値との差をレポートに入れる
+  let targets: TargetSchool[] = [];
+  if (studentId) {
+    try {
+      targets = await listStudentTargets(studentId);
+    } catch (e) {
+      console.error("[student_targets list error]", studentId, e);
+      warnings.push("志望校の読み込みに失敗したため、志望校との差はレポートに入っていません。");
+    }
+  }
+
+  // ✅ mistakeSummary：単発の設問別データから A/B/C 集計
+  const mistakeSummary: MistakeSummary = buildMistakeSummary(uploadedSingles.length, singleResults);
+
+  // ✅ 推移 → 2科/4科 → reports（UIにそのまま渡せる / tone・target・focus を反映）
+  // 講師が成績を修正したときは /api/analyses/[id]/recompute がこの段だけやり直す
+  const extractWarnings = [...warnings];
+  const stage = runReportStage({ yearly: historyYearly, analysisMode, mistakeSummary, selections, targets });
+  warnings.push(...stage.warnings);
+
+  const { studentType, isTwoSubjectStudent, trends, reportCase, targetGaps, forecast, subjectTrends, reports } = stage;
+
+  const responseBody = {
+    summary: `単発=${uploadedSingles.length}枚 / 年間=${uploadedYearly ? "あり" : "なし"}`,
+
+    // ✅ 追加（フロントで分岐に使える）
+    analysisMode,
+    studentType,
+    isTwoSubjectStudent,
+    reportCase,
+    warnings,
+    extractWarnings,
+
+    // ✅ 追加：レポート（面談/配布/子ども向け）
+    reports,
+
+    // ✅ 単発ミス分析（A/B/C）
+    mistakeSummary,
+
+    // ✅ 講師の出力設定（UIの「設定：」表示用）
+    selections,
+
+    // ✅ 生徒（時系列に統合した件数など）
+    student,
+
+    // ✅ 志望校との差（志望校が未登録なら null）
+    targetGaps,
+
+    // ✅ 次回の公開模試の見込み（推定値・講師画面のみ表示）
+    forecast,
+
+    // ✅ 科目別の推移・弱点・伸びた科目（公開模試の科目行から）
+    analysis: { yearly: subjectTrends },
+
+    files: { singles: uploadedSingles, yearly: uploadedYearly },
+    ocr: {
+      singles: singleResults,
+      yearly: yearlyOcrText,
+      yearlyError: yearlyOcrError,
+      yearlyReportJson,
+      yearlyReportJsonMeta,
+      // ✅ yearlyReportJson.tests と同じ並びの欄ごとの出どころ・確からしさ
+      yearlyProvenance,
+      yearlyDebug,
+      cache: ocrCache,
+    },
+    yearlyTrends: trends,
+    commentary:
+      uploadedSingles.length === 0
+        ? "単発PDFが未投入です。メイン分析は単発（育成/公開の1回分）を入れると精度が上がります。年間は推移の補助として扱います。"
+        : "単発PDFを元に分析します。",
+  };
+
+  // ✅ 履歴保存（失敗しても分析結果は返す）
+  await onStage?.("save");
+  const analysisId = await saveAnalysis({ teacherId, bucket, baseDir, response: responseBody });
+  if (!analysisId) warnings.push("分析履歴の保存に失敗しました（結果の表示には影響ありません）。");
+
+  return { ...responseBody, analysisId };
+}
+
+export type AnalyzeResult = Awaited<ReturnType<typeof runAnalyzePipeline>>;
+
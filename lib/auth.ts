@@ -0,0 +1,47 @@
+// lib/auth.ts
+import type { User } from "@supabase/supabase-js";
+import { parseRole } from "@/lib/accessPolicy";
+import { createClient } from "@/lib/supabase/server";
+
+export type Role = "teacher" | "parent" | "admin";
+
+export type SessionUser = {
+  user: User;
+  role: Role | null;
+  studentId: string | null; // 保護者のみ（profiles.student_id）
+};
+
+/**
+ * ログインID → Supabase Auth のメールアドレス
+ * - 保護者ログインと同じく「ID@manabu.local」に寄せる（メールアドレスならそのまま）
+ */
+export function loginIdToEmail(loginId: string) {
+  const id = String(loginId ?? "").trim();
+  return id.includes("@") ? id : `${id}@manabu.local`;
+}
+
+/**
+ * 現在のログインユーザーと role（profiles）
+ * - getUser() は Auth サーバーでトークンを検証するので、Cookie を手で作っても通らない
+ * - 未ログイン / セッション切れは null
+ */
+export async function getSessionUser(): Promise<SessionUser | null> {
+  const supabase = await createClient();
+
+  const { data: { user } } = await supabase.auth.getUser();
+  if (!user) return null;
+
+  const { data: profile } = await supabase
+    .from("profiles")
+    .select("role, student_id")
+    .eq("user_id", user.id)
+    .maybeSingle();
+
+  return { user, role: parseRole(profile?.role), studentId: profile?.student_id ?? null };
+}
+
+/** 講師（admin を含む）としてログインしているときだけユーザーを返す */
+export async function getTeacher(): Promise<SessionUser | null> {
+  const session = await getSessionUser();
+  return session?.role === "teacher" || session?.role === "admin" ? session : null;
+}
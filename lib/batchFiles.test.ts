@@ -0,0 +1,98 @@
+// lib/batchFiles.test.ts
+import { strToU8, zipSync } from "fflate";
+import { describe, expect, it } from "vitest";
+import {
+  BatchTooLargeError,
+  MAX_BATCH_TOTAL_BYTES,
+  groupBatchFiles,
+  parseBatchFileName,
+  parseStudentLabel,
+  unzipPdfs,
+  type BatchFile,
+} from "@/lib/batchFiles";
+
+const pdf = (path: string): BatchFile => ({ path, name: path.split("/").pop() ?? path, bytes: strToU8("%PDF-1.4") });
+
+describe("parseStudentLabel", () => {
+  it("先頭が生徒ID、続きが氏名", () => {
+    expect(parseStudentLabel("S123456_山田太郎_年間.pdf")).toEqual({ studentId: "S123456", studentName: "山田太郎" });
+  });
+
+  it("生徒IDが無ければ氏名だけ（種別・回は氏名にしない）", () => {
+    expect(parseStudentLabel("山田太郎_第5回.pdf")).toEqual({ studentId: null, studentName: "山田太郎" });
+    expect(parseStudentLabel("S123456_公開模試3.pdf")).toEqual({ studentId: "S123456", studentName: null });
+  });
+});
+
+describe("parseBatchFileName", () => {
+  it("フォルダ名を優先し、年間/単発はファイル名で分ける", () => {
+    expect(parseBatchFileName("class/S1_佐藤花子/推移.pdf")).toEqual({
+      studentId: "S1",
+      studentName: "佐藤花子",
+      kind: "yearly",
+    });
+    expect(parseBatchFileName("S1_佐藤花子/育成テスト12.pdf").kind).toBe("single");
+  });
+});
+
+describe("groupBatchFiles", () => {
+  it("生徒ID・氏名でまとめ、氏名だけのファイルも生徒IDの束へ寄せる", () => {
+    const { students, skipped } = groupBatchFiles([
+      pdf("S1_佐藤花子_年間.pdf"),
+      pdf("S1_第5回.pdf"),
+      pdf("佐藤花子_第6回.pdf"),
+      pdf("S2_鈴木一郎_年間.pdf"),
+      pdf("田中_年間.pdf"),
+    ]);
+
+    expect(skipped).toEqual([]);
+    expect(students.map((s) => [s.key, s.studentName, s.yearly?.name ?? null, s.singles.length])).toEqual([
+      ["S1", "佐藤花子", "S1_佐藤花子_年間.pdf", 2],
+      ["S2", "鈴木一郎", "S2_鈴木一郎_年間.pdf", 0],
+      ["name:田中", "田中", "田中_年間.pdf", 0],
+    ]);
+  });
+
+  it("読めないファイル名・2枚目の年間PDFは skipped", () => {
+    const { students, skipped } = groupBatchFiles([pdf("S1_年間.pdf"), pdf("S1_推移.pdf"), pdf("年間.pdf")]);
+
+    expect(students).toHaveLength(1);
+    expect(skipped.map((s) => s.name)).toEqual(["S1_推移.pdf", "年間.pdf"]);
+  });
+});
+
+describe("unzipPdfs", () => {
+  it("PDFだけ取り出し、それ以外は skipped（__MACOSX・隠しファイルは黙って捨てる）", () => {
+    const zip = zipSync({
+      "S1_佐藤花子/年間.pdf": strToU8("%PDF-1.4 a"),
+      "S1_佐藤花子/第5回.PDF": strToU8("%PDF-1.4 b"),
+      "メモ.txt": strToU8("memo"),
+      "__MACOSX/S1_佐藤花子/._年間.pdf": strToU8("x"),
+      ".DS_Store": strToU8("x"),
+    });
+
+    const { files, skipped } = unzipPdfs(zip);
+
+    expect(files.map((f) => f.path).sort()).toEqual(["S1_佐藤花子/年間.pdf", "S1_佐藤花子/第5回.PDF"]);
+    expect(files[0].name).not.toContain("/");
+    expect(skipped).toEqual([{ name: "メモ.txt", reason: "PDFではありません" }]);
+
+    const { students } = groupBatchFiles(files);
+    expect(students).toHaveLength(1);
+    expect(students[0].yearly?.name).toBe("年間.pdf");
+    expect(students[0].singles.map((f) => f.name)).toEqual(["第5回.PDF"]);
+  });
+
+  it("1ファイルは上限内でも、展開後の合計が上限を超えたら BatchTooLargeError", () => {
+    // 中身は0埋め（圧縮後は小さい）。同じバッファを使い回してテスト自体のメモリを抑える
+    const perFile = 26 * 1024 * 1024;
+    const body = new Uint8Array(perFile);
+    const count = Math.floor(MAX_BATCH_TOTAL_BYTES / perFile) + 1;
+    const zip = zipSync(
+      Object.fromEntries(Array.from({ length: count }, (_, i) => [`S${i + 1}_年間.pdf`, body])),
+      { level: 1 }
+    );
+
+    expect(() => unzipPdfs(zip)).toThrow(BatchTooLargeError);
+  });
+});
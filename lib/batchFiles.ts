@@ -0,0 +1,150 @@
+// lib/batchFiles.ts
+import { unzipSync } from "fflate";
+
+/**
+ * 一括分析：ZIP / 複数PDF → 生徒ごとのファイル束
+ *
+ * 命名ルール（フォルダ名 or ファイル名の先頭で生徒を判定）
+ * - `生徒ID_氏名_年間.pdf` / `生徒ID_氏名_単発1.pdf`（氏名は省略可）
+ * - `氏名_年間.pdf`（生徒IDが無ければ氏名でまとめる）
+ * - ZIP 内のフォルダ：`生徒ID_氏名/年間.pdf`（フォルダがあればフォルダ名を優先）
+ * - 「年間」「推移」「yearly」を含むものが年間PDF、それ以外は単発PDF
+ */
+
+export type BatchFile = { path: string; name: string; bytes: Uint8Array };
+
+export type BatchStudentGroup = {
+  key: string;
+  studentId: string | null;
+  studentName: string | null;
+  yearly: BatchFile | null;
+  singles: BatchFile[];
+};
+
+export type BatchSkipped = { name: string; reason: string };
+
+export const MAX_BATCH_FILES = 200;
+const MAX_PDF_BYTES = 30 * 1024 * 1024;
+/** 1回の一括分析の展開後の合計（1ファイル30MBまででも、200ファイルだと6GBになる） */
+export const MAX_BATCH_TOTAL_BYTES = 200 * 1024 * 1024;
+export const BATCH_TOTAL_LIMIT_MESSAGE = `PDFの合計が大きすぎます（展開後${MAX_BATCH_TOTAL_BYTES / 1024 / 1024}MBまで）。何回かに分けてください。`;
+
+/** 展開後の合計が MAX_BATCH_TOTAL_BYTES を超えた（一括分析ごと受け付けない） */
+export class BatchTooLargeError extends Error {
+  constructor() {
+    super(BATCH_TOTAL_LIMIT_MESSAGE);
+    this.name = "BatchTooLargeError";
+  }
+}
+
+const YEARLY_RE = /(年間|推移|yearly|nenkan)/i;
+// 氏名として拾わない語（種別・テスト名）
+const KEYWORD_RE = /^((年間|推移|単発|yearly|single|tanpatsu|成績表?|育成(テスト)?|公開(模試)?|模試|テスト)\d*|\d+|第\d+回)$/i;
+const STUDENT_ID_RE = /^[A-Za-z]*\d[A-Za-z0-9-]*$/;
+
+function baseName(path: string) {
+  return path.split("/").pop() ?? path;
+}
+
+function isPdf(path: string) {
+  return /\.pdf$/i.test(path);
+}
+
+/**
+ * ZIP から PDF だけ取り出す（フォルダ・隠しファイル・__MACOSX は読まない）
+ * - 展開前に宣言サイズの合計を数え、MAX_BATCH_TOTAL_BYTES を超えたら BatchTooLargeError（それ以上は展開しない）
+ */
+export function unzipPdfs(zip: Uint8Array): { files: BatchFile[]; skipped: BatchSkipped[] } {
+  const skipped: BatchSkipped[] = [];
+  let count = 0;
+  let totalBytes = 0;
+
+  const entries = unzipSync(zip, {
+    filter: (f) => {
+      const name = baseName(f.name);
+      if (f.name.endsWith("/") || f.name.startsWith("__MACOSX/") || name.startsWith(".")) return false;
+      if (!isPdf(f.name)) {
+        skipped.push({ name: f.name, reason: "PDFではありません" });
+        return false;
+      }
+      if (f.originalSize > MAX_PDF_BYTES) {
+        skipped.push({ name: f.name, reason: "ファイルが大きすぎます（30MBまで）" });
+        return false;
+      }
+      if (++count > MAX_BATCH_FILES) {
+        skipped.push({ name: f.name, reason: `1回に読めるのは${MAX_BATCH_FILES}ファイルまでです` });
+        return false;
+      }
+      totalBytes += f.originalSize;
+      if (totalBytes > MAX_BATCH_TOTAL_BYTES) throw new BatchTooLargeError();
+      return true;
+    },
+  });
+
+  const files = Object.entries(entries).map(([path, bytes]) => ({ path, name: baseName(path), bytes }));
+  return { files, skipped };
+}
+
+/** 「生徒ID_氏名_…」から生徒ID・氏名を読む */
+export function parseStudentLabel(label: string): { studentId: string | null; studentName: string | null } {
+  const tokens = label
+    .replace(/\.pdf$/i, "")
+    .split(/[_\s　]+/)
+    .filter(Boolean);
+
+  const studentId = tokens.length > 0 && STUDENT_ID_RE.test(tokens[0]) ? tokens[0] : null;
+  const rest = studentId ? tokens.slice(1) : tokens;
+  const studentName = rest.find((t) => !KEYWORD_RE.test(t) && !YEARLY_RE.test(t)) ?? null;
+
+  return { studentId, studentName };
+}
+
+export function parseBatchFileName(path: string) {
+  const segments = path.split("/").filter(Boolean);
+  const file = segments[segments.length - 1] ?? path;
+  const folder = segments.length > 1 ? segments[segments.length - 2] : null;
+
+  const fromFolder = folder ? parseStudentLabel(folder) : null;
+  const who = fromFolder && (fromFolder.studentId || fromFolder.studentName) ? fromFolder : parseStudentLabel(file);
+
+  return { ...who, kind: YEARLY_RE.test(file) ? ("yearly" as const) : ("single" as const) };
+}
+
+/**
+ * ファイルを生徒ごとにまとめる
+ * - 生徒IDがあれば生徒ID、無ければ氏名でまとめる（同じ氏名で生徒IDつきの束があればそちらへ）
+ * - 年間PDFは1人1枚（2枚目以降は skipped）
+ */
+export function groupBatchFiles(files: BatchFile[]): { students: BatchStudentGroup[]; skipped: BatchSkipped[] } {
+  const skipped: BatchSkipped[] = [];
+  const parsed = files.map((f) => ({ f, ...parseBatchFileName(f.path) }));
+
+  // 氏名 → 生徒ID（生徒IDつきのファイルから）
+  const idByName = new Map<string, string>();
+  for (const p of parsed) {
+    if (p.studentId && p.studentName && !idByName.has(p.studentName)) idByName.set(p.studentName, p.studentId);
+  }
+
+  const groups = new Map<string, BatchStudentGroup>();
+  for (const p of parsed) {
+    const studentId = p.studentId ?? (p.studentName ? idByName.get(p.studentName) ?? null : null);
+    if (!studentId && !p.studentName) {
+      skipped.push({ name: p.f.path, reason: "ファイル名から生徒ID・氏名を読み取れません" });
+      continue;
+    }
+
+    const key = studentId ?? `name:${p.studentName}`;
+    const g = groups.get(key) ?? { key, studentId, studentName: null, yearly: null, singles: [] };
+    g.studentName = g.studentName ?? p.studentName;
+
+    if (p.kind === "yearly") {
+      if (g.yearly) skipped.push({ name: p.f.path, reason: `年間PDFが複数あります（${g.yearly.name} を使用）` });
+      else g.yearly = p.f;
+    } else {
+      g.singles.push(p.f);
+    }
+    groups.set(key, g);
+  }
+
+  return { students: [...groups.values()], skipped };
+}
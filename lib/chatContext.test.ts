@@ -0,0 +1,72 @@
+// lib/chatContext.test.ts
+import { describe, expect, it } from "vitest";
+import { buildChatMessages, estimateTokens, trimHistoryToBudget, type ChatTurn } from "@/lib/chatContext";
+
+const user = (content: string): ChatTurn => ({ role: "user", content });
+const assistant = (content: string): ChatTurn => ({ role: "assistant", content });
+
+describe("estimateTokens", () => {
+  it("日本語は1文字1、英数字は4文字で1（+4のオーバーヘッド）", () => {
+    expect(estimateTokens("あいう")).toBe(7);
+    expect(estimateTokens("abcd")).toBe(5);
+    expect(estimateTokens("")).toBe(4);
+  });
+});
+
+describe("trimHistoryToBudget", () => {
+  it("履歴が空なら何も残さず、何も要約に回さない", () => {
+    expect(trimHistoryToBudget([], 100)).toEqual({ kept: [], dropped: [], usedTokens: 0 });
+  });
+
+  it("予算ちょうどまでは新しい方から残し、あふれた古い側は dropped", () => {
+    // 1ターン = 6文字 + 4 = 10
+    const history = [user("ああああああ"), assistant("いいいいいい"), user("うううううう")];
+
+    expect(trimHistoryToBudget(history, 20)).toEqual({
+      kept: history.slice(1),
+      dropped: history.slice(0, 1),
+      usedTokens: 20,
+    });
+    expect(trimHistoryToBudget(history, 30).dropped).toEqual([]);
+  });
+
+  it("最新の1ターンだけで予算を超えても、それは残して古い側は全部 dropped", () => {
+    const long = user("あ".repeat(50));
+    const history = [user("短い"), assistant("はい"), long];
+    const r = trimHistoryToBudget(history, 10);
+
+    expect(r.kept).toEqual([long]);
+    expect(r.dropped).toEqual(history.slice(0, 2));
+    expect(r.usedTokens).toBe(54);
+  });
+});
+
+describe("buildChatMessages", () => {
+  const base = { systemPrompt: "SYS", studentContext: null, summary: null, kept: [], message: "今回" };
+
+  it("要約は生徒データの後・直近ターンの前に system で入れる", () => {
+    const messages = buildChatMessages({
+      ...base,
+      studentContext: "【生徒データ】",
+      summary: "・算数の割合が苦手",
+      kept: [user("前回"), assistant("前回の返答")],
+    });
+
+    expect(messages).toEqual([
+      { role: "system", content: "SYS" },
+      { role: "system", content: "【生徒データ】" },
+      { role: "system", content: "【これまでの相談の要約】\n・算数の割合が苦手" },
+      { role: "user", content: "前回" },
+      { role: "assistant", content: "前回の返答" },
+      { role: "user", content: "今回" },
+    ]);
+  });
+
+  it("要約・生徒データが無ければ入れない", () => {
+    expect(buildChatMessages(base)).toEqual([
+      { role: "system", content: "SYS" },
+      { role: "user", content: "今回" },
+    ]);
+    expect(buildChatMessages({ ...base, summary: "" })).toHaveLength(2);
+  });
+});
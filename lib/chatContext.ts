@@ -0,0 +1,59 @@
+// lib/chatContext.ts
+import type { LlmMessage } from "@/lib/llm/types";
+
+export type ChatTurn = { role: "user" | "assistant"; content: string };
+
+/**
+ * ざっくりトークン数
+ * - 日本語はほぼ1文字≒1トークン、英数字は4文字≒1トークンとして見積もる（安全側）
+ */
+export function estimateTokens(text: string) {
+  let n = 0;
+  for (const ch of String(text ?? "")) n += ch.charCodeAt(0) < 0x80 ? 0.25 : 1;
+  return Math.ceil(n) + 4; // role などのオーバーヘッド
+}
+
+/**
+ * 予算内に収まるよう「新しい方から」ターンを残す
+ * - 返り値 dropped は古い側であふれたターン（要約に回す）
+ * - 最新の1ターンは予算を超えても必ず残す
+ */
+export function trimHistoryToBudget(history: ChatTurn[], budgetTokens: number) {
+  let used = 0;
+  let start = history.length;
+
+  for (let i = history.length - 1; i >= 0; i--) {
+    const cost = estimateTokens(history[i].content);
+    if (start < history.length && used + cost > budgetTokens) break;
+    used += cost;
+    start = i;
+  }
+
+  return { kept: history.slice(start), dropped: history.slice(0, start), usedTokens: used };
+}
+
+/** 要約プロンプト用にターンを書き起こす */
+export function formatTurnsForSummary(turns: ChatTurn[]) {
+  return turns.map((t) => `${t.role === "user" ? "相談者" : "まなぶ先生"}：${t.content}`).join("\n");
+}
+
+/**
+ * LLM に送るメッセージ：システム → 生徒の実データ → これまでの要約 → 予算内の直近ターン → 今回
+ * - 生徒データ・要約は無ければ入れない
+ */
+export function buildChatMessages(params: {
+  systemPrompt: string;
+  studentContext: string | null;
+  summary: string | null;
+  kept: ChatTurn[];
+  message: string;
+}): LlmMessage[] {
+  const { systemPrompt, studentContext, summary, kept, message } = params;
+  return [
+    { role: "system", content: systemPrompt },
+    ...(studentContext ? [{ role: "system" as const, content: studentContext }] : []),
+    ...(summary ? [{ role: "system" as const, content: `【これまでの相談の要約】\n${summary}` }] : []),
+    ...kept.map((t) => ({ role: t.role, content: t.content })),
+    { role: "user", content: message },
+  ];
+}
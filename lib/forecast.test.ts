@@ -0,0 +1,88 @@
+// lib/forecast.test.ts
+import { describe, expect, it } from "vitest";
+import { forecastNextKokai } from "@/lib/forecast";
+import type { JukuReportJson, JukuTest } from "@/lib/jukuReportSchema";
+import { runReportStage } from "@/lib/reportStage";
+
+const four = (values: number[]) => ({ scale: "four" as const, values });
+
+function kokaiTest(date: string, fourDev: number | null, twoDev: number | null): JukuTest {
+  return {
+    testType: "kokai_moshi",
+    testName: null,
+    date,
+    subjects: [],
+    totals: {
+      two: { score: twoDev == null ? null : 150, deviation: twoDev, rank: null, grade: null },
+      four: { score: fourDev == null ? null : 300, deviation: fourDev, rank: null, grade: null },
+    },
+    notes: [],
+  };
+}
+
+describe("forecastNextKokai", () => {
+  it("直近の平均 + 傾き（半分）で見込み、ぶれが小さければ幅は最低限", () => {
+    const f = forecastNextKokai({ kokai: four([50, 52, 54, 56, 58, 60]), ikuseiGrades: [] });
+
+    expect(f).toMatchObject({
+      predicted: 60,
+      low: 58,
+      high: 62,
+      confidence: "high",
+      scale: "four",
+      basedOn: 6,
+      components: { level: 58, trend: 2, ikusei: 0, spread: 2 },
+    });
+  });
+
+  it("1回だけなら、その値を中心に広めの幅・確からしさ low", () => {
+    const f = forecastNextKokai({ kokai: four([55]), ikuseiGrades: [] });
+
+    expect(f).toMatchObject({ predicted: 55, low: 49.3, high: 60.7, confidence: "low" });
+    expect(f?.drivers).toContain("公開模試が3回未満のため、傾きは見込みに入れていません");
+  });
+
+  it("育成の評価が上向きなら先行指標として上乗せ（上限つき）", () => {
+    const f = forecastNextKokai({ kokai: four([54, 54, 54]), ikuseiGrades: [5, 6, 7, 8] });
+
+    expect(f?.components).toMatchObject({ trend: 0, ikusei: 1.5 });
+    expect(f?.predicted).toBe(55.5);
+    expect(f?.drivers.some((d) => d.startsWith("育成テストの評価が直近4回で+3.0段階"))).toBe(true);
+  });
+
+  it("波が大きいほど幅が広がる", () => {
+    const calm = forecastNextKokai({ kokai: four([50, 51, 50, 51, 50, 51]), ikuseiGrades: [] })!;
+    const wild = forecastNextKokai({ kokai: four([44, 58, 46, 57, 45, 56]), ikuseiGrades: [] })!;
+
+    expect(wild.high - wild.low).toBeGreaterThan(calm.high - calm.low);
+    expect(wild.confidence).not.toBe("high");
+  });
+
+  it("公開模試が無ければ null", () => {
+    expect(forecastNextKokai({ kokai: four([]), ikuseiGrades: [6, 7] })).toBeNull();
+  });
+
+  it("4科が無い回の2科偏差は混ぜない（runReportStage は志望校との差と同じ1系列を渡す）", () => {
+    const yearly: JukuReportJson = {
+      docType: "juku_report",
+      student: { name: null, id: null },
+      meta: { sourceFilename: null, title: null },
+      tests: [
+        kokaiTest("2026-04-19", 50, 53),
+        kokaiTest("2026-05-24", 51, 54),
+        kokaiTest("2026-06-21", null, 66),
+        kokaiTest("2026-07-12", 52, 55),
+      ],
+      notes: [],
+    };
+    const { forecast } = runReportStage({
+      yearly,
+      analysisMode: "yearly-only",
+      mistakeSummary: { status: "no-single", message: "" },
+      selections: { tone: "balanced", target: "teacher", focus: [] },
+    });
+
+    expect(forecast).toMatchObject({ scale: "four", basedOn: 3, components: { level: 51 } });
+    expect(forecast?.drivers[0]).toBe("直近3回の平均（4科） 51");
+  });
+});
@@ -0,0 +1,113 @@
+// lib/forecast.ts
+import { TARGET_SCALE_LABELS, type TargetScale, type TargetSeries } from "@/lib/targetSchools";
+import { MOVING_AVERAGE_WINDOW, computeTrendStats, isConfident, type TrendConfidence } from "@/lib/trendStats";
+
+/**
+ * 次回の公開模試の偏差値の見込み（講師画面のみ・推定値）
+ * - 外部のモデルは使わない：直近の平均 + 傾き（半分だけ）+ 育成の評価の動き（先行指標）
+ * - 幅は過去の上下のぶれから。回数が少ないほど広げる
+ * - 偏差値は1系列だけ（4科、2科目生は2科）。4科が無い回を2科で埋めると傾き・幅が別物の差を拾う
+ * - reports には入れない（保護者向けの文面・画面には出さない）。保存も analyses.forecast に分ける（response には入れない）
+ */
+
+export type KokaiForecast = {
+  predicted: number;
+  low: number;
+  high: number;
+  confidence: TrendConfidence;
+  scale: TargetScale; // どちらの偏差値で見込んだか
+  basedOn: number; // 使った公開模試の回数
+  components: {
+    level: number; // 直近の平均
+    trend: number; // 傾きの分
+    ikusei: number; // 育成の動きの分
+    spread: number; // ± の幅
+  };
+  drivers: string[]; // 見込みの根拠（1行ずつ）
+};
+
+/** 傾きはそのまま伸ばすと外れやすいので半分だけ */
+const TREND_DAMPING = 0.5;
+const MAX_TREND_ADJUSTMENT = 3;
+/** 育成の評価1段階の変化 → 偏差値への上乗せ（上限つき） */
+const IKUSEI_WEIGHT = 1;
+const MAX_IKUSEI_ADJUSTMENT = 1.5;
+/** ぶれが測れないとき（3回未満）の幅 / 最低限の幅 */
+const DEFAULT_SPREAD = 4;
+const MIN_SPREAD = 2;
+const DEVIATION_RANGE = { min: 25, max: 75 };
+
+function round1(v: number) {
+  return Math.round(v * 10) / 10;
+}
+
+function clamp(v: number, min: number, max: number) {
+  return Math.min(max, Math.max(min, v));
+}
+
+function signed(v: number) {
+  if (v === 0) return "±0";
+  return v > 0 ? `+${v.toFixed(1)}` : `−${Math.abs(v).toFixed(1)}`;
+}
+
+/**
+ * kokai：公開模試の偏差値の1系列（pickTargetSeries・古い順）/ ikuseiGrades：育成の評価（古い順・無ければ空）
+ * - 公開模試が1回も無ければ null
+ */
+export function forecastNextKokai(params: { kokai: TargetSeries; ikuseiGrades: number[] }): KokaiForecast | null {
+  const values = params.kokai.values.filter((v) => Number.isFinite(v));
+  const n = values.length;
+  if (n === 0) return null;
+
+  const drivers: string[] = [];
+  const stats = computeTrendStats(values, 3);
+
+  // ① 直近の平均（移動平均と同じ幅）
+  const k = Math.min(MOVING_AVERAGE_WINDOW, n);
+  const recent = values.slice(-k);
+  const level = recent.reduce((a, b) => a + b, 0) / k;
+  drivers.push(`直近${k}回の平均（${TARGET_SCALE_LABELS[params.kokai.scale]}） ${round1(level)}`);
+
+  // ② 傾き：平均の中心（(k−1)/2 回前）から次回までの距離ぶん、半分だけ伸ばす
+  let trend = 0;
+  const slope = n >= 3 ? stats.regression.slope : null;
+  if (slope != null) {
+    const steps = (k + 1) / 2;
+    trend = round1(clamp(slope * steps * TREND_DAMPING, -MAX_TREND_ADJUSTMENT, MAX_TREND_ADJUSTMENT));
+    drivers.push(`${n}回分の傾き 1回あたり${signed(round1(slope))} → 半分だけ見込んで ${signed(trend)}`);
+  } else {
+    drivers.push("公開模試が3回未満のため、傾きは見込みに入れていません");
+  }
+
+  // ③ 育成の評価の直近の動き（範囲の定着度は公開模試より先に動きやすい）
+  let ikusei = 0;
+  const ik = computeTrendStats(params.ikuseiGrades, 1);
+  if (ik.recent.change != null && ik.recent.trend !== "unknown" && isConfident(ik.recent.confidence)) {
+    ikusei = round1(clamp(ik.recent.change * IKUSEI_WEIGHT * TREND_DAMPING, -MAX_IKUSEI_ADJUSTMENT, MAX_IKUSEI_ADJUSTMENT));
+    if (ikusei !== 0) {
+      drivers.push(`育成テストの評価が直近${ik.recent.n}回で${signed(ik.recent.change)}段階 → ${signed(ikusei)}`);
+    }
+  }
+
+  // ④ 幅：回帰直線からのぶれ（3回は標準偏差、3回未満は既定値）。回数が少ないほど広げる
+  const resid = n >= 4 ? stats.spread.residualStdev : n === 3 ? stats.spread.stdev : null;
+  const spread = round1(Math.max(MIN_SPREAD, (resid ?? DEFAULT_SPREAD) * Math.sqrt(1 + 1 / k)));
+  drivers.push(
+    resid != null ? `過去のぶれ（標準偏差 ${round1(resid)}）から幅 ±${spread}` : `回数が少ないため幅は広め（±${spread}）`
+  );
+
+  const predicted = round1(clamp(level + trend + ikusei, DEVIATION_RANGE.min, DEVIATION_RANGE.max));
+
+  const confidence: TrendConfidence = n >= 6 && spread <= 3 ? "high" : n >= 3 ? "medium" : "low";
+
+  return {
+    predicted,
+    low: round1(clamp(predicted - spread, DEVIATION_RANGE.min, DEVIATION_RANGE.max)),
+    high: round1(clamp(predicted + spread, DEVIATION_RANGE.min, DEVIATION_RANGE.max)),
+    confidence,
+    scale: params.kokai.scale,
+    basedOn: n,
+    components: { level: round1(level), trend, ikusei, spread },
+    drivers,
+  };
+}
@@ -0,0 +1,92 @@
+// lib/jukuReportSchema.test.ts
+import { describe, expect, it } from "vitest";
+import { JUKU_REPORT_TEXT_FORMAT, checkRange, validateJukuReport } from "@/lib/jukuReportSchema";
+
+function test(overrides: Record<string, unknown> = {}) {
+  return {
+    testType: "kokai_moshi",
+    testName: "第1回公開模試",
+    date: "2026-04-26",
+    subjects: [],
+    totals: {
+      two: { score: 172, deviation: 50.8, rank: null, grade: null },
+      four: { score: 298, deviation: 51.2, rank: null, grade: null },
+    },
+    notes: [],
+    ...overrides,
+  };
+}
+
+function report(tests: unknown[]) {
+  return {
+    docType: "juku_report",
+    student: { name: null, id: null },
+    meta: { sourceFilename: "x.pdf", title: null },
+    tests,
+    notes: [],
+  };
+}
+
+describe("JUKU_REPORT_TEXT_FORMAT", () => {
+  it("tests の中身まで strict な JSON Schema になっている", () => {
+    const schema = JUKU_REPORT_TEXT_FORMAT.schema as {
+      properties: { tests: { items: { required: string[]; additionalProperties: boolean } } };
+    };
+    expect(JUKU_REPORT_TEXT_FORMAT.strict).toBe(true);
+    expect(schema.properties.tests.items.additionalProperties).toBe(false);
+    expect(schema.properties.tests.items.required).toEqual(
+      expect.arrayContaining(["testType", "testName", "date", "subjects", "totals", "notes"])
+    );
+  });
+});
+
+describe("validateJukuReport", () => {
+  it("正しい形ならそのまま・warnings なし", () => {
+    const { report: r, warnings } = validateJukuReport(report([test()]));
+    expect(r?.tests).toHaveLength(1);
+    expect(warnings).toEqual([]);
+  });
+
+  it("欄の型違いはその欄だけ null にして、場所つきで warnings に残す", () => {
+    const bad = test({
+      totals: {
+        two: { score: "172", deviation: "abc", rank: null, grade: null },
+        four: { score: 298, deviation: 51.2, rank: null, grade: null },
+      },
+    });
+    const { report: r, warnings } = validateJukuReport(report([bad]));
+
+    expect(r?.tests[0].totals.two).toMatchObject({ score: 172, deviation: null });
+    expect(warnings).toHaveLength(2);
+    expect(warnings[0]).toContain("tests[0].totals.two.score");
+    expect(warnings[1]).toContain("tests[0].totals.two.deviation");
+  });
+
+  it("構造が壊れたテストは除外し、他のテストは残す", () => {
+    const { report: r, warnings } = validateJukuReport(report([test({ totals: null }), test({ testName: "第2回公開模試" })]));
+    expect(r?.tests.map((t) => t.testName)).toEqual(["第2回公開模試"]);
+    expect(warnings.some((w) => w.includes("tests[0].totals") && w.includes("除外"))).toBe(true);
+  });
+
+  it("全体の形が違えば report: null", () => {
+    const { report: r, warnings } = validateJukuReport({ docType: "juku_report", tests: "none" });
+    expect(r).toBeNull();
+    expect(warnings.length).toBeGreaterThan(0);
+  });
+
+  it("入力そのものは書き換えない", () => {
+    const input = report([test({ testName: 123 })]);
+    validateJukuReport(input);
+    expect((input.tests[0] as { testName: unknown }).testName).toBe(123);
+  });
+});
+
+describe("checkRange", () => {
+  it("範囲外は null + 理由を warnings に", () => {
+    const warnings: string[] = [];
+    expect(checkRange(95, 10, 90, "第1回公開模試 4科偏差", warnings)).toBeNull();
+    expect(checkRange(51.2, 10, 90, "第1回公開模試 4科偏差", warnings)).toBe(51.2);
+    expect(checkRange(null, 10, 90, "x", warnings)).toBeNull();
+    expect(warnings).toEqual(["第1回公開模試 4科偏差: 95 は範囲外（10〜90）のため null"]);
+  });
+});
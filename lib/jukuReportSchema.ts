@@ -0,0 +1,204 @@
+// lib/jukuReportSchema.ts
+import { zodTextFormat } from "openai/helpers/zod";
+import { z } from "zod";
+
+// 検証メッセージ（warnings に出る）を日本語に
+z.config(z.locales.ja());
+
+/**
+ * 成績JSON（JukuReportJson）のスキーマ：ここが唯一の定義
+ * - モデルの構造化出力（JUKU_REPORT_TEXT_FORMAT）と、受け取った値の実行時チェック（validateJukuReport）の両方で使う
+ * - 値の範囲（得点0〜500 など）は種別で変わるので、ここでは型だけを縛り、範囲は checkRange で警告付きにする
+ */
+const NullableNumber = z.number().nullable();
+
+export const TotalsSideSchema = z.object({
+  score: NullableNumber,
+  deviation: NullableNumber,
+  rank: NullableNumber,
+  grade: NullableNumber,
+});
+
+export const SubjectSchema = z.object({
+  name: z.string().nullable(),
+  score: NullableNumber,
+  deviation: NullableNumber,
+  rank: NullableNumber,
+});
+
+export const TestSchema = z.object({
+  testType: z.enum(["ikusei", "kokai_moshi", "other"]),
+  testName: z.string().nullable(),
+  date: z.string().nullable().describe("YYYY-MM-DD（日が無ければ01）"),
+  subjects: z.array(SubjectSchema),
+  totals: z.object({
+    two: TotalsSideSchema,
+    four: TotalsSideSchema,
+  }),
+  notes: z.array(z.string()),
+});
+
+export const JukuReportSchema = z.object({
+  docType: z.literal("juku_report"),
+  student: z.object({
+    name: z.string().nullable(),
+    id: z.string().nullable(),
+  }),
+  meta: z.object({
+    sourceFilename: z.string().nullable(),
+    title: z.string().nullable(),
+  }),
+  tests: z.array(TestSchema),
+  notes: z.array(z.string()),
+});
+
+export type JukuReportJson = z.infer<typeof JukuReportSchema>;
+export type JukuTest = z.infer<typeof TestSchema>;
+export type JukuSubject = z.infer<typeof SubjectSchema>;
+export type TotalsSide = z.infer<typeof TotalsSideSchema>;
+
+/** Responses API の text.format（strict な json_schema） */
+export const JUKU_REPORT_TEXT_FORMAT = zodTextFormat(JukuReportSchema, "juku_report_json");
+
+/* =========================
+   Runtime validation
+========================= */
+function pathLabel(path: PropertyKey[]) {
+  return path.reduce<string>((acc, k) => (typeof k === "number" ? `${acc}[${k}]` : acc ? `${acc}.${String(k)}` : String(k)), "");
+}
+
+function preview(v: unknown) {
+  const s = JSON.stringify(v);
+  return s === undefined ? "undefined" : s.length > 30 ? `${s.slice(0, 30)}…` : s;
+}
+
+function getAt(obj: unknown, path: PropertyKey[]): unknown {
+  let cur: unknown = obj;
+  for (const k of path) {
+    if (cur == null || typeof cur !== "object") return undefined;
+    cur = (cur as Record<PropertyKey, unknown>)[k];
+  }
+  return cur;
+}
+
+function setAt(obj: unknown, path: PropertyKey[], value: unknown) {
+  let cur: unknown = obj;
+  for (const k of path.slice(0, -1)) {
+    if (cur == null || typeof cur !== "object") return false;
+    cur = (cur as Record<PropertyKey, unknown>)[k];
+  }
+  if (cur == null || typeof cur !== "object") return false;
+  (cur as Record<PropertyKey, unknown>)[path[path.length - 1]] = value;
+  return true;
+}
+
+/** null にしてよい葉（数値・文字列の欄）か */
+function isNullableLeaf(path: PropertyKey[]) {
+  const last = path[path.length - 1];
+  return (
+    typeof last === "string" &&
+    ["score", "deviation", "rank", "grade", "name", "id", "testName", "date", "sourceFilename", "title"].includes(last)
+  );
+}
+
+/** tests[i] の欄を直したときの記録（i は返した report.tests の並び / field は "date" や "four.score"） */
+export type ValidationFix = { test: number; field: string; kind: "coerced" | "nulled"; value: unknown };
+
+function testFieldOf(path: PropertyKey[]): { test: number; field: string } | null {
+  if (path[0] !== "tests" || typeof path[1] !== "number") return null;
+  if (path[2] === "date") return { test: path[1], field: "date" };
+  if (path[2] === "totals" && typeof path[3] === "string" && typeof path[4] === "string") {
+    return { test: path[1], field: `${path[3]}.${path[4]}` };
+  }
+  return null;
+}
+
+/**
+ * 受け取った値をスキーマで検証
+ * - 欄単位の型違い（"abc" や 数値の文字列）は、その欄だけ null にして warnings に「どこが何だったか」を残す
+ * - テスト1件の構造が壊れていればそのテストだけ落とす（warnings に残す）
+ * - 全体の形が違えば report: null
+ * - fixes は tests の欄に入れた手直し（provenance 用）
+ */
+export function validateJukuReport(raw: unknown): {
+  report: JukuReportJson | null;
+  warnings: string[];
+  fixes: ValidationFix[];
+} {
+  const warnings: string[] = [];
+  let fixes: ValidationFix[] = [];
+  const data: unknown = raw && typeof raw === "object" ? structuredClone(raw) : raw;
+
+  // ① 欄単位：型違いは null に落として記録（数字の文字列は数値に直す）
+  const first = JukuReportSchema.safeParse(data);
+  if (first.success) return { report: first.data, warnings, fixes };
+
+  const brokenTests = new Set<number>();
+  for (const issue of first.error.issues) {
+    const { path } = issue;
+    const label = pathLabel(path);
+    const value = getAt(data, path);
+
+    if (isNullableLeaf(path)) {
+      const asNumber = typeof value === "string" && /^\s*-?\d+(\.\d+)?\s*$/.test(value) ? Number(value) : null;
+      const expectsNumber = issue.code === "invalid_type" && issue.expected === "number";
+      const at = testFieldOf(path);
+      if (expectsNumber && asNumber != null) {
+        setAt(data, path, asNumber);
+        warnings.push(`${label}: 文字列 ${preview(value)} を数値に変換`);
+        if (at) fixes.push({ ...at, kind: "coerced", value });
+      } else {
+        setAt(data, path, null);
+        warnings.push(`${label}: ${preview(value)} は不正な値のため null（${issue.message}）`);
+        if (at) fixes.push({ ...at, kind: "nulled", value });
+      }
+      continue;
+    }
+
+    if (path[0] === "tests" && typeof path[1] === "number") {
+      brokenTests.add(path[1]);
+      warnings.push(`${label}: ${issue.message}（このテストは除外）`);
+      continue;
+    }
+
+    warnings.push(`${label || "(root)"}: ${issue.message}`);
+  }
+
+  // ② 構造が壊れたテストを除外して再検証
+  if (brokenTests.size > 0 && data && typeof data === "object" && Array.isArray((data as { tests?: unknown }).tests)) {
+    const d = data as { tests: unknown[] };
+    d.tests = d.tests.filter((_, i) => !brokenTests.has(i));
+
+    // 除外したぶん fixes の添字を詰める
+    const dropped = [...brokenTests];
+    fixes = fixes
+      .filter((f) => !brokenTests.has(f.test))
+      .map((f) => ({ ...f, test: f.test - dropped.filter((i) => i < f.test).length }));
+  }
+
+  const second = JukuReportSchema.safeParse(data);
+  if (second.success) return { report: second.data, warnings, fixes };
+
+  for (const issue of second.error.issues) {
+    warnings.push(`${pathLabel(issue.path) || "(root)"}: ${issue.message}`);
+  }
+  return { report: null, warnings, fixes: [] };
+}
+
+/**
+ * 範囲チェック：範囲外は null にして理由を warnings に残す（黙って消さない）
+ */
+export function checkRange(
+  value: number | null,
+  min: number,
+  max: number,
+  label: string,
+  warnings: string[]
+): number | null {
+  if (value == null) return null;
+  if (value < min || value > max) {
+    warnings.push(`${label}: ${value} は範囲外（${min}〜${max}）のため null`);
+    return null;
+  }
+  return value;
+}
@@ -0,0 +1,81 @@
+// lib/llm/index.test.ts
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { validateJukuReport } from "@/lib/jukuReportSchema";
+import type { LlmProvider } from "@/lib/llm";
+import { buildYearlyFromOcrTextAuto } from "@/lib/yearlyParser";
+
+/**
+ * LLM_PROVIDER=stub で getLlmProvider() を通し、ネットワークなしで
+ * OCR → 年間パーサ / 構造化抽出 → スキーマ検証 / チャット が通ることを確かめる（fixtures/llm）
+ */
+async function stubProvider(): Promise<LlmProvider> {
+  vi.stubEnv("LLM_PROVIDER", "stub");
+  vi.resetModules(); // getLlmProvider はプロバイダをキャッシュする
+  const { getLlmProvider } = await import("@/lib/llm");
+  return getLlmProvider();
+}
+
+const pdf = Buffer.from("%PDF-1.4 stub");
+
+describe("getLlmProvider (stub)", () => {
+  let llm: LlmProvider;
+
+  beforeEach(async () => {
+    llm = await stubProvider();
+  });
+
+  afterEach(() => {
+    vi.unstubAllEnvs();
+  });
+
+  it("設定で stub が選ばれる", () => {
+    expect(llm.name).toBe("stub");
+  });
+
+  it("OCR（ocr/default.txt）→ 年間パーサで育成・公開を読める", async () => {
+    const text = await llm.ocrPdf({ pdf, filename: "yearly.pdf", prompt: "" });
+    const { yearly } = buildYearlyFromOcrTextAuto(text, "yearly.pdf");
+
+    expect(yearly.tests.map((t) => t.testType)).toEqual([
+      "ikusei",
+      "kokai_moshi",
+      "ikusei",
+      "kokai_moshi",
+      "ikusei",
+      "kokai_moshi",
+      "ikusei",
+      "kokai_moshi",
+    ]);
+    expect(yearly.tests.at(-1)?.totals.four).toMatchObject({ score: 331, deviation: 55.3 });
+  });
+
+  it("構造化抽出（json/default.json）はスキーマを通り、OCR と同じ成績", async () => {
+    const out = await llm.extractJson({
+      pdf,
+      filename: "yearly.pdf",
+      system: "",
+      prompt: "",
+      format: { name: "juku_report", schema: {} },
+    });
+    const { report, warnings } = validateJukuReport(JSON.parse(out));
+
+    expect(warnings).toEqual([]);
+    expect(report?.tests).toHaveLength(8);
+    expect(report?.tests.filter((t) => t.testType === "kokai_moshi").map((t) => t.totals.four.deviation)).toEqual([
+      51.2, 52.6, 54, 55.3,
+    ]);
+  });
+
+  it("チャット（chat/default.txt）は最後のユーザー発言を差し込み、ストリームも同じ全文", async () => {
+    const messages = [
+      { role: "system" as const, content: "sys" },
+      { role: "user" as const, content: "算数のケアレスミスが多いです" },
+    ];
+    const full = await llm.chat(messages);
+
+    expect(full).toContain("ご相談内容：算数のケアレスミスが多いです");
+    let streamed = "";
+    for await (const part of llm.chatStream(messages)) streamed += part;
+    expect(streamed.trim()).toBe(full);
+  });
+});
@@ -0,0 +1,23 @@
+// lib/llm/index.ts
+import { createOpenAiProvider } from "@/lib/llm/openai";
+import { createStubProvider } from "@/lib/llm/stub";
+import type { LlmProvider } from "@/lib/llm/types";
+
+export type { JsonSchemaFormat, LlmMessage, LlmProvider } from "@/lib/llm/types";
+
+const DEFAULT_MODEL = "gpt-4.1-mini";
+
+let cached: LlmProvider | null = null;
+
+/**
+ * 設定で選ぶ LLM プロバイダ
+ * - LLM_PROVIDER=openai（既定）| stub
+ * - LLM_MODEL で OpenAI のモデル名を上書き（既定 gpt-4.1-mini）
+ */
+export function getLlmProvider(): LlmProvider {
+  if (cached) return cached;
+
+  const kind = (process.env.LLM_PROVIDER ?? "openai").toLowerCase();
+  cached = kind === "stub" ? createStubProvider() : createOpenAiProvider(process.env.LLM_MODEL ?? DEFAULT_MODEL);
+  return cached;
+}
@@ -0,0 +1,86 @@
+// lib/llm/openai.ts
+import OpenAI from "openai";
+import type { JsonSchemaFormat, LlmMessage, LlmProvider } from "@/lib/llm/types";
+
+export function createOpenAiProvider(model: string): LlmProvider {
+  const openai = new OpenAI({
+    apiKey: process.env.OPENAI_API_KEY,
+  });
+
+  /** PDF を一時アップロード → fn → 必ず削除 */
+  async function withUploadedPdf<T>(pdf: Buffer, filename: string, fn: (fileId: string) => Promise<T>) {
+    const uploaded = await openai.files.create({
+      file: await OpenAI.toFile(pdf, filename, { type: "application/pdf" }),
+      purpose: "assistants",
+    });
+    try {
+      return await fn(uploaded.id);
+    } finally {
+      try {
+        await openai.files.delete(uploaded.id);
+      } catch {}
+    }
+  }
+
+  return {
+    name: "openai",
+    model,
+
+    async chat(messages: LlmMessage[]) {
+      const completion = await openai.chat.completions.create({ model, messages });
+      return completion.choices[0]?.message?.content ?? "";
+    },
+
+    async *chatStream(messages: LlmMessage[], opts?: { signal?: AbortSignal }) {
+      const stream = await openai.chat.completions.create(
+        { model, messages, stream: true },
+        { signal: opts?.signal }
+      );
+      for await (const chunk of stream) {
+        const delta = chunk.choices[0]?.delta?.content ?? "";
+        if (delta) yield delta;
+      }
+    },
+
+    async ocrPdf({ pdf, filename, prompt }) {
+      return withUploadedPdf(pdf, filename, async (fileId) => {
+        const resp = await openai.responses.create({
+          model,
+          input: [
+            {
+              role: "user",
+              content: [
+                { type: "input_file", file_id: fileId },
+                { type: "input_text", text: prompt },
+              ],
+            },
+          ],
+        });
+        return typeof resp.output_text === "string" ? resp.output_text.trim() : "";
+      });
+    },
+
+    async extractJson({ pdf, filename, system, prompt, format }) {
+      return withUploadedPdf(pdf, filename, async (fileId) => {
+        const f: JsonSchemaFormat = format;
+        const resp = await openai.responses.create({
+          model,
+          input: [
+            { role: "system", content: system },
+            {
+              role: "user",
+              content: [
+                { type: "input_file", file_id: fileId },
+                { type: "input_text", text: prompt },
+              ],
+            },
+          ],
+          text: {
+            format: { type: "json_schema", name: f.name, schema: f.schema, strict: f.strict ?? true },
+          },
+        });
+        return typeof resp.output_text === "string" ? resp.output_text.trim() : "";
+      });
+    },
+  };
+}
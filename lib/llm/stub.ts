@@ -0,0 +1,73 @@
+// lib/llm/stub.ts
+import { readFile } from "fs/promises";
+import path from "path";
+import type { LlmMessage, LlmProvider } from "@/lib/llm/types";
+
+/**
+ * ネットワークなしで動くローカルスタブ（決定的）
+ *
+ * fixtures/llm/（LLM_STUB_FIXTURES_DIR で変更可）を見る：
+ * - ocr/<PDFファイル名の拡張子なし>.txt   … ocrPdf の返り値（無ければ ocr/default.txt → ""）
+ * - json/<PDFファイル名の拡張子なし>.json … extractJson の返り値（無ければ json/default.json（ocr/default.txt と同じ成績）→ 空の juku_report）
+ * - chat/default.txt                     … chat の返り値（{{message}} を最後のユーザー発言で置換）
+ */
+export function createStubProvider(): LlmProvider {
+  const dir = process.env.LLM_STUB_FIXTURES_DIR ?? path.join(process.cwd(), "fixtures", "llm");
+
+  async function readFixture(...candidates: string[]) {
+    for (const rel of candidates) {
+      try {
+        return await readFile(path.join(dir, rel), "utf8");
+      } catch {}
+    }
+    return null;
+  }
+
+  function baseName(filename: string) {
+    return path.basename(filename).replace(/\.pdf$/i, "");
+  }
+
+  async function reply(messages: LlmMessage[]) {
+    const lastUser = [...messages].reverse().find((m) => m.role === "user")?.content ?? "";
+    const tpl =
+      (await readFixture("chat/default.txt")) ??
+      "【1. 今の状況の整理】\n{{message}}\n\n【2. 考えられる原因】\n（stub）\n\n【3. 今日からできる対策】\n（stub）\n\n【4. ひとことメッセージ】\n（stub）";
+    return tpl.replaceAll("{{message}}", lastUser).trim();
+  }
+
+  return {
+    name: "stub",
+    model: "stub",
+
+    async chat(messages) {
+      return reply(messages);
+    },
+
+    async *chatStream(messages, opts) {
+      const text = await reply(messages);
+      // 行ごとに流す（UIのストリーミング表示確認用）
+      for (const part of text.match(/[^\n]*\n?/g) ?? []) {
+        if (opts?.signal?.aborted) return;
+        if (part) yield part;
+      }
+    },
+
+    async ocrPdf({ filename }) {
+      return ((await readFixture(`ocr/${baseName(filename)}.txt`, "ocr/default.txt")) ?? "").trim();
+    },
+
+    async extractJson({ filename }) {
+      const json = await readFixture(`json/${baseName(filename)}.json`, "json/default.json");
+      return (
+        json ??
+        JSON.stringify({
+          docType: "juku_report",
+          student: { name: null, id: null },
+          meta: { sourceFilename: filename, title: null },
+          tests: [],
+          notes: ["stub: fixture not found"],
+        })
+      ).trim();
+    },
+  };
+}
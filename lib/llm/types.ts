@@ -0,0 +1,38 @@
+// lib/llm/types.ts
+
+export type LlmMessage = { role: "system" | "user" | "assistant"; content: string };
+
+/** 構造化出力（JSON Schema）の指定 */
+export type JsonSchemaFormat = {
+  name: string;
+  schema: Record<string, unknown>;
+  strict?: boolean;
+};
+
+/**
+ * LLM 呼び出しの窓口（lib/analyzePipeline・/api/chat はこれだけを使う）
+ * - openai：本番
+ * - stub：fixtures/llm を返すだけ（ネットワーク・課金なし）
+ */
+export interface LlmProvider {
+  readonly name: string;
+  readonly model: string;
+
+  /** チャット補完（1回で全文） */
+  chat(messages: LlmMessage[]): Promise<string>;
+
+  /** チャット補完（差分テキストを順に返す / signal で中断） */
+  chatStream(messages: LlmMessage[], opts?: { signal?: AbortSignal }): AsyncIterable<string>;
+
+  /** PDF → テキスト（OCR転記） */
+  ocrPdf(params: { pdf: Buffer; filename: string; prompt: string }): Promise<string>;
+
+  /** PDF → JSON 文字列（schema に沿った構造化抽出） */
+  extractJson(params: {
+    pdf: Buffer;
+    filename: string;
+    system: string;
+    prompt: string;
+    format: JsonSchemaFormat;
+  }): Promise<string>;
+}
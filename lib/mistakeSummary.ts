@@ -0,0 +1,164 @@
+// lib/mistakeSummary.ts
+
+export type SubjectKey = "sansuu" | "kokugo" | "rika" | "shakai";
+export type Difficulty = "A" | "B" | "C";
+
+export const SUBJECT_KEYS: SubjectKey[] = ["sansuu", "kokugo", "rika", "shakai"];
+
+export const SUBJECT_LABELS: Record<SubjectKey, string> = {
+  sansuu: "算数",
+  kokugo: "国語",
+  rika: "理科",
+  shakai: "社会",
+};
+
+/** 設問1問分（単発の設問別表の1行） */
+export type SingleQ = {
+  q: number;
+  label?: string;
+  rate: number; // 正答率（0〜100）
+  correct: boolean;
+  points?: number | null; // 配点（表にあれば）
+};
+
+export type LevelCounts = Record<Difficulty, { total: number; miss: number }>;
+
+export type SubjectMistakeBreakdown = {
+  subject: SubjectKey;
+  label: string;
+  byLevel: LevelCounts;
+  items: Array<SingleQ & { level: Difficulty; source?: string }>;
+  abMiss: number; // A/B（取るべき問題）の×の数
+  abLostPoints: number | null; // A/B の失点（配点が揃っているときだけ）
+  insight: string;
+};
+
+export type MistakeSummary = {
+  status: "no-single" | "no-data" | "ok";
+  message: string;
+  subjects?: SubjectMistakeBreakdown[];
+  combined?: {
+    byLevel: LevelCounts;
+    // A/Bの取りこぼしが多い順
+    abLoss: Array<{ subject: SubjectKey; label: string; abMiss: number; abLostPoints: number | null }>;
+    worstSubject: SubjectKey | null;
+    insight: string;
+  };
+};
+
+/** 正答率の区切り：A=70%以上 / B=40〜70% / C=40%未満（チャットの生徒データの説明文もこれを使う） */
+export const DIFFICULTY_THRESHOLDS = { A: 70, B: 40 } as const;
+
+export function classify(rate: number): Difficulty {
+  if (rate >= DIFFICULTY_THRESHOLDS.A) return "A";
+  if (rate >= DIFFICULTY_THRESHOLDS.B) return "B";
+  return "C";
+}
+
+/**
+ * 見出し・セル文字列から科目を推定
+ * - 「算数」「【国語】」「理科 設問別成績」などを許容
+ */
+export function detectSubject(text: string): SubjectKey | null {
+  const t = String(text ?? "").replace(/\s+/g, "");
+  if (/算数|さんすう/.test(t)) return "sansuu";
+  if (/国語|こくご/.test(t)) return "kokugo";
+  if (/理科|りか/.test(t)) return "rika";
+  if (/社会|しゃかい/.test(t)) return "shakai";
+  return null;
+}
+
+function emptyLevels(): LevelCounts {
+  return { A: { total: 0, miss: 0 }, B: { total: 0, miss: 0 }, C: { total: 0, miss: 0 } };
+}
+
+function subjectInsight(label: string, byLevel: LevelCounts) {
+  // sample と同じ優先順（A取りこぼし → B取りこぼし → C伸びしろ）
+  if (byLevel.A.miss >= 1) return `${label}：A問題（易）での取りこぼしがあり、安定性が最優先課題です。`;
+  if (byLevel.B.miss >= 2) return `${label}：B問題（標準）の取りこぼしが多く、得点の芯を作ることが最優先です。`;
+  return `${label}：A/Bは概ね取れており、C（難）は伸びしろ領域です。`;
+}
+
+export function buildSubjectBreakdown(
+  subject: SubjectKey,
+  qs: Array<SingleQ & { source?: string }>
+): SubjectMistakeBreakdown {
+  const label = SUBJECT_LABELS[subject];
+  const items = qs.map((x) => ({ ...x, level: classify(x.rate) }));
+
+  const byLevel = emptyLevels();
+  for (const it of items) {
+    byLevel[it.level].total += 1;
+    if (!it.correct) byLevel[it.level].miss += 1;
+  }
+
+  const abMissed = items.filter((it) => !it.correct && it.level !== "C");
+  const allHavePoints = items.length > 0 && items.every((it) => typeof it.points === "number");
+  const abLostPoints = allHavePoints ? abMissed.reduce((sum, it) => sum + (it.points ?? 0), 0) : null;
+
+  return {
+    subject,
+    label,
+    byLevel,
+    items,
+    abMiss: abMissed.length,
+    abLostPoints,
+    insight: subjectInsight(label, byLevel),
+  };
+}
+
+/**
+ * 科目横断ビュー：どの科目で「取るべき問題（A/B）」を落としているか
+ * - 全科目で配点が取れていれば失点で比較、無ければ×の数で比較
+ */
+export function buildCombinedView(subjects: SubjectMistakeBreakdown[]): NonNullable<MistakeSummary["combined"]> {
+  const byLevel = emptyLevels();
+  for (const s of subjects) {
+    for (const lv of ["A", "B", "C"] as const) {
+      byLevel[lv].total += s.byLevel[lv].total;
+      byLevel[lv].miss += s.byLevel[lv].miss;
+    }
+  }
+
+  const usePoints = subjects.length > 0 && subjects.every((s) => s.abLostPoints != null);
+  const abLoss = subjects
+    .map((s) => ({ subject: s.subject, label: s.label, abMiss: s.abMiss, abLostPoints: s.abLostPoints }))
+    .sort((a, b) => (usePoints ? (b.abLostPoints ?? 0) - (a.abLostPoints ?? 0) : b.abMiss - a.abMiss));
+
+  const top = abLoss[0];
+  const worstSubject = top && top.abMiss > 0 ? top.subject : null;
+
+  const insight = !top
+    ? "設問別データがありません。"
+    : worstSubject == null
+      ? "どの科目もA/B問題は取り切れています。C（難）が伸びしろです。"
+      : usePoints
+        ? `A/B問題の失点が最も多いのは${top.label}（${top.abLostPoints}点・${top.abMiss}問）です。まずここを取り切ります。`
+        : `A/B問題の取りこぼしが最も多いのは${top.label}（${top.abMiss}問）です。まずここを取り切ります。`;
+
+  return { byLevel, abLoss, worstSubject, insight };
+}
+
+/** 科目ごとの設問リスト → MistakeSummary（status: ok） */
+export function summarizeBySubject(
+  bySubject: Partial<Record<SubjectKey, Array<SingleQ & { source?: string }>>>
+): MistakeSummary {
+  const subjects = SUBJECT_KEYS.filter((k) => (bySubject[k]?.length ?? 0) > 0).map((k) =>
+    buildSubjectBreakdown(k, bySubject[k] ?? [])
+  );
+
+  if (subjects.length === 0) {
+    return {
+      status: "no-data",
+      message: "単発PDFから設問別の正答率・○×の表を読み取れませんでした。PDFの向き・解像度を確認してください。",
+    };
+  }
+
+  const total = subjects.reduce((n, s) => n + s.items.length, 0);
+  return {
+    status: "ok",
+    message: `${subjects.map((s) => s.label).join("・")}の設問${total}問を正答率でA/B/Cに分類しました。`,
+    subjects,
+    combined: buildCombinedView(subjects),
+  };
+}
@@ -0,0 +1,23 @@
+// lib/ocrCache.test.ts
+import { describe, expect, it } from "vitest";
+import { OCR_CACHE_VERSION, ocrCacheKey, sha256Hex } from "@/lib/ocrCache";
+
+const base = { pdfSha256: sha256Hex("pdf-a"), focusHint: "ikusei", model: "gpt-4.1-mini" };
+
+describe("ocrCacheKey", () => {
+  it("同じ入力なら同じキー（版の省略は OCR_CACHE_VERSION と同じ）", () => {
+    expect(ocrCacheKey({ ...base })).toBe(ocrCacheKey({ ...base }));
+    expect(ocrCacheKey(base)).toBe(ocrCacheKey({ ...base, version: OCR_CACHE_VERSION }));
+    expect(ocrCacheKey(base)).toMatch(/^[0-9a-f]{64}$/);
+  });
+
+  it.each([
+    ["PDF", { pdfSha256: sha256Hex("pdf-b") }],
+    ["focusHint", { focusHint: "kokai" }],
+    ["focusHint なし", { focusHint: null }],
+    ["版", { version: OCR_CACHE_VERSION + 1 }],
+    ["モデル", { model: "stub" }],
+  ])("%s が違えば別のキー", (_label, over) => {
+    expect(ocrCacheKey({ ...base, ...over })).not.toBe(ocrCacheKey(base));
+  });
+});
@@ -0,0 +1,23 @@
+// lib/ocrCache.ts
+import { createHash } from "crypto";
+
+/**
+ * OCRキャッシュの版
+ * - OCRプロンプト / 転記テキストを読むパーサの前提を変えたら上げる（古いキャッシュは自然に外れる）
+ */
+export const OCR_CACHE_VERSION = 1;
+
+export function sha256Hex(data: Buffer | string) {
+  return createHash("sha256").update(data).digest("hex");
+}
+
+/**
+ * キャッシュキー = PDF本体のSHA-256 + focusHint + 版 + モデル
+ * - 同じPDFでも focusHint（育成/公開/設問別）ごとに別エントリ
+ * - モデル（stub含む）が違う結果は混ぜない
+ * - version は省略時 OCR_CACHE_VERSION（テストで版違いを確かめる用）
+ */
+export function ocrCacheKey(params: { pdfSha256: string; focusHint: string | null; model: string; version?: number }) {
+  const { pdfSha256, focusHint, model, version = OCR_CACHE_VERSION } = params;
+  return sha256Hex([pdfSha256, focusHint ?? "", `v${version}`, model].join("\n"));
+}
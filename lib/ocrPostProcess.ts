@@ -1,4 +1,5 @@
 // lib/ocrPostProcess.ts
+import type { JukuSubject } from "@/lib/jukuReportSchema";
 
 export type TestType = "ikusei" | "kokai_moshi" | "other";
 
@@ -11,7 +12,7 @@ export type Test = {
   testType: TestType;
   testName: string | null;
   date: string | null; // YYYY-MM-DD
-  subjects: any[]; // 既存構造を壊さないため any のまま（必要なら後で型を詰める）
+  subjects: JukuSubject[]; // lib/jukuReportSchema と同じ形
   totals: Totals;
   notes: string[];
 };
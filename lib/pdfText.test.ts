@@ -0,0 +1,74 @@
+// lib/pdfText.test.ts
+import { describe, expect, it } from "vitest";
+import { extractPdfTextLayer } from "@/lib/pdfText";
+
+/**
+ * テキストレイヤ抽出（モデルOCRを飛ばすかの判定に使う）
+ * - テスト用のPDFはここで組み立てる（Helvetica・1ページ・座標指定のテキストだけ）
+ */
+type TextItem = { x: number; y: number; text: string };
+
+function buildPdf(items: TextItem[]): Buffer {
+  const content = items.length
+    ? items.map((t) => `BT /F1 10 Tf 1 0 0 1 ${t.x} ${t.y} Tm (${t.text}) Tj ET`).join("\n")
+    : "0 0 0 rg 50 50 200 100 re f"; // 図形だけ（スキャンPDF相当：文字なし）
+
+  const objects = [
+    "<< /Type /Catalog /Pages 2 0 R >>",
+    "<< /Type /Pages /Kids [3 0 R] /Count 1 >>",
+    "<< /Type /Page /Parent 2 0 R /MediaBox [0 0 595 842] /Resources << /Font << /F1 4 0 R >> >> /Contents 5 0 R >>",
+    "<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica >>",
+    `<< /Length ${Buffer.byteLength(content)} >>\nstream\n${content}\nendstream`,
+  ];
+
+  let pdf = "%PDF-1.4\n";
+  const offsets: number[] = [];
+  objects.forEach((body, i) => {
+    offsets.push(Buffer.byteLength(pdf));
+    pdf += `${i + 1} 0 obj\n${body}\nendobj\n`;
+  });
+  const xref = Buffer.byteLength(pdf);
+  pdf += `xref\n0 ${objects.length + 1}\n0000000000 65535 f \n`;
+  pdf += offsets.map((o) => `${String(o).padStart(10, "0")} 00000 n \n`).join("");
+  pdf += `trailer\n<< /Size ${objects.length + 1} /Root 1 0 R >>\nstartxref\n${xref}\n%%EOF\n`;
+  return Buffer.from(pdf, "latin1");
+}
+
+describe("extractPdfTextLayer", () => {
+  it("x のすき間でセルを切り、3セル以上の行は列をそろえて | 区切り（空欄は空セル）", async () => {
+    const pdf = buildPdf([
+      { x: 50, y: 760, text: "Kokai" },
+      // 見出し：Sco + re は続けて置いた（すき間ほぼ0）→ 1セル
+      { x: 50, y: 720, text: "No" },
+      { x: 100, y: 720, text: "Date" },
+      { x: 200, y: 720, text: "Sco" },
+      { x: 217.3, y: 720, text: "re" },
+      { x: 260, y: 720, text: "Dev" },
+      { x: 50, y: 700, text: "1" },
+      { x: 100, y: 700, text: "2026/4/12" },
+      { x: 200, y: 700, text: "310" },
+      { x: 260, y: 700, text: "52.6" },
+      // 得点が空欄の行
+      { x: 50, y: 680, text: "2" },
+      { x: 100, y: 680, text: "2026/5/10" },
+      { x: 260, y: 680, text: "52.0" },
+    ]);
+
+    const layer = await extractPdfTextLayer(pdf);
+
+    expect(layer.pages).toBe(1);
+    expect(layer.text.split("\n")).toEqual([
+      "--- 1ページ ---",
+      "Kokai",
+      "| No | Date | Score | Dev |",
+      "| 1 | 2026/4/12 | 310 | 52.6 |",
+      "| 2 | 2026/5/10 |  | 52.0 |",
+    ]);
+  });
+
+  it("文字が無いPDF（スキャン相当）は text が空 → 呼び出し側でモデルOCRへ", async () => {
+    const layer = await extractPdfTextLayer(buildPdf([]));
+
+    expect(layer).toEqual({ text: "", pages: 1, chars: 0 });
+  });
+});
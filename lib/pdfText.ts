@@ -0,0 +1,129 @@
+// lib/pdfText.ts
+import { getDocument } from "pdfjs-dist/legacy/build/pdf.mjs";
+
+/**
+ * PDFのテキストレイヤ抽出（モデルOCRの前段）
+ * - デジタル生成の成績表は文字が埋め込まれているので、座標から行・列を組み直す
+ * - 3セル以上並ぶ行は「| a | b | c |」形式で出す（OCR転記と同じ形 → 既存の正規表現パーサがそのまま使える）
+ * - スキャンPDF（文字なし）は text が空になる → 呼び出し側でモデルOCRへ
+ */
+
+type Cell = { x0: number; x1: number; text: string };
+type Line = { y: number; cells: Cell[] };
+
+export type PdfTextLayer = { text: string; pages: number; chars: number };
+
+// 同じ行とみなすyのずれ（pt）
+const LINE_TOLERANCE = 3;
+// 同じセルとみなす文字間のすき間（フォント高さに対する比）
+const CELL_GAP_RATIO = 0.8;
+
+type RawItem = { str: string; x: number; y: number; w: number; h: number };
+
+function toLines(items: RawItem[]): Line[] {
+  const sorted = items
+    .filter((it) => it.str.trim() !== "")
+    .sort((a, b) => b.y - a.y || a.x - b.x);
+
+  // y でまとめる
+  const rows: RawItem[][] = [];
+  for (const it of sorted) {
+    const row = rows[rows.length - 1];
+    if (row && Math.abs(row[0].y - it.y) <= LINE_TOLERANCE) row.push(it);
+    else rows.push([it]);
+  }
+
+  // 行内：x 順に並べて、すき間が大きいところでセルを切る
+  return rows.map((row) => {
+    row.sort((a, b) => a.x - b.x);
+    const cells: Cell[] = [];
+    for (const it of row) {
+      const last = cells[cells.length - 1];
+      const gap = last ? it.x - last.x1 : Infinity;
+      if (last && gap <= Math.max(2, it.h * CELL_GAP_RATIO)) {
+        last.text += (gap > it.h * 0.25 ? " " : "") + it.str;
+        last.x1 = Math.max(last.x1, it.x + it.w);
+      } else {
+        cells.push({ x0: it.x, x1: it.x + it.w, text: it.str });
+      }
+    }
+    for (const c of cells) c.text = c.text.replace(/\s+/g, " ").trim();
+    return { y: row[0].y, cells };
+  });
+}
+
+/**
+ * 連続する表の行（3セル以上）ごとに列位置をそろえる
+ * - いちばんセル数の多い行を列の基準にする
+ * - 空欄セル（文字が無い）は "" で埋める（列ずれ防止：例 2科が空欄の育成行）
+ */
+function renderLines(lines: Line[]): string[] {
+  const out: string[] = [];
+  let i = 0;
+
+  while (i < lines.length) {
+    if (lines[i].cells.length < 3) {
+      out.push(lines[i].cells.map((c) => c.text).join(" "));
+      i += 1;
+      continue;
+    }
+
+    let j = i;
+    while (j < lines.length && lines[j].cells.length >= 3) j += 1;
+    const block = lines.slice(i, j);
+
+    const anchor = block.reduce((a, b) => (b.cells.length > a.cells.length ? b : a));
+    const cols = anchor.cells.map((c) => (c.x0 + c.x1) / 2);
+
+    for (const line of block) {
+      const slots: string[] = cols.map(() => "");
+      for (const c of line.cells) {
+        const mid = (c.x0 + c.x1) / 2;
+        let best = 0;
+        for (let k = 1; k < cols.length; k += 1) {
+          if (Math.abs(cols[k] - mid) < Math.abs(cols[best] - mid)) best = k;
+        }
+        slots[best] = slots[best] ? `${slots[best]} ${c.text}` : c.text;
+      }
+      out.push(`| ${slots.join(" | ")} |`);
+    }
+
+    i = j;
+  }
+
+  return out;
+}
+
+export async function extractPdfTextLayer(pdf: Buffer): Promise<PdfTextLayer> {
+  const doc = await getDocument({
+    data: new Uint8Array(pdf),
+    isEvalSupported: false,
+    useSystemFonts: false,
+    verbosity: 0,
+  }).promise;
+
+  try {
+    const pages: string[] = [];
+    let chars = 0;
+
+    for (let p = 1; p <= doc.numPages; p += 1) {
+      const page = await doc.getPage(p);
+      const content = await page.getTextContent();
+
+      const items: RawItem[] = [];
+      for (const it of content.items) {
+        if (!("str" in it)) continue;
+        const [a, b, , , x, y] = it.transform as number[];
+        items.push({ str: it.str, x, y, w: it.width, h: it.height || Math.hypot(a, b) });
+        chars += it.str.replace(/\s+/g, "").length;
+      }
+
+      pages.push([`--- ${p}ページ ---`, ...renderLines(toLines(items))].join("\n"));
+      page.cleanup();
+    }
+
+    return { text: chars > 0 ? pages.join("\n\n") : "", pages: doc.numPages, chars };
+  } finally {
+    await doc.destroy();
+  }
+}
@@ -0,0 +1,97 @@
+// lib/provenance.test.ts
+import { readFileSync } from "fs";
+import path from "path";
+import { describe, expect, it } from "vitest";
+import { validateJukuReport } from "@/lib/jukuReportSchema";
+import { countLowConfidence, createTestProvenance, markProvenance, provenanceForCorrections } from "@/lib/provenance";
+import { buildYearlyFromOcrTextAuto, type JukuTest } from "@/lib/yearlyParser";
+
+const FIXTURE_DIR = path.join(__dirname, "..", "fixtures", "yearly");
+const fixture = (name: string) => readFileSync(path.join(FIXTURE_DIR, `${name}.txt`), "utf8");
+
+function kokai(date: string, fourDev: number | null): JukuTest {
+  return {
+    testType: "kokai_moshi",
+    testName: null,
+    date,
+    subjects: [],
+    totals: {
+      two: { score: null, deviation: null, rank: null, grade: null },
+      four: { score: 300, deviation: fourDev, rank: null, grade: null },
+    },
+    notes: [],
+  };
+}
+
+describe("markProvenance", () => {
+  it("確からしさは下がる方向にだけ動く", () => {
+    const p = createTestProvenance("regex-row");
+    markProvenance(p, "four.score", "clamped", "範囲外");
+    markProvenance(p, "four.score", "normalized", "掃除");
+    expect(p["four.score"]).toMatchObject({ confidence: "low", steps: ["clamped", "normalized"] });
+    expect(p["two.score"].confidence).toBe("high");
+  });
+});
+
+describe("yearly parser provenance", () => {
+  it("provenance は tests と同じ並び", () => {
+    const { yearly, provenance } = buildYearlyFromOcrTextAuto(fixture("format-a-6nen"), "a.pdf");
+    expect(provenance).toHaveLength(yearly.tests.length);
+    expect(provenance.every((p) => p["four.score"].source === "regex-row")).toBe(true);
+  });
+
+  it("入れ替え・範囲外の破棄は low", () => {
+    const { yearly, provenance } = buildYearlyFromOcrTextAuto(fixture("ikusei-score-guards"), "g.pdf");
+    const idx = (date: string) => yearly.tests.findIndex((t) => t.date === date);
+
+    // 2科452点（2科の範囲外）→ 破棄
+    expect(provenance[idx("2026-04-12")]["two.score"]).toMatchObject({ confidence: "low", steps: ["clamped"] });
+    // 4科150・2科260 → 入れ替え
+    expect(provenance[idx("2026-05-10")]["four.score"].steps).toContain("auto-swapped");
+    // 評価1・2 → 破棄
+    expect(provenance[idx("2026-06-07")]["four.grade"].confidence).toBe("low");
+    expect(provenance[idx("2026-06-07")]["four.score"].confidence).toBe("high");
+    expect(countLowConfidence(provenance)).toBeGreaterThan(0);
+  });
+});
+
+describe("validateJukuReport fixes", () => {
+  it("数値の文字列・不正値の欄を、除外後の並びで返す", () => {
+    const broken = { testType: "kokai_moshi", testName: "壊れ", date: null, subjects: "x", totals: {}, notes: [] };
+    const ok = {
+      ...kokai("2026-04-26", null),
+      totals: {
+        two: { score: null, deviation: null, rank: null, grade: null },
+        four: { score: "301", deviation: "abc", rank: null, grade: null },
+      },
+    };
+    const { report, fixes } = validateJukuReport({
+      docType: "juku_report",
+      student: { name: null, id: null },
+      meta: { sourceFilename: null, title: null },
+      tests: [broken, ok],
+      notes: [],
+    });
+    expect(report?.tests).toHaveLength(1);
+    expect(fixes).toEqual([
+      { test: 0, field: "four.score", kind: "coerced", value: "301" },
+      { test: 0, field: "four.deviation", kind: "nulled", value: "abc" },
+    ]);
+  });
+});
+
+describe("provenanceForCorrections", () => {
+  it("値を変えた欄・足した回だけ teacher-corrected、他は元の provenance", () => {
+    const previous = [kokai("2026-04-26", 52), kokai("2026-05-24", 48)];
+    const prov = previous.map(() => createTestProvenance("direct-json"));
+    markProvenance(prov[0], "four.deviation", "normalized", "文字列を数値に");
+
+    const corrected = [kokai("2026-04-26", 52), kokai("2026-05-24", 49), kokai("2026-06-21", 50)];
+    const next = provenanceForCorrections(previous, prov, corrected);
+
+    expect(next[0]["four.deviation"]).toMatchObject({ source: "direct-json", confidence: "medium" });
+    expect(next[1]["four.deviation"]).toMatchObject({ source: "teacher-corrected", confidence: "high" });
+    expect(next[1]["four.score"].source).toBe("direct-json");
+    expect(next[2]["four.score"].source).toBe("teacher-corrected");
+  });
+});
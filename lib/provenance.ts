@@ -0,0 +1,142 @@
+// lib/provenance.ts
+import type { JukuTest } from "@/lib/jukuReportSchema";
+import { timelineKey } from "@/lib/studentTimeline";
+
+/**
+ * 抽出した数値1つ1つの出どころ（provenance）と確からしさ
+ * - warnings は文章なので「どのセルが怪しいか」が分からない → 欄ごとに持って表でハイライトする
+ * - tests と同じ並び（provenance[i] が tests[i]）で持つ
+ */
+
+export type ProvenanceField =
+  | "date"
+  | "four.score"
+  | "four.grade"
+  | "four.deviation"
+  | "two.score"
+  | "two.grade"
+  | "two.deviation";
+
+export const PROVENANCE_FIELDS: ProvenanceField[] = [
+  "date",
+  "four.score",
+  "four.grade",
+  "four.deviation",
+  "two.score",
+  "two.grade",
+  "two.deviation",
+];
+
+/** 値をどこから取ったか */
+export type ProvenanceSource = "regex-row" | "direct-json" | "teacher-corrected";
+
+/** 取ったあとに手を入れたか */
+export type ProvenanceStep =
+  | "normalized" // 文字の掃除・数値化・日付の補完
+  | "auto-swapped" // 2科/4科の入れ替え
+  | "clamped"; // 範囲外・怪しい値を破棄して null
+
+export type Confidence = "high" | "medium" | "low";
+
+export type FieldProvenance = {
+  source: ProvenanceSource;
+  steps: ProvenanceStep[];
+  confidence: Confidence;
+  reasons: string[];
+};
+
+export type TestProvenance = Record<ProvenanceField, FieldProvenance>;
+
+// モデルの直接JSONは読み位置の裏付けが無いので medium 止まり
+const SOURCE_CONFIDENCE: Record<ProvenanceSource, Confidence> = {
+  "regex-row": "high",
+  "direct-json": "medium",
+  "teacher-corrected": "high",
+};
+
+const STEP_CONFIDENCE: Record<ProvenanceStep, Confidence> = {
+  normalized: "medium",
+  "auto-swapped": "low",
+  clamped: "low",
+};
+
+const RANK: Record<Confidence, number> = { low: 0, medium: 1, high: 2 };
+
+export const SOURCE_LABELS: Record<ProvenanceSource, string> = {
+  "regex-row": "表の行から読み取り",
+  "direct-json": "PDFから直接JSON化",
+  "teacher-corrected": "講師が修正",
+};
+
+export const STEP_LABELS: Record<ProvenanceStep, string> = {
+  normalized: "正規化",
+  "auto-swapped": "2科/4科を自動入れ替え",
+  clamped: "範囲外で破棄",
+};
+
+function lower(a: Confidence, b: Confidence): Confidence {
+  return RANK[a] <= RANK[b] ? a : b;
+}
+
+export function createTestProvenance(source: ProvenanceSource): TestProvenance {
+  const p = {} as TestProvenance;
+  for (const f of PROVENANCE_FIELDS) {
+    p[f] = { source, steps: [], confidence: SOURCE_CONFIDENCE[source], reasons: [] };
+  }
+  return p;
+}
+
+/** 補正を記録（確からしさは下がる方向にだけ動く）。prov が無ければ何もしない */
+export function markProvenance(
+  prov: TestProvenance | undefined,
+  fields: ProvenanceField | ProvenanceField[],
+  step: ProvenanceStep,
+  reason: string
+) {
+  if (!prov) return;
+  for (const f of Array.isArray(fields) ? fields : [fields]) {
+    const fp = prov[f];
+    if (!fp.steps.includes(step)) fp.steps.push(step);
+    fp.reasons.push(reason);
+    fp.confidence = lower(fp.confidence, STEP_CONFIDENCE[step]);
+  }
+}
+
+export function fieldValue(t: JukuTest, f: ProvenanceField): string | number | null {
+  if (f === "date") return t.date;
+  const [side, key] = f.split(".") as ["four" | "two", "score" | "grade" | "deviation"];
+  return t.totals?.[side]?.[key] ?? null;
+}
+
+/** 要確認（low）の欄の数 */
+export function countLowConfidence(provenance: TestProvenance[]): number {
+  return provenance.reduce(
+    (n, p) => n + PROVENANCE_FIELDS.filter((f) => p[f].confidence === "low").length,
+    0
+  );
+}
+
+/**
+ * 講師の修正後の tests に provenance を付け直す
+ * - 修正前と同じ回（種別+日付）で値も同じ欄は、元の provenance を引き継ぐ
+ * - 値を変えた欄・新しく足した回は teacher-corrected
+ */
+export function provenanceForCorrections(
+  previous: JukuTest[],
+  previousProvenance: TestProvenance[] | null | undefined,
+  corrected: JukuTest[]
+): TestProvenance[] {
+  const before = new Map<string, { t: JukuTest; p: TestProvenance | undefined }>();
+  previous.forEach((t, i) => before.set(timelineKey(t), { t, p: previousProvenance?.[i] }));
+
+  return corrected.map((t) => {
+    const prev = before.get(timelineKey(t));
+    const p = createTestProvenance("teacher-corrected");
+    if (!prev?.p) return p;
+
+    for (const f of PROVENANCE_FIELDS) {
+      if (fieldValue(prev.t, f) === fieldValue(t, f)) p[f] = structuredClone(prev.p[f]);
+    }
+    return p;
+  });
+}
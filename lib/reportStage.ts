@@ -0,0 +1,605 @@
+// lib/reportStage.ts
+import type { JukuReportJson } from "@/lib/jukuReportSchema";
+import type { MistakeSummary } from "@/lib/mistakeSummary";
+import { forecastNextKokai } from "@/lib/forecast";
+import { computeSubjectTrends } from "@/lib/subjectTrends";
+import { computeTrendStats, isConfident, type Trend, type TrendStats } from "@/lib/trendStats";
+import {
+  computeTargetGaps,
+  describeTargetGaps,
+  pickTargetSeries,
+  type TargetGapSummary,
+  type TargetSchool,
+} from "@/lib/targetSchools";
+import { toNumberOrNull } from "@/lib/yearlyParser";
+
+/**
+ * 抽出後の段（推移判定 → 2科/4科判定 → レポート文面）
+ * - lib/analyzePipeline（OCR直後）と /api/analyses/[id]/recompute（講師の修正後）の両方から呼ぶ
+ * - OCR・DBには触らない（入力の年間データだけで決まる）
+ */
+
+/* =========================
+   Types
+========================= */
+export type { Trend };
+
+// ✅ 追加：返却用
+export type AnalysisMode = "full" | "yearly-only";
+export type StudentType = "two" | "four";
+
+/** ✅ 講師の出力設定（AnalyzeClient の FormData: tone / target / focus） */
+export type Tone = "gentle" | "balanced" | "strict";
+export type Target = "student" | "parent" | "teacher";
+export type FocusAxis = "mistake" | "process" | "knowledge" | "attitude";
+export type Selections = { tone: Tone; target: Target; focus: FocusAxis[] };
+
+/** ✅ 追加：UI表示用レポート型 */
+/** ✅ axis: 観点（focus）ごとのセクション / "target" は志望校との差（観点に関係なく出す） */
+export type ReportSection = { axis: FocusAxis | "target"; title: string; body: string };
+export type Menndan1Min = { title: string; body: string; bullets?: string[]; tags?: string[]; sections?: ReportSection[] };
+export type ChildSimple = { title: string; body: string; action?: string };
+export type ParentHandout = { title: string; summary: string; points: string[]; nextAction: string; sections?: ReportSection[] };
+export type ReportKey = "menndan_1min" | "child_simple" | "parent_handout";
+export type Reports = {
+  primary: ReportKey;
+  menndan_1min: Menndan1Min;
+  child_simple: ChildSimple;
+  parent_handout: ParentHandout;
+};
+
+/** ✅ 追加：TSが「nullが消えた」と理解できる型ガード */
+export function isFiniteNumber(v: unknown): v is number {
+  return typeof v === "number" && Number.isFinite(v);
+}
+
+/* =========================
+   2科4科判定
+========================= */
+/**
+ * 年間データだけでも判定できるように：
+ * - 育成テストの totals.two.score が「ほぼ埋まって」いて totals.four.score が「ほぼ空」なら two
+ * - 逆なら four
+ * - 混在は安全側（four）に倒し warning
+ */
+export function detectStudentTypeFromYearly(
+  yearly: JukuReportJson | null,
+  warnings: string[]
+): { studentType: StudentType; isTwoSubjectStudent: boolean } {
+  if (!yearly?.tests?.length) return { studentType: "four", isTwoSubjectStudent: false };
+
+  const ikusei = (yearly.tests ?? []).filter((t) => t.testType === "ikusei");
+  const n = ikusei.length;
+  if (n === 0) return { studentType: "four", isTwoSubjectStudent: false };
+
+  const twoPresent = ikusei.filter((t) => isFiniteNumber(toNumberOrNull(t?.totals?.two?.score))).length;
+  const fourPresent = ikusei.filter((t) => isFiniteNumber(toNumberOrNull(t?.totals?.four?.score))).length;
+
+  const almostAll = Math.max(1, Math.floor(n * 0.7));
+  const few = Math.floor(n * 0.3);
+
+  if (twoPresent >= almostAll && fourPresent <= few) return { studentType: "two", isTwoSubjectStudent: true };
+  if (fourPresent >= almostAll && twoPresent <= few) return { studentType: "four", isTwoSubjectStudent: false };
+
+  warnings.push(
+    `2科/4科判定が混在（育成: twoPresent=${twoPresent}, fourPresent=${fourPresent}, n=${n}）。暫定的に4科扱い。`
+  );
+  return { studentType: "four", isTwoSubjectStudent: false };
+}
+
+/* =========================
+   Trends
+========================= */
+/**
+ * 上昇/下降とみなす変化量（回帰直線での最初→最後）と、「波が大きい」とみなす直線からのずれ
+ * - 育成：評価（3〜10）なら1段階、評価が無い生徒の2科得点（0〜400）なら20点
+ * - 公開：偏差値3
+ */
+const TREND_THRESHOLDS = { ikuseiGrade: 1, ikuseiScore: 20, kokai: 3 };
+
+export type YearlyTrends = ReturnType<typeof extractYearlyTrends>;
+
+export function extractYearlyTrends(yearly: JukuReportJson | null) {
+  if (!yearly) {
+    const stats = computeTrendStats([], TREND_THRESHOLDS.kokai);
+    return {
+      ikusei: { trend: "unknown" as Trend, values: [] as number[], scale: "grade" as "grade" | "score", stats },
+      ikuseiGradeValues: [] as number[],
+      ikuseiScoreValues: [] as number[],
+      kokai: { trend: "unknown" as Trend, values: [] as number[], stats },
+      kokaiFourValues: [] as number[],
+      kokaiTwoValues: [] as number[],
+    };
+  }
+
+  const tests = yearly.tests ?? [];
+
+  // 育成：gradeだけ（3〜10）
+  const ikuseiGradeValues: number[] = tests
+    .filter((t) => t.testType === "ikusei")
+    .map((t) => {
+      const g2 = typeof t?.totals?.two?.grade === "number" ? t.totals.two.grade : null;
+      const g4 = typeof t?.totals?.four?.grade === "number" ? t.totals.four.grade : null;
+      return g2 ?? g4;
+    })
+    .filter(isFiniteNumber);
+
+  // 育成：2科得点だけ（0〜400）
+  const ikuseiScoreValues: number[] = tests
+    .filter((t) => t.testType === "ikusei")
+    .map((t) => (typeof t?.totals?.two?.score === "number" ? t.totals.two.score : null))
+    .filter(isFiniteNumber);
+
+  // ✅ 育成：評価と2科得点はスケールが違う（3〜10 / 0〜400）ので混ぜずに、評価が2回以上あれば評価で見る
+  const ikuseiScale: "grade" | "score" = ikuseiGradeValues.length >= 2 || ikuseiScoreValues.length < 2 ? "grade" : "score";
+  const ikuseiValues = ikuseiScale === "grade" ? ikuseiGradeValues : ikuseiScoreValues;
+  const ikuseiStats = computeTrendStats(
+    ikuseiValues,
+    ikuseiScale === "grade" ? TREND_THRESHOLDS.ikuseiGrade : TREND_THRESHOLDS.ikuseiScore
+  );
+
+  // 公開：偏差（4科偏差優先、無ければ2科）
+  const kokaiVals: number[] = tests
+    .filter((t) => t.testType === "kokai_moshi")
+    .map((t) =>
+      typeof t?.totals?.four?.deviation === "number"
+        ? t.totals.four.deviation
+        : typeof t?.totals?.two?.deviation === "number"
+          ? t.totals.two.deviation
+          : null
+    )
+    .filter(isFiniteNumber);
+
+  const kokaiStats = computeTrendStats(kokaiVals, TREND_THRESHOLDS.kokai);
+
+  // 公開：4科・2科それぞれだけの偏差（志望校との差は1系列で見る）
+  const kokaiTests = tests.filter((t) => t.testType === "kokai_moshi");
+  const kokaiFourValues: number[] = kokaiTests.map((t) => t?.totals?.four?.deviation).filter(isFiniteNumber);
+  const kokaiTwoValues: number[] = kokaiTests.map((t) => t?.totals?.two?.deviation).filter(isFiniteNumber);
+
+  // trend は回帰直線の傾き（最初と最後の2点ではなく全点）。根拠の数値は stats に
+  return {
+    ikusei: { trend: ikuseiStats.regression.trend, values: ikuseiValues, scale: ikuseiScale, stats: ikuseiStats },
+    ikuseiGradeValues,
+    ikuseiScoreValues,
+    kokai: { trend: kokaiStats.regression.trend, values: kokaiVals, stats: kokaiStats },
+    kokaiFourValues,
+    kokaiTwoValues,
+  };
+}
+
+/* =========================
+   ✅ 追加：reports / mistakeSummary builder
+========================= */
+/** 推移ケース（レポート文面の分岐・一括分析の一覧表示） */
+export type ReportCase = "rising" | "unstable" | "volatile" | "stable" | "unknown";
+
+export const REPORT_CASE_LABELS: Record<ReportCase, string> = {
+  rising: "上昇",
+  unstable: "下降（公開が下向き）",
+  volatile: "波が大きい",
+  stable: "安定",
+  unknown: "判定不可（数値不足）",
+};
+
+/** 下向き：全体の傾き、または直近の傾き（確からしさが低くないもの） */
+function isFalling(s: TrendStats) {
+  return (
+    (s.regression.trend === "down" && isConfident(s.regression.confidence)) ||
+    (s.recent.trend === "down" && isConfident(s.recent.confidence))
+  );
+}
+
+function isRising(s: TrendStats) {
+  // 全体が上向きでも、直近で下がり始めていれば上昇とは言わない
+  return s.regression.trend === "up" && isConfident(s.regression.confidence) && s.recent.trend !== "down";
+}
+
+/**
+ * 推移の統計（lib/trendStats）からケースを選ぶ
+ * - 公開（偏差値）を主に、育成（範囲の定着度）を補助に見る
+ * - 順番：波が大きい → 公開が下向き → どちらかが上向き → 育成の波 → 安定
+ */
+export function pickReportCase(trends: YearlyTrends, warnings: string[]): ReportCase {
+  const ik = trends.ikusei.stats;
+  const kk = trends.kokai.stats;
+
+  if (ik.n < 2 && kk.n < 2) {
+    warnings.push("年間推移の数値が少なく、レポートは暫定コメントになります。");
+    return "unknown";
+  }
+
+  if (kk.spread.volatile) return "volatile";
+  if (isFalling(kk)) return "unstable";
+  if (isRising(kk) || isRising(ik)) return "rising";
+  if (ik.spread.volatile) return "volatile";
+  return "stable";
+}
+
+/** 推移ケースごとの定型文（トーン・観点はこのあと buildReports で重ねる） */
+function buildCaseReports(params: {
+  analysisMode: AnalysisMode;
+  studentType: StudentType;
+  isTwoSubjectStudent: boolean;
+  hasMistakeData: boolean;
+  c: ReportCase;
+}): Omit<Reports, "primary"> {
+  const { analysisMode, studentType, isTwoSubjectStudent, hasMistakeData, c } = params;
+
+  const studentLabel =
+    studentType === "two"
+      ? "（2科目生）"
+      : isTwoSubjectStudent
+        ? "（2科目生）"
+        : "（4科目生想定）";
+
+  const baseTitle = analysisMode === "yearly-only" ? `面談用コメント（暫定：年間のみ）${studentLabel}` : `面談用コメント（1分版）${studentLabel}`;
+
+  if (c === "rising") {
+    return {
+      menndan_1min: {
+        title: baseTitle,
+        body:
+          "推移を見ると、ここ数か月で上向きの動きが出ています。\n" +
+          "育成・公開のどちらか（または両方）で上昇傾向が見えており、努力が結果に結びつき始めている段階です。\n\n" +
+          "次回は『取れる問題を安定して取り切る』ことに絞ると、伸びが定着しやすくなります。" +
+          (hasMistakeData ? "" : "\n（単発の○×正答率一覧が入ると、どの難度で落としているかまで精密に確認できます。）"),
+        bullets: [
+          "年間推移は上向きの兆し",
+          "次は『標準問題の取り切り』で安定化",
+          "単発○×が入ると優先課題が確定",
+        ],
+        tags: ["上昇", "伸び始め", "定着"],
+      },
+      child_simple: {
+        title: "きみへのメッセージ",
+        body:
+          "さいきん、少しずつできることが増えてきたよ。\n" +
+          "つぎは『みんなができる問題』をていねいに取るだけでOK。\n" +
+          "あせらず、1つずついこう！",
+        action: "途中式を1行でも書いてから答える",
+      },
+      parent_handout: {
+        title: "成績状況のご報告（要点）",
+        summary:
+          "成績は上向きの兆しが見えています。次は標準問題の取り切りを意識することで、伸びが定着しやすくなります。",
+        points: [
+          "年間推移：上昇傾向の兆し",
+          "課題：標準問題の安定得点",
+          "単発○×正答率で優先課題を確定可能",
+        ],
+        nextAction: "標準問題の見直しルール（最後5分）を固定する",
+      },
+    };
+  }
+
+  if (c === "unstable") {
+    return {
+      menndan_1min: {
+        title: baseTitle,
+        body:
+          "推移を見ると、公開模試の偏差値が下向きです。\n" +
+          "範囲のある育成テストに比べて、初見の問題や時間配分で失点が増えている可能性があります。\n\n" +
+          "次回は、直近の公開模試の解き直しで『落とした標準問題』を特定し、取りこぼしを止めることを最優先にします。" +
+          (hasMistakeData ? "" : "\n（単発の○×正答率一覧が入ると、A/B/Cのどこで落ちているかが明確になります。）"),
+        bullets: [
+          "公開模試の偏差値が下向き",
+          "まずは取りこぼしを止める",
+          "直近の公開の解き直しで原因を特定",
+        ],
+        tags: ["下降", "立て直し", "解き直し"],
+      },
+      child_simple: {
+        title: "きみへのメッセージ",
+        body:
+          "さいきん、公開模試で点がとりにくくなってるね。\n" +
+          "でも、落とした問題を1つずつ直せばだいじょうぶ。\n" +
+          "つぎは『まちがえた問題をもう一回とく』からはじめよう。",
+        action: "公開模試でまちがえた問題を1日1問とき直す",
+      },
+      parent_handout: {
+        title: "成績状況のご報告（要点）",
+        summary:
+          "公開模試の偏差値が下向きです。直近の公開模試の解き直しで失点の原因を特定し、取りこぼしを止めることを優先します。",
+        points: [
+          "年間推移：公開模試の偏差値が下降",
+          "課題：初見問題・時間配分での取りこぼし",
+          "次回：公開模試の解き直しで原因を特定",
+        ],
+        nextAction: "直近の公開模試を、落とした標準問題から解き直す",
+      },
+    };
+  }
+
+  if (c === "volatile") {
+    return {
+      menndan_1min: {
+        title: baseTitle,
+        body:
+          "推移を見ると、力はある一方で結果に波が出やすい状態です。\n" +
+          "このタイプは『難しい問題を増やす』よりも、『取りこぼしを減らす』方が伸びます。\n\n" +
+          "次回は、易〜標準の取り切り（計算チェック・見直し手順の固定）を最優先にします。" +
+          (hasMistakeData ? "" : "\n（単発の○×正答率一覧が入ると、A/B/Cのどこで落ちているかが明確になります。）"),
+        bullets: [
+          "結果に波が出やすい",
+          "優先は『取りこぼし削減』",
+          "見直し手順の固定が効く",
+        ],
+        tags: ["不安定", "精度", "見直し"],
+      },
+      child_simple: {
+        title: "きみへのメッセージ",
+        body:
+          "できる力はあるよ。\n" +
+          "でも、ときどき『かんたんな問題』でミスが出ちゃうことがある。\n" +
+          "つぎは『かんたんな問題をぜったい落とさない』をいちばん大事にしよう。",
+        action: "さいごの3分でかんたんな問題だけ見直す",
+      },
+      parent_handout: {
+        title: "成績状況のご報告（要点）",
+        summary:
+          "学力はありますが、結果に波が出やすい状態です。易〜標準の取りこぼし削減を優先すると安定しやすくなります。",
+        points: [
+          "年間推移：上下の波が見られる",
+          "課題：易〜標準の取りこぼし",
+          "次回：見直し手順の固定が最優先",
+        ],
+        nextAction: "計算チェック／見直しの型を1つに固定する",
+      },
+    };
+  }
+
+  // stable / unknown
+  return {
+    menndan_1min: {
+      title: baseTitle,
+      body:
+        "推移を見ると、現状は大きく崩れてはいません。\n" +
+        "次に伸ばすには、『取れる問題を安定して取り切る』ことを軸にすると効果が出やすいです。" +
+        (hasMistakeData
+          ? ""
+          : "\n\n単発の○×正答率一覧が入ると、A/B/Cのどこを優先するべきかが確定し、面談コメントもより具体化できます。"),
+      bullets: [
+        "大崩れはしていない",
+        "次は『標準問題の取り切り』で伸びやすい",
+        "単発○×が入ると精密化できる",
+      ],
+      tags: ["安定", "次の一手", "標準問題"],
+    },
+    child_simple: {
+      title: "きみへのメッセージ",
+      body:
+        "いまのきみは、しっかり力がついてきてるよ。\n" +
+        "つぎは『ふつうの問題をまちがえない』を大事にしよう。",
+      action: "ふつうの問題を1回だけ見直す",
+    },
+    parent_handout: {
+      title: "成績状況のご報告（要点）",
+      summary:
+        "成績は安定しています。次は標準問題の取り切りを軸に、得点の安定感を高めていきます。",
+      points: [
+        "年間推移：大きな崩れはなし",
+        "課題：標準問題の安定得点",
+        "単発○×正答率で優先課題を確定可能",
+      ],
+      nextAction: "標準問題の見直しルールを継続する",
+    },
+  };
+}
+
+/* =========================
+   ✅ tone / target / focus
+========================= */
+export const FOCUS_ORDER: FocusAxis[] = ["mistake", "process", "knowledge", "attitude"];
+
+const PRIMARY_BY_TARGET: Record<Target, ReportKey> = {
+  student: "child_simple",
+  parent: "parent_handout",
+  teacher: "menndan_1min",
+};
+
+/**
+ * トーン別の言い回し
+ * - gentle：共感から入り、できている点を先に言う
+ * - balanced：優しさ7：厳しさ3（まなぶ先生の標準）
+ * - strict：結論先出し、やることを言い切る
+ */
+const TONE_PHRASES: Record<
+  Tone,
+  { lead: string; close: string; childLead: string; childClose: string; parentClose: string; actionPrefix: string }
+> = {
+  gentle: {
+    lead: "まずは、ここまで本当によく頑張っています。\n",
+    close: "焦らず、できることを一つずつ積み上げていきましょう。",
+    childLead: "いつもがんばってるね！\n",
+    childClose: "できたら、自分をしっかりほめてあげよう。",
+    parentClose: "ご家庭では、できたことを認める声かけをしていただけると励みになります。",
+    actionPrefix: "",
+  },
+  balanced: {
+    lead: "",
+    close: "良いところは続け、直すべきところは今のうちにはっきり直していきます。",
+    childLead: "",
+    childClose: "やることは1つだけ。毎回つづけよう。",
+    parentClose: "ご家庭でも、次回までの取り組みを一緒に確認していただけると助かります。",
+    actionPrefix: "",
+  },
+  strict: {
+    lead: "結論から申し上げます。\n",
+    close: "ここを曖昧にしたままだと、次も同じところで失点します。次回までに必ず手を打ちます。",
+    childLead: "ここは大事な話だよ。\n",
+    childClose: "『わかったつもり』はナシ。毎回かならずやろう。",
+    parentClose: "次回までに実行できているか、ご家庭でも必ずご確認ください。",
+    actionPrefix: "【必須】",
+  },
+};
+
+function applyTone(base: Omit<Reports, "primary">, tone: Tone): Omit<Reports, "primary"> {
+  const p = TONE_PHRASES[tone];
+  return {
+    menndan_1min: {
+      ...base.menndan_1min,
+      body: `${p.lead}${base.menndan_1min.body}\n\n${p.close}`,
+    },
+    child_simple: {
+      ...base.child_simple,
+      body: `${p.childLead}${base.child_simple.body}\n${p.childClose}`,
+      action: base.child_simple.action ? `${p.actionPrefix}${base.child_simple.action}` : base.child_simple.action,
+    },
+    parent_handout: {
+      ...base.parent_handout,
+      summary: `${base.parent_handout.summary}${p.parentClose}`,
+      nextAction: `${p.actionPrefix}${base.parent_handout.nextAction}`,
+    },
+  };
+}
+
+export function trendLabel(t: Trend) {
+  if (t === "up") return "上向き";
+  if (t === "down") return "下向き";
+  if (t === "flat") return "横ばい";
+  return "判定不可（データ不足）";
+}
+
+/** 観点（focus）ごとに1セクション（strict：講師向けの言い切りの文面） */
+function buildFocusSections(params: {
+  focus: FocusAxis[];
+  strict: boolean;
+  trends: YearlyTrends;
+  mistakeSummary: MistakeSummary;
+}): ReportSection[] {
+  const { focus, strict, trends, mistakeSummary } = params;
+
+  return FOCUS_ORDER.filter((k) => focus.includes(k)).map((axis): ReportSection => {
+    if (axis === "mistake") {
+      const combined = mistakeSummary.combined;
+      const body =
+        mistakeSummary.status === "ok" && combined
+          ? [
+              combined.insight,
+              ...(mistakeSummary.subjects ?? []).map((s) => s.insight),
+              combined.byLevel.A.miss > 0
+                ? strict
+                  ? "A問題の失点はゼロにできる失点です。見直しの型を決めて必ず潰します。"
+                  : "A問題の失点は、見直しの型を決めるだけで減らせる失点です。"
+                : "A問題は取り切れているので、次はB問題の精度を上げていきます。",
+            ].join("\n")
+          : "単発の○×正答率が未取得のため、ミス傾向は年間推移からの推定です。取りこぼしの有無は次回の単発で確認します。";
+      return { axis, title: "ミス分析", body };
+    }
+
+    if (axis === "process") {
+      return {
+        axis,
+        title: "思考プロセス",
+        body: strict
+          ? "答えだけを書く解き方は禁止です。図・線分図・式を必ず残し、どこで間違えたかを後から追える答案にします。"
+          : "図や式を1行でも残してから答える習慣をつけると、考え方の順序が整い、ミスの原因も見つけやすくなります。",
+      };
+    }
+
+    if (axis === "knowledge") {
+      const ik = trends.ikusei.trend;
+      const body =
+        ik === "down"
+          ? "育成テスト（範囲の定着度）が下向きです。直近の範囲で典型解法の抜けがないか、テキストの例題に戻って確認します。"
+          : ik === "up"
+            ? "育成テスト（範囲の定着度）は上向きです。今の復習サイクルで典型解法が定着してきています。"
+            : `育成テスト（範囲の定着度）は${trendLabel(ik)}です。例題レベルの典型解法を繰り返し、抜けを作らないことを優先します。`;
+      return { axis, title: "知識・定着", body };
+    }
+
+    const kk = trends.kokai.trend;
+    return {
+      axis,
+      title: "姿勢・習慣",
+      body:
+        kk === "down"
+          ? strict
+            ? "公開模試が下向きです。時間配分と見直しの時間を毎回同じに固定し、復習を翌日までに必ず終わらせます。"
+            : "公開模試がやや下向きです。時間配分と見直しの時間を決めておき、復習のサイクルを崩さないようにしましょう。"
+          : `公開模試は${trendLabel(kk)}です。解き直しを翌日までに終える復習サイクルと、最後5分の見直しを継続します。`,
+    };
+  });
+}
+
+export function buildReports(params: {
+  analysisMode: AnalysisMode;
+  studentType: StudentType;
+  isTwoSubjectStudent: boolean;
+  trends: YearlyTrends;
+  mistakeSummary: MistakeSummary;
+  selections: Selections;
+  warnings: string[];
+  targetGaps?: TargetGapSummary | null;
+}): Reports {
+  const { analysisMode, studentType, isTwoSubjectStudent, trends, mistakeSummary, selections, warnings, targetGaps } =
+    params;
+
+  const c = pickReportCase(trends, warnings);
+  const base = buildCaseReports({
+    analysisMode,
+    studentType,
+    isTwoSubjectStudent,
+    hasMistakeData: mistakeSummary.status === "ok",
+    c,
+  });
+
+  const toned = applyTone(base, selections.tone);
+
+  // ✅ 志望校が登録されていれば、面談・保護者向けの先頭に「志望校との差」
+  const buildSections = (strict: boolean): ReportSection[] => {
+    const sections = buildFocusSections({ focus: selections.focus, strict, trends, mistakeSummary });
+    return targetGaps
+      ? [{ axis: "target", title: "志望校との差", body: describeTargetGaps(targetGaps, strict) }, ...sections]
+      : sections;
+  };
+
+  return {
+    primary: PRIMARY_BY_TARGET[selections.target],
+    menndan_1min: { ...toned.menndan_1min, sections: buildSections(selections.tone === "strict") },
+    child_simple: toned.child_simple,
+    // ✅ 保護者向けの観点・志望校の文面は、厳しめトーンでも講師向けの言い切りにしない
+    parent_handout: { ...toned.parent_handout, sections: buildSections(false) },
+  };
+}
+
+/**
+ * 推移判定 → 2科/4科判定 → レポート文面 を一括で
+ * - warnings はこの段で出たものだけ（抽出時の warnings は呼び出し側で前に足す）
+ */
+export function runReportStage(params: {
+  yearly: JukuReportJson | null;
+  analysisMode: AnalysisMode;
+  mistakeSummary: MistakeSummary;
+  selections: Selections;
+  // ✅ 生徒の志望校（student_targets）。無ければ差のセクションは出さない
+  targets?: TargetSchool[];
+}) {
+  const { yearly, analysisMode, mistakeSummary, selections, targets = [] } = params;
+  const warnings: string[] = [];
+
+  const { studentType, isTwoSubjectStudent } = detectStudentTypeFromYearly(yearly, warnings);
+  const trends = extractYearlyTrends(yearly);
+  // ✅ 志望校との差・次回の見込みは同じ1系列（4科、2科目生は2科）で見る
+  const kokaiSeries = pickTargetSeries({ four: trends.kokaiFourValues, two: trends.kokaiTwoValues }, isTwoSubjectStudent);
+  const targetGaps = computeTargetGaps(kokaiSeries, targets);
+  const reports = buildReports({
+    analysisMode,
+    studentType,
+    isTwoSubjectStudent,
+    trends,
+    mistakeSummary,
+    selections,
+    warnings,
+    targetGaps,
+  });
+  // 注意文は buildReports 側で出しているので、ここでは捨てる
+  const reportCase = pickReportCase(trends, []);
+  // ✅ 次回の公開模試の見込み（講師画面のみ。reports には入れない）
+  const forecast = forecastNextKokai({ kokai: kokaiSeries, ikuseiGrades: trends.ikuseiGradeValues });
+  // ✅ 科目別の推移（公開模試の科目行）→ 弱点・伸びた科目
+  const subjectTrends = computeSubjectTrends(yearly);
+
+  return { studentType, isTwoSubjectStudent, trends, reportCase, targetGaps, forecast, subjectTrends, reports, warnings };
+}
@@ -0,0 +1,88 @@
+// lib/studentContext.test.ts
+import { describe, expect, it } from "vitest";
+import { classify, type LevelCounts, type MistakeSummary } from "@/lib/mistakeSummary";
+import { buildStudentContext, type ContextTest } from "@/lib/studentContext";
+
+type Totals = { deviation?: number | null; grade?: number | null };
+
+function row(testType: string, date: string, two: Totals, four?: Totals): ContextTest {
+  return { testType, testName: null, date, totals: { two, four } };
+}
+
+const levels = (a: [number, number], b: [number, number], c: [number, number]): LevelCounts => ({
+  A: { miss: a[0], total: a[1] },
+  B: { miss: b[0], total: b[1] },
+  C: { miss: c[0], total: c[1] },
+});
+
+const mistakeSummary: MistakeSummary = {
+  status: "ok",
+  message: "",
+  subjects: [
+    {
+      subject: "sansuu",
+      label: "算数",
+      byLevel: levels([1, 5], [2, 4], [3, 3]),
+      items: [],
+      abMiss: 3,
+      abLostPoints: null,
+      insight: "",
+    },
+  ],
+  combined: {
+    byLevel: levels([1, 5], [2, 4], [3, 3]),
+    abLoss: [{ subject: "sansuu", label: "算数", abMiss: 3, abLostPoints: null }],
+    worstSubject: "sansuu",
+    insight: "A/Bの取りこぼしは算数が最多",
+  },
+};
+
+describe("buildStudentContext", () => {
+  it("分析も成績も無い生徒は null（チャットに差し込まない）", () => {
+    expect(buildStudentContext({ studentId: "S001", name: null, timeline: [], latest: null })).toBeNull();
+    expect(
+      buildStudentContext({
+        studentId: "S001",
+        name: null,
+        timeline: [row("kokai_moshi", "2026-04-19", { deviation: null }, { deviation: null })],
+        latest: { createdAt: "2026-10-01T00:00:00Z", yearlyTrends: null, mistakeSummary: null },
+      })
+    ).toBeNull();
+  });
+
+  it("成績・推移・ミス傾向がそろった生徒は実際の数値を並べる", () => {
+    const text = buildStudentContext({
+      studentId: "S001",
+      name: "山田",
+      timeline: [
+        row("ikusei", "2026-04-05", { grade: 6 }),
+        row("kokai_moshi", "2026-04-19", { deviation: 55 }, { deviation: 54 }),
+        row("ikusei", "2026-05-10", { grade: 7 }),
+        row("kokai_moshi", "2026-05-24", { deviation: 52 }, { deviation: 51 }),
+      ],
+      latest: {
+        createdAt: "2026-10-01T09:00:00Z",
+        yearlyTrends: { ikusei: { trend: "up" }, kokai: { trend: "down" } },
+        mistakeSummary,
+      },
+    });
+
+    expect(text?.split("\n")).toEqual([
+      "【この相談の対象生徒のデータ】（生徒ID：S001 / 山田）",
+      "・公開模試 偏差値（古い順・直近8回）：2026-04-19 54 → 2026-05-24 51",
+      "・育成テスト 評価（古い順・直近8回）：2026-04-05 6 → 2026-05-10 7",
+      "・推移の判定：育成=上昇 / 公開=下降",
+      "・直近の単発テストのミス傾向（正答率でA=70%以上/B=40〜70%/C=40%未満に分類）：",
+      "  - 算数：A ×1/5問、B ×2/4問、C ×3/3問",
+      "  - A/Bの取りこぼしは算数が最多",
+      "（最終分析日：2026-10-01）",
+      "",
+      "このデータに関する質問には、必ず上の実際の数値を引用して答えてください（例：「公開の偏差値が54→51に下がっています」）。",
+      "ここに無い数値は推測で作らないこと。データから言えないことは「データからは分からない」と伝えること。",
+    ]);
+  });
+
+  it("説明文の A/B/C の区切りは classify() と同じ", () => {
+    expect([classify(70), classify(69.9), classify(40), classify(39.9)]).toEqual(["A", "B", "B", "C"]);
+  });
+});
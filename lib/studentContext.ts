@@ -0,0 +1,105 @@
+// lib/studentContext.ts
+import { DIFFICULTY_THRESHOLDS, type MistakeSummary } from "@/lib/mistakeSummary";
+
+type Num = number | null | undefined;
+
+/** students.timeline の1件（JukuReportJson.tests と同じ形）のうち、ここで使う項目 */
+export type ContextTest = {
+  testType: string;
+  testName: string | null;
+  date: string | null;
+  totals?: {
+    two?: { score?: Num; deviation?: Num; grade?: Num };
+    four?: { score?: Num; deviation?: Num; grade?: Num };
+  };
+};
+
+type TrendLike = { trend?: string; values?: number[] };
+
+export type StudentContextInput = {
+  studentId: string;
+  name: string | null;
+  timeline: ContextTest[];
+  latest: {
+    createdAt: string | null;
+    yearlyTrends: { ikusei?: TrendLike; kokai?: TrendLike } | null;
+    mistakeSummary: MistakeSummary | null;
+  } | null;
+};
+
+function n(v: Num) {
+  return typeof v === "number" && Number.isFinite(v) ? v : null;
+}
+
+function trendJa(t?: string) {
+  if (t === "up") return "上昇";
+  if (t === "down") return "下降";
+  if (t === "flat") return "横ばい";
+  return "判定不可";
+}
+
+/** 直近 max 件を「日付 値」で並べる */
+function series(rows: Array<{ date: string | null; value: number | null }>, max: number) {
+  return rows
+    .filter((r) => r.value != null)
+    .slice(-max)
+    .map((r) => `${r.date ?? "日付不明"} ${r.value}`)
+    .join(" → ");
+}
+
+/**
+ * チャット用の「この子のデータ」コンテキスト（system メッセージとして差し込む）
+ * - 数値は students.timeline / 直近の analyses からそのまま書き出す
+ * - データが何も無ければ null
+ */
+export function buildStudentContext(input: StudentContextInput): string | null {
+  const { studentId, name, timeline, latest } = input;
+
+  const kokai = timeline
+    .filter((t) => t.testType === "kokai_moshi")
+    .map((t) => ({ date: t.date, value: n(t.totals?.four?.deviation) ?? n(t.totals?.two?.deviation) }));
+  const ikusei = timeline
+    .filter((t) => t.testType === "ikusei")
+    .map((t) => ({ date: t.date, value: n(t.totals?.two?.grade) ?? n(t.totals?.four?.grade) }));
+
+  const ms = latest?.mistakeSummary;
+  const hasMistake = ms?.status === "ok" && !!ms.subjects?.length;
+
+  if (!kokai.some((r) => r.value != null) && !ikusei.some((r) => r.value != null) && !hasMistake) return null;
+
+  const lines: string[] = [
+    `【この相談の対象生徒のデータ】（生徒ID：${studentId}${name ? ` / ${name}` : ""}）`,
+  ];
+
+  if (kokai.some((r) => r.value != null)) {
+    lines.push(`・公開模試 偏差値（古い順・直近8回）：${series(kokai, 8)}`);
+  }
+  if (ikusei.some((r) => r.value != null)) {
+    lines.push(`・育成テスト 評価（古い順・直近8回）：${series(ikusei, 8)}`);
+  }
+
+  const yt = latest?.yearlyTrends;
+  if (yt) {
+    lines.push(`・推移の判定：育成=${trendJa(yt.ikusei?.trend)} / 公開=${trendJa(yt.kokai?.trend)}`);
+  }
+
+  if (hasMistake && ms) {
+    const { A: a, B: b } = DIFFICULTY_THRESHOLDS;
+    lines.push(`・直近の単発テストのミス傾向（正答率でA=${a}%以上/B=${b}〜${a}%/C=${b}%未満に分類）：`);
+    for (const s of ms.subjects ?? []) {
+      const lv = s.byLevel;
+      lines.push(`  - ${s.label}：A ×${lv.A.miss}/${lv.A.total}問、B ×${lv.B.miss}/${lv.B.total}問、C ×${lv.C.miss}/${lv.C.total}問`);
+    }
+    if (ms.combined) lines.push(`  - ${ms.combined.insight}`);
+  }
+
+  if (latest?.createdAt) lines.push(`（最終分析日：${latest.createdAt.slice(0, 10)}）`);
+
+  lines.push(
+    "",
+    "このデータに関する質問には、必ず上の実際の数値を引用して答えてください（例：「公開の偏差値が54→51に下がっています」）。",
+    "ここに無い数値は推測で作らないこと。データから言えないことは「データからは分からない」と伝えること。"
+  );
+
+  return lines.join("\n");
+}
@@ -0,0 +1,117 @@
+// lib/studentTargets.ts
+import { createAdminClient } from "@/lib/supabase/admin";
+import { sortTargets, type TargetInput, type TargetSchool } from "@/lib/targetSchools";
+
+/**
+ * 志望校（student_targets）の読み書き
+ * - 講師チェックは呼び出し側（/api/students/:id/targets）で済ませてから Service Role で
+ * - 差の計算・文面は lib/targetSchools（DBに触らない）
+ */
+
+const supabase = createAdminClient();
+
+const TARGET_COLUMNS = "id, school_name, line80, line50, priority";
+
+type TargetRow = {
+  id: string;
+  school_name: string;
+  line80: number | string | null;
+  line50: number | string | null;
+  priority: number;
+};
+
+// numeric は文字列で返ってくることがある
+function num(v: number | string | null): number | null {
+  if (v == null) return null;
+  const n = Number(v);
+  return Number.isFinite(n) ? n : null;
+}
+
+function toTarget(row: TargetRow): TargetSchool {
+  return {
+    id: row.id,
+    schoolName: row.school_name,
+    line80: num(row.line80),
+    line50: num(row.line50),
+    priority: row.priority,
+  };
+}
+
+export async function listStudentTargets(studentId: string): Promise<TargetSchool[]> {
+  const { data, error } = await supabase
+    .from("student_targets")
+    .select(TARGET_COLUMNS)
+    .eq("student_id", studentId);
+
+  if (error) throw new Error(error.message);
+  return sortTargets((data ?? []).map((row) => toTarget(row as TargetRow)));
+}
+
+/** 生徒の行がまだ無ければ作る（分析前に志望校だけ先に登録できるように） */
+export async function createStudentTarget(params: {
+  studentId: string;
+  target: TargetInput;
+  teacherId: string;
+}): Promise<TargetSchool> {
+  const { studentId, target, teacherId } = params;
+
+  const { error: stErr } = await supabase
+    .from("students")
+    .upsert({ id: studentId }, { onConflict: "id", ignoreDuplicates: true });
+  if (stErr) throw new Error(stErr.message);
+
+  const { data, error } = await supabase
+    .from("student_targets")
+    .insert({
+      student_id: studentId,
+      school_name: target.schoolName,
+      line80: target.line80,
+      line50: target.line50,
+      priority: target.priority,
+      created_by: teacherId,
+    })
+    .select(TARGET_COLUMNS)
+    .single();
+
+  if (error || !data) throw new Error(error?.message ?? "志望校を登録できませんでした");
+  return toTarget(data as TargetRow);
+}
+
+/** 見つからなければ null */
+export async function updateStudentTarget(params: {
+  studentId: string;
+  targetId: string;
+  target: TargetInput;
+}): Promise<TargetSchool | null> {
+  const { studentId, targetId, target } = params;
+
+  const { data, error } = await supabase
+    .from("student_targets")
+    .update({
+      school_name: target.schoolName,
+      line80: target.line80,
+      line50: target.line50,
+      priority: target.priority,
+      updated_at: new Date().toISOString(),
+    })
+    .eq("id", targetId)
+    .eq("student_id", studentId)
+    .select(TARGET_COLUMNS)
+    .maybeSingle();
+
+  if (error) throw new Error(error.message);
+  return data ? toTarget(data as TargetRow) : null;
+}
+
+/** 消した件数が 0 なら false */
+export async function deleteStudentTarget(studentId: string, targetId: string): Promise<boolean> {
+  const { data, error } = await supabase
+    .from("student_targets")
+    .delete()
+    .eq("id", targetId)
+    .eq("student_id", studentId)
+    .select("id");
+
+  if (error) throw new Error(error.message);
+  return (data ?? []).length > 0;
+}
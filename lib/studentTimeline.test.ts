@@ -0,0 +1,48 @@
+// lib/studentTimeline.test.ts
+import { describe, expect, it } from "vitest";
+import { applyCorrections, mergeTimeline } from "@/lib/studentTimeline";
+
+type T = { testType: string; testName: string | null; date: string | null; v?: number };
+
+const t = (date: string | null, v: number, testType = "kokai_moshi", testName: string | null = null): T => ({
+  testType,
+  testName,
+  date,
+  v,
+});
+
+describe("mergeTimeline", () => {
+  it("同じ種別+日付は上書き、結果は日付順", () => {
+    const r = mergeTimeline([t("2026-05-10", 1), t("2026-04-12", 1)], [t("2026-05-10", 2), t("2026-06-07", 2)]);
+    expect(r.timeline.map((x) => [x.date, x.v])).toEqual([
+      ["2026-04-12", 1],
+      ["2026-05-10", 2],
+      ["2026-06-07", 2],
+    ]);
+    expect(r).toMatchObject({ added: 1, updated: 1 });
+  });
+});
+
+describe("applyCorrections", () => {
+  const other = t("2025-12-01", 9); // 別の分析で入った回
+  const original = [t("2026-04-12", 50), t("2026-05-01", 48)];
+
+  it("日付を直した行は古いキーが残らない", () => {
+    const corrected = [t("2026-04-12", 50), t("2026-05-10", 48)];
+    const r = applyCorrections([other, ...original], original, corrected);
+    expect(r.timeline.map((x) => x.date)).toEqual(["2025-12-01", "2026-04-12", "2026-05-10"]);
+    expect(r.removed).toBe(1);
+  });
+
+  it("削除した行は消え、他の分析の回はそのまま", () => {
+    const r = applyCorrections([other, ...original], original, [original[0]]);
+    expect(r.timeline.map((x) => x.date)).toEqual(["2025-12-01", "2026-04-12"]);
+  });
+
+  it("追加・値の修正は入る", () => {
+    const corrected = [t("2026-04-12", 52), t("2026-05-01", 48), t("2026-06-07", 47)];
+    const r = applyCorrections([other, ...original], original, corrected);
+    expect(r.timeline.map((x) => x.v)).toEqual([9, 52, 48, 47]);
+    expect(r.removed).toBe(0);
+  });
+});
@@ -0,0 +1,71 @@
+// lib/studentTimeline.ts
+
+/** タイムラインに載せるテスト（JukuReportJson.tests の1件）に最低限必要な形 */
+export type TimelineTest = {
+  testType: string;
+  testName: string | null;
+  date: string | null; // YYYY-MM-DD
+};
+
+/**
+ * 同じテストかどうかのキー
+ * - 育成/公開は「種別 + 実施日」で一意（OCRで回数表記が揺れても同一扱い）
+ * - 日付が取れていないものだけ testName で代用
+ */
+export function timelineKey(t: TimelineTest) {
+  return `${t.testType}|${t.date ?? `name:${t.testName ?? ""}`}`;
+}
+
+export function sortTimeline<T extends TimelineTest>(tests: T[]): T[] {
+  return [...tests].sort((a, b) => {
+    const da = a.date ?? "";
+    const db = b.date ?? "";
+    if (da && db) return da.localeCompare(db);
+    if (da && !db) return -1;
+    if (!da && db) return 1;
+    return String(a.testName ?? "").localeCompare(String(b.testName ?? ""));
+  });
+}
+
+/**
+ * 既存の時系列に今回の抽出結果をマージ
+ * - 同じキーは今回の値で上書き（再OCR・読み直しを優先）
+ * - 結果は日付順
+ */
+export function mergeTimeline<T extends TimelineTest>(
+  existing: T[],
+  incoming: T[]
+): { timeline: T[]; added: number; updated: number } {
+  const byKey = new Map<string, T>();
+  for (const t of existing) byKey.set(timelineKey(t), t);
+
+  let added = 0;
+  let updated = 0;
+  for (const t of incoming) {
+    const k = timelineKey(t);
+    if (byKey.has(k)) updated += 1;
+    else added += 1;
+    byKey.set(k, t);
+  }
+
+  return { timeline: sortTimeline([...byKey.values()]), added, updated };
+}
+
+/**
+ * 講師の修正を時系列に反映
+ * - 修正前（この分析で入れた分）のキーを一度抜いてから、修正後を入れ直す
+ *   → 日付の打ち間違いを直した・行を消した場合に古い行が残らない
+ * - 他の分析で入った回はそのまま
+ */
+export function applyCorrections<T extends TimelineTest>(
+  existing: T[],
+  original: T[],
+  corrected: T[]
+): { timeline: T[]; removed: number } {
+  const correctedKeys = new Set(corrected.map(timelineKey));
+  const drop = new Set(original.map(timelineKey).filter((k) => !correctedKeys.has(k)));
+  const kept = existing.filter((t) => !drop.has(timelineKey(t)));
+  const removed = existing.length - kept.length;
+
+  return { timeline: mergeTimeline(kept, corrected).timeline, removed };
+}
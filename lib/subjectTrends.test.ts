@@ -0,0 +1,104 @@
+// lib/subjectTrends.test.ts
+import { readFileSync } from "fs";
+import path from "path";
+import { describe, expect, it } from "vitest";
+import type { JukuReportJson, JukuTest } from "@/lib/jukuReportSchema";
+import { computeSubjectTrends, extractSubjectSeries, normalizeSubjectName } from "@/lib/subjectTrends";
+import { buildYearlyFromOcrTextAuto } from "@/lib/yearlyParser";
+
+const FIXTURE_DIR = path.join(__dirname, "..", "fixtures", "yearly");
+
+function kokai(date: string | null, subjects: Array<[string, number | null]>): JukuTest {
+  return {
+    testType: "kokai_moshi",
+    testName: null,
+    date,
+    subjects: subjects.map(([name, deviation]) => ({ name, score: null, deviation, rank: null })),
+    totals: {
+      two: { score: null, deviation: null, rank: null, grade: null },
+      four: { score: null, deviation: null, rank: null, grade: null },
+    },
+    notes: [],
+  };
+}
+
+function yearlyOf(tests: JukuTest[]): JukuReportJson {
+  return {
+    docType: "juku_report",
+    student: { name: null, id: null },
+    meta: { sourceFilename: null, title: null },
+    tests,
+    notes: [],
+  };
+}
+
+describe("normalizeSubjectName", () => {
+  it.each([
+    ["算数(150)", "算数"],
+    [" 国 語 ", "国語"],
+    ["英語", "英語"],
+    ["", null],
+    [null, null],
+  ])("%s → %s", (input, expected) => {
+    expect(normalizeSubjectName(input)).toBe(expected);
+  });
+});
+
+describe("extractSubjectSeries", () => {
+  it("公開模試だけを日付順に、科目名をそろえて寄せる", () => {
+    const ikusei: JukuTest = { ...kokai("2026-04-05", [["国語", 70]]), testType: "ikusei" };
+    const series = extractSubjectSeries(
+      yearlyOf([kokai("2026-06-21", [["国語(150)", 52]]), ikusei, kokai("2026-05-24", [["国語", 50]])])
+    );
+
+    expect([...series.keys()]).toEqual(["国語"]);
+    expect(series.get("国語")?.map((p) => p.deviation)).toEqual([50, 52]);
+  });
+});
+
+describe("computeSubjectTrends", () => {
+  it("弱点は直近平均が最低、伸びた科目は上昇のうち変化が最大", () => {
+    const a = computeSubjectTrends(
+      yearlyOf([
+        kokai("2026-04-19", [["国語", 52], ["算数", 46], ["理科", 50]]),
+        kokai("2026-05-24", [["国語", 51], ["算数", 49], ["理科", 51]]),
+        kokai("2026-06-21", [["国語", 50], ["算数", 52], ["理科", 53]]),
+        kokai("2026-07-12", [["国語", 49], ["算数", 55], ["理科", 54]]),
+      ])
+    );
+
+    expect(a.subjects.map((s) => s.name)).toEqual(["算数", "国語", "理科"]);
+    expect(a.weakest).toMatchObject({ name: "国語", recentAverage: 50, deviation: 49 });
+    expect(a.mostImproved).toMatchObject({ name: "算数", trend: "up" });
+    expect(a.subjects.find((s) => s.name === "国語")?.trend).toBe("down");
+  });
+
+  it("上向きの科目が無い・回数が少なければ伸びた科目は null", () => {
+    const a = computeSubjectTrends(
+      yearlyOf([kokai("2026-04-19", [["国語", 45], ["算数", 50]]), kokai("2026-05-24", [["国語", 55], ["算数", 50]])])
+    );
+
+    expect(a.weakest?.name).toBe("算数");
+    expect(a.mostImproved).toBeNull();
+  });
+
+  it("科目行が無ければ空", () => {
+    expect(computeSubjectTrends(yearlyOf([kokai("2026-04-19", [])]))).toEqual({
+      subjects: [],
+      weakest: null,
+      mostImproved: null,
+    });
+    expect(computeSubjectTrends(null).subjects).toEqual([]);
+  });
+
+  it("年間PDFの科目列から（読めなかった偏差の回は系列から外す）", () => {
+    const text = readFileSync(path.join(FIXTURE_DIR, "kokai-subject-columns.txt"), "utf8");
+    const a = computeSubjectTrends(buildYearlyFromOcrTextAuto(text, "x.pdf").yearly);
+
+    expect(a.weakest?.name).toBe("国語");
+    expect(a.mostImproved?.name).toBe("算数");
+    const rika = a.subjects.find((s) => s.name === "理科");
+    expect(rika).toMatchObject({ count: 5, deviation: 57 });
+    expect(a.subjects.find((s) => s.name === "社会")?.series).toHaveLength(5);
+  });
+});
@@ -0,0 +1,150 @@
+// lib/subjectTrends.ts
+import type { JukuReportJson } from "@/lib/jukuReportSchema";
+import { SUBJECT_KEYS, SUBJECT_LABELS } from "@/lib/mistakeSummary";
+import { MOVING_AVERAGE_WINDOW, computeTrendStats, isConfident, type Trend, type TrendStats } from "@/lib/trendStats";
+
+/**
+ * 科目別の推移（公開模試の tests[].subjects）
+ * - 4科の偏差値だけでは「どの科目が足を引っ張っているか」が見えない → 科目ごとに系列を作る
+ * - 弱点：直近の平均偏差値がいちばん低い科目（1回の失敗で決めない）
+ * - 伸びた科目：回帰直線で上昇と判定でき、確からしさが「低い」でない科目のうち変化が最大
+ */
+
+/** 公開の偏差値と同じ（最初から最後までの直線での変化がこれ以上で上昇/下降） */
+const SUBJECT_TREND_THRESHOLD = 3;
+
+export type SubjectPoint = {
+  date: string | null;
+  testName: string | null;
+  score: number | null;
+  deviation: number | null;
+  rank: number | null;
+};
+
+export type SubjectTrend = {
+  name: string;
+  count: number; // 偏差値のある回数
+  // 直近の回（偏差値のある回）
+  score: number | null;
+  deviation: number | null;
+  rank: number | null;
+  recentAverage: number | null; // 直近 MOVING_AVERAGE_WINDOW 回の平均偏差値
+  minDeviation: number | null;
+  trend: Trend;
+  series: SubjectPoint[]; // 古い順
+  stats: TrendStats;
+};
+
+export type SubjectAnalysis = {
+  subjects: SubjectTrend[];
+  weakest: SubjectTrend | null;
+  mostImproved: SubjectTrend | null;
+};
+
+const KNOWN_NAMES = SUBJECT_KEYS.map((k) => SUBJECT_LABELS[k]);
+
+function round1(v: number) {
+  return Math.round(v * 10) / 10;
+}
+
+function num(v: unknown): number | null {
+  return typeof v === "number" && Number.isFinite(v) ? v : null;
+}
+
+/** 「算数(150)」「 国 語 」→ 算数 / 国語（知らない科目名は空白を除いてそのまま） */
+export function normalizeSubjectName(name: string | null | undefined): string | null {
+  const t = String(name ?? "").replace(/\s+/g, "");
+  if (!t) return null;
+  return KNOWN_NAMES.find((n) => t.includes(n)) ?? t;
+}
+
+/** 科目の並び：算数・国語・理科・社会 → それ以外は名前順 */
+function subjectOrder(a: string, b: string) {
+  const ia = KNOWN_NAMES.indexOf(a);
+  const ib = KNOWN_NAMES.indexOf(b);
+  if (ia >= 0 || ib >= 0) return (ia < 0 ? KNOWN_NAMES.length : ia) - (ib < 0 ? KNOWN_NAMES.length : ib);
+  return a.localeCompare(b, "ja");
+}
+
+/** 公開模試の科目行 → 科目ごとの系列（日付の古い順。日付の無い回は後ろ） */
+export function extractSubjectSeries(yearly: JukuReportJson | null): Map<string, SubjectPoint[]> {
+  const tests = (yearly?.tests ?? [])
+    .filter((t) => t.testType === "kokai_moshi")
+    .map((t, i) => ({ t, i }))
+    .sort((a, b) => {
+      const da = a.t.date ?? "";
+      const db = b.t.date ?? "";
+      if (da && db) return da.localeCompare(db) || a.i - b.i;
+      if (da || db) return da ? -1 : 1;
+      return a.i - b.i;
+    });
+
+  const series = new Map<string, SubjectPoint[]>();
+  for (const { t } of tests) {
+    for (const s of t.subjects ?? []) {
+      const name = normalizeSubjectName(s.name);
+      if (!name) continue;
+      const point: SubjectPoint = {
+        date: t.date,
+        testName: t.testName,
+        score: num(s.score),
+        deviation: num(s.deviation),
+        rank: num(s.rank),
+      };
+      if (point.score == null && point.deviation == null && point.rank == null) continue;
+      const list = series.get(name) ?? [];
+      list.push(point);
+      series.set(name, list);
+    }
+  }
+  return series;
+}
+
+function buildSubjectTrend(name: string, series: SubjectPoint[]): SubjectTrend {
+  const withDev = series.filter((p) => p.deviation != null);
+  const devs = withDev.map((p) => p.deviation as number);
+  const last = withDev.length ? withDev[withDev.length - 1] : null;
+  const recent = devs.slice(-MOVING_AVERAGE_WINDOW);
+  const stats = computeTrendStats(devs, SUBJECT_TREND_THRESHOLD);
+
+  return {
+    name,
+    count: devs.length,
+    score: last?.score ?? null,
+    deviation: last?.deviation ?? null,
+    rank: last?.rank ?? null,
+    recentAverage: recent.length ? round1(recent.reduce((a, b) => a + b, 0) / recent.length) : null,
+    minDeviation: devs.length ? Math.min(...devs) : null,
+    trend: stats.regression.trend,
+    series,
+    stats,
+  };
+}
+
+/**
+ * 科目別の推移 + 弱点 + 伸びた科目
+ * - 科目行が1つも無ければ subjects は空（弱点・伸びた科目も null）
+ */
+export function computeSubjectTrends(yearly: JukuReportJson | null): SubjectAnalysis {
+  const subjects = [...extractSubjectSeries(yearly).entries()]
+    .sort(([a], [b]) => subjectOrder(a, b))
+    .map(([name, series]) => buildSubjectTrend(name, series));
+
+  // 弱点：直近の平均偏差値が最低（同点なら直近の回が低い方）
+  const weakest =
+    subjects
+      .filter((s) => s.recentAverage != null)
+      .sort(
+        (a, b) =>
+          (a.recentAverage as number) - (b.recentAverage as number) ||
+          (a.deviation ?? Infinity) - (b.deviation ?? Infinity)
+      )[0] ?? null;
+
+  // 伸びた科目：上昇かつ確からしさが「低い」でない中で、直線での変化が最大
+  const mostImproved =
+    subjects
+      .filter((s) => s.trend === "up" && isConfident(s.stats.regression.confidence))
+      .sort((a, b) => (b.stats.regression.change ?? 0) - (a.stats.regression.change ?? 0))[0] ?? null;
+
+  return { subjects, weakest, mostImproved };
+}
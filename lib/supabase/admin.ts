@@ -0,0 +1,13 @@
+import { createClient } from "@supabase/supabase-js";
+
+/**
+ * Service Role クライアント（サーバー専用）
+ * - RLS をバイパスするので、呼び出し側で必ず権限チェックしてから使う
+ */
+export function createAdminClient() {
+  return createClient(
+    process.env.SUPABASE_URL!,
+    process.env.SUPABASE_SERVICE_ROLE_KEY!,
+    { auth: { persistSession: false } }
+  );
+}
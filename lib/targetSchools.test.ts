@@ -0,0 +1,160 @@
+// lib/targetSchools.test.ts
+import { describe, expect, it } from "vitest";
+import { buildReports, extractYearlyTrends } from "@/lib/reportStage";
+import {
+  computeTargetGaps,
+  describeTargetGaps,
+  formatGap,
+  parseTargetInput,
+  pickTargetSeries,
+  type TargetSchool,
+} from "@/lib/targetSchools";
+import type { JukuReportJson, JukuTest } from "@/lib/jukuReportSchema";
+
+const target = (over: Partial<TargetSchool>): TargetSchool => ({
+  id: "t1",
+  schoolName: "桜蔭",
+  line80: 60,
+  line50: 56,
+  priority: 1,
+  ...over,
+});
+
+const four = (values: number[]) => ({ scale: "four" as const, values });
+
+function kokaiTest(date: string, fourDev: number | null, twoDev: number | null): JukuTest {
+  return {
+    testType: "kokai_moshi",
+    testName: null,
+    date,
+    subjects: [],
+    totals: {
+      two: { score: twoDev == null ? null : 150, deviation: twoDev, rank: null, grade: null },
+      four: { score: fourDev == null ? null : 300, deviation: fourDev, rank: null, grade: null },
+    },
+    notes: [],
+  };
+}
+
+describe("pickTargetSeries", () => {
+  it("4科が無い回の2科偏差を4科の系列に混ぜない / 2科目生は2科だけ", () => {
+    const yearly: JukuReportJson = {
+      docType: "juku_report",
+      student: { name: null, id: null },
+      meta: { sourceFilename: null, title: null },
+      tests: [kokaiTest("2026-04-19", 50, 52), kokaiTest("2026-05-24", null, 58), kokaiTest("2026-06-21", 54, 55)],
+      notes: [],
+    };
+    const trends = extractYearlyTrends(yearly);
+    const kokai = { four: trends.kokaiFourValues, two: trends.kokaiTwoValues };
+
+    expect(pickTargetSeries(kokai, false)).toEqual({ scale: "four", values: [50, 54] });
+    expect(pickTargetSeries(kokai, true)).toEqual({ scale: "two", values: [52, 58, 55] });
+  });
+});
+
+describe("computeTargetGaps", () => {
+  it("今回（最後の回）と直近3回平均の両方で差を出し、判定は平均で行う", () => {
+    const summary = computeTargetGaps(four([48, 50, 54, 57]), [target({})]);
+
+    expect(summary).toMatchObject({ current: 57, recentAverage: 53.7, recentCount: 3 });
+    expect(summary?.gaps[0]).toMatchObject({
+      currentGap80: -3,
+      currentGap50: 1,
+      recentGap80: -6.3,
+      recentGap50: -2.3,
+      standing: "challenge",
+    });
+  });
+
+  it("志望順に並べ、ラインが片方だけでも判定する", () => {
+    const summary = computeTargetGaps(
+      four([55, 55, 55]),
+      [
+        target({ id: "b", schoolName: "吉祥女子", line80: null, line50: 54, priority: 2 }),
+        target({ id: "a", schoolName: "女子学院", line80: 55, line50: null, priority: 1 }),
+      ]
+    );
+
+    expect(summary?.gaps.map((g) => [g.targetId, g.standing])).toEqual([
+      ["a", "safe"],
+      ["b", "possible"],
+    ]);
+  });
+
+  it("志望校が無ければ null / 公開模試が無ければ判定不可", () => {
+    expect(computeTargetGaps(four([50]), [])).toBeNull();
+    expect(computeTargetGaps(four([]), [target({})])?.gaps[0].standing).toBe("unknown");
+  });
+});
+
+describe("describeTargetGaps", () => {
+  it("ライン・今回・平均の差を1校1行で並べる", () => {
+    const text = describeTargetGaps(computeTargetGaps(four([52, 54, 56]), [target({})])!, false);
+
+    expect(text).toContain("公開模試の偏差値（4科）：今回 56 / 直近3回平均 54");
+    expect(text).toContain("・第1志望 桜蔭：80%ライン 60（今回 −4.0 / 平均 −6.0）、50%ライン 56（今回 ±0 / 平均 −2.0） → 50%ライン未満");
+  });
+
+  it("偏差値が無いときはその旨だけ", () => {
+    expect(describeTargetGaps(computeTargetGaps(four([]), [target({})])!, false)).toContain("差は出せません");
+    expect(describeTargetGaps(computeTargetGaps({ scale: "two", values: [] }, [target({})])!, false)).toContain(
+      "2科の偏差値"
+    );
+  });
+});
+
+describe("formatGap", () => {
+  it("符号つき・小数1桁", () => {
+    expect([formatGap(1.5), formatGap(-2), formatGap(0), formatGap(null)]).toEqual(["+1.5", "−2.0", "±0", "-"]);
+  });
+});
+
+describe("parseTargetInput", () => {
+  it("ラインが両方空・80% < 50% はエラー", () => {
+    expect(parseTargetInput({ schoolName: "桜蔭", line80: null, line50: null, priority: 1 }).errors).toHaveLength(1);
+    expect(parseTargetInput({ schoolName: "桜蔭", line80: 50, line50: 55, priority: 1 }).errors[0]).toContain("80%ライン");
+    expect(parseTargetInput({ schoolName: " 桜蔭 ", line80: 60, line50: null, priority: 1 }).target?.schoolName).toBe("桜蔭");
+  });
+});
+
+describe("buildReports × 志望校", () => {
+  it("志望校があれば面談・保護者向けの先頭に「志望校との差」、無ければ出さない", () => {
+    const trends = extractYearlyTrends(null);
+    const params = {
+      analysisMode: "yearly-only" as const,
+      studentType: "four" as const,
+      isTwoSubjectStudent: false,
+      trends,
+      mistakeSummary: { status: "no-single" as const, message: "" },
+      selections: { tone: "balanced" as const, target: "parent" as const, focus: ["process" as const] },
+      warnings: [],
+    };
+
+    const withTargets = buildReports({ ...params, targetGaps: computeTargetGaps(four([]), [target({})]) });
+    expect(withTargets.parent_handout.sections?.map((s) => s.axis)).toEqual(["target", "process"]);
+    expect(withTargets.menndan_1min.sections?.[0].title).toBe("志望校との差");
+
+    expect(buildReports(params).parent_handout.sections?.map((s) => s.axis)).toEqual(["process"]);
+  });
+
+  it("厳しめトーンでも保護者向けの観点・志望校の文面は言い切りにしない（面談用だけ strict）", () => {
+    const reports = buildReports({
+      analysisMode: "yearly-only",
+      studentType: "four",
+      isTwoSubjectStudent: false,
+      trends: extractYearlyTrends(null),
+      mistakeSummary: { status: "no-single", message: "" },
+      selections: { tone: "strict", target: "parent", focus: ["process"] },
+      warnings: [],
+      targetGaps: computeTargetGaps(four([50, 50, 50]), [target({})]),
+    });
+    const bodies = (sections?: Array<{ body: string }>) => sections?.map((s) => s.body).join("\n") ?? "";
+
+    expect(bodies(reports.menndan_1min.sections)).toContain("最優先で進めます");
+    expect(bodies(reports.menndan_1min.sections)).toContain("答えだけを書く解き方は禁止です");
+    expect(bodies(reports.parent_handout.sections)).not.toContain("最優先で進めます");
+    expect(bodies(reports.parent_handout.sections)).toContain("平均を50%ラインに乗せることを目標にします");
+    expect(bodies(reports.parent_handout.sections)).not.toContain("禁止");
+  });
+});
@@ -0,0 +1,213 @@
+// lib/targetSchools.ts
+import { z } from "zod";
+
+/**
+ * 志望校（student_targets）と、公開模試の偏差値との差
+ * - 合格可能性 80% / 50% の偏差値ラインは塾で登録（外部の偏差値表は見に行かない）
+ * - 「今回」と「直近の平均」の両方で差を出す（1回の上下で判定が振れないように）
+ * - 偏差値は 4科（2科目生は2科）の1系列だけ。4科の回と2科の回を同じラインで比べない
+ */
+
+export type TargetSchool = {
+  id: string;
+  schoolName: string;
+  line80: number | null;
+  line50: number | null;
+  priority: number; // 第◯志望（小さいほど上）
+};
+
+/** 直近の平均に使う回数 */
+export const RECENT_WINDOW = 3;
+
+/** 偏差値ラインとして受け付ける範囲 */
+export const TARGET_LINE_RANGE = { min: 20, max: 80 };
+
+const LineSchema = z.number().min(TARGET_LINE_RANGE.min).max(TARGET_LINE_RANGE.max).nullable();
+
+/** 講師の登録・修正（POST / PATCH /api/students/:id/targets） */
+export const TargetInputSchema = z
+  .object({
+    schoolName: z.string().trim().min(1, "学校名を入力してください").max(60),
+    line80: LineSchema,
+    line50: LineSchema,
+    priority: z.number().int().min(1).max(10),
+  })
+  .refine((t) => t.line80 != null || t.line50 != null, {
+    message: "80%ラインか50%ラインのどちらかを入力してください",
+    path: ["line80"],
+  })
+  .refine((t) => t.line80 == null || t.line50 == null || t.line80 >= t.line50, {
+    message: "80%ラインは50%ライン以上にしてください",
+    path: ["line80"],
+  });
+
+export type TargetInput = z.infer<typeof TargetInputSchema>;
+
+const FIELD_LABELS: Record<string, string> = {
+  schoolName: "学校名",
+  line80: "80%ライン",
+  line50: "50%ライン",
+  priority: "志望順",
+};
+
+/** 講師の入力 → TargetInput（だめなら「項目: 内容」の配列） */
+export function parseTargetInput(raw: unknown): { target: TargetInput | null; errors: string[] } {
+  const parsed = TargetInputSchema.safeParse(raw);
+  if (parsed.success) return { target: parsed.data, errors: [] };
+  return {
+    target: null,
+    errors: parsed.error.issues.map((i) => `${FIELD_LABELS[String(i.path[0])] ?? "入力"}: ${i.message}`),
+  };
+}
+
+/** 差を出す偏差値の系列 */
+export type TargetScale = "four" | "two";
+
+export const TARGET_SCALE_LABELS: Record<TargetScale, string> = { four: "4科", two: "2科" };
+
+export type TargetSeries = { scale: TargetScale; values: number[] };
+
+/** 4科の偏差値（2科目生は2科）。extractYearlyTrends の kokaiFourValues / kokaiTwoValues から */
+export function pickTargetSeries(kokai: { four: number[]; two: number[] }, isTwoSubjectStudent: boolean): TargetSeries {
+  return isTwoSubjectStudent ? { scale: "two", values: kokai.two } : { scale: "four", values: kokai.four };
+}
+
+export type TargetStanding = "safe" | "possible" | "challenge" | "unknown";
+
+export const TARGET_STANDING_LABELS: Record<TargetStanding, string> = {
+  safe: "80%ライン到達",
+  possible: "50%ライン到達",
+  challenge: "50%ライン未満",
+  unknown: "判定不可",
+};
+
+export type TargetGap = {
+  targetId: string;
+  schoolName: string;
+  priority: number;
+  line80: number | null;
+  line50: number | null;
+  // 差 = 偏差値 − ライン（マイナスは不足）
+  currentGap80: number | null;
+  currentGap50: number | null;
+  recentGap80: number | null;
+  recentGap50: number | null;
+  // 判定は直近平均で
+  standing: TargetStanding;
+};
+
+export type TargetGapSummary = {
+  scale: TargetScale;
+  current: number | null;
+  recentAverage: number | null;
+  recentCount: number;
+  gaps: TargetGap[];
+};
+
+function round1(v: number) {
+  return Math.round(v * 10) / 10;
+}
+
+function gap(value: number | null, line: number | null) {
+  return value == null || line == null ? null : round1(value - line);
+}
+
+function standingOf(value: number | null, t: TargetSchool): TargetStanding {
+  if (value == null || (t.line80 == null && t.line50 == null)) return "unknown";
+  if (t.line80 != null && value >= t.line80) return "safe";
+  if (t.line50 != null && value >= t.line50) return "possible";
+  // 50%ライン未登録で80%に届かないときも「未満」側に倒す
+  return "challenge";
+}
+
+export function sortTargets<T extends Pick<TargetSchool, "priority" | "schoolName">>(targets: T[]): T[] {
+  return [...targets].sort((a, b) => a.priority - b.priority || a.schoolName.localeCompare(b.schoolName, "ja"));
+}
+
+/**
+ * 公開模試の偏差値（1系列・古い順）と志望校から差を出す
+ * - 志望校が無ければ null（レポートにセクションを出さない）
+ */
+export function computeTargetGaps(series: TargetSeries, targets: TargetSchool[]): TargetGapSummary | null {
+  if (targets.length === 0) return null;
+
+  const values = series.values.filter((v) => Number.isFinite(v));
+  const recent = values.slice(-RECENT_WINDOW);
+  const current = values.length ? values[values.length - 1] : null;
+  const recentAverage = recent.length ? round1(recent.reduce((a, b) => a + b, 0) / recent.length) : null;
+
+  return {
+    scale: series.scale,
+    current,
+    recentAverage,
+    recentCount: recent.length,
+    gaps: sortTargets(targets).map((t) => ({
+      targetId: t.id,
+      schoolName: t.schoolName,
+      priority: t.priority,
+      line80: t.line80,
+      line50: t.line50,
+      currentGap80: gap(current, t.line80),
+      currentGap50: gap(current, t.line50),
+      recentGap80: gap(recentAverage, t.line80),
+      recentGap50: gap(recentAverage, t.line50),
+      standing: standingOf(recentAverage, t),
+    })),
+  };
+}
+
+/** +1.5 / −2.0 / ±0 */
+export function formatGap(v: number | null) {
+  if (v == null) return "-";
+  if (v === 0) return "±0";
+  return v > 0 ? `+${v.toFixed(1)}` : `−${Math.abs(v).toFixed(1)}`;
+}
+
+/** 「80%ライン 58（今回 −3.0 / 平均 −4.0）」 */
+function lineText(label: string, line: number | null, currentGap: number | null, recentGap: number | null) {
+  if (line == null) return null;
+  return `${label} ${line}（今回 ${formatGap(currentGap)} / 平均 ${formatGap(recentGap)}）`;
+}
+
+/**
+ * レポート用の本文（menndan_1min / parent_handout の「志望校との差」セクション）
+ * - 面談で最初に聞かれるので、数字（ライン・今回・平均・差）をそのまま並べる
+ */
+export function describeTargetGaps(summary: TargetGapSummary, strict: boolean): string {
+  const { current, recentAverage, recentCount } = summary;
+  const scale = TARGET_SCALE_LABELS[summary.scale];
+
+  if (current == null) {
+    return `志望校は登録済みですが、公開模試の${scale}の偏差値がまだ無いため差は出せません。次回の公開模試の結果で確認します。`;
+  }
+
+  const lines = [
+    `公開模試の偏差値（${scale}）：今回 ${current} / 直近${recentCount}回平均 ${recentAverage}`,
+    ...summary.gaps.map((g) => {
+      const vsLines = [
+        lineText("80%ライン", g.line80, g.currentGap80, g.recentGap80),
+        lineText("50%ライン", g.line50, g.currentGap50, g.recentGap50),
+      ]
+        .filter(Boolean)
+        .join("、");
+      return `・第${g.priority}志望 ${g.schoolName}：${vsLines} → ${TARGET_STANDING_LABELS[g.standing]}`;
+    }),
+  ];
+
+  // 一番上の志望校についてだけ、次の目標を一言
+  const first = summary.gaps[0];
+  const label = first ? `第${first.priority}志望` : "";
+  if (first?.standing === "challenge") {
+    lines.push(
+      strict
+        ? `${label}の50%ラインに平均で届いていません。差を埋めるために、取りこぼしの削減を最優先で進めます。`
+        : `${label}は平均で50%ラインの手前です。まずは取りこぼしを減らして、平均を50%ラインに乗せることを目標にします。`
+    );
+  } else if (first?.standing === "possible") {
+    lines.push(`${label}の50%ラインには届いています。次は80%ラインを目標に、安定して取れる問題を増やします。`);
+  } else if (first?.standing === "safe") {
+    lines.push(`${label}の80%ラインに届いています。この水準を崩さないことを優先します。`);
+  }
+
+  return lines.join("\n");
+}
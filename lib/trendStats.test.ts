@@ -0,0 +1,82 @@
+// lib/trendStats.test.ts
+import { describe, expect, it } from "vitest";
+import type { JukuTest } from "@/lib/jukuReportSchema";
+import { extractYearlyTrends, pickReportCase } from "@/lib/reportStage";
+import { computeTrendStats, linearRegression, movingAverage, stdev } from "@/lib/trendStats";
+
+function kokai(dev: number): JukuTest {
+  return {
+    testType: "kokai_moshi",
+    testName: null,
+    date: null,
+    subjects: [],
+    totals: {
+      two: { score: null, deviation: null, rank: null, grade: null },
+      four: { score: null, deviation: dev, rank: null, grade: null },
+    },
+    notes: [],
+  };
+}
+
+function caseOf(devs: number[]) {
+  const yearly = {
+    docType: "juku_report" as const,
+    student: { id: null, name: null },
+    meta: { sourceFilename: null, title: null },
+    tests: devs.map(kokai),
+    notes: [],
+  };
+  return pickReportCase(extractYearlyTrends(yearly), []);
+}
+
+describe("基本の統計", () => {
+  it("回帰直線・移動平均・標準偏差", () => {
+    expect(linearRegression([50, 52, 54])).toEqual({ slope: 2, intercept: 50, r2: 1 });
+    expect(linearRegression([50, 50, 50])?.r2).toBeNull();
+    expect(movingAverage([1, 2, 3, 4], 3)).toEqual([2, 3]);
+    expect(stdev([2, 4, 4, 4, 5, 5, 7, 9])).toBeCloseTo(2.138, 3);
+    expect(stdev([50])).toBeNull();
+  });
+});
+
+describe("computeTrendStats", () => {
+  it("きれいに上がっていれば上昇・確からしさ high", () => {
+    const s = computeTrendStats([48, 50, 51, 53, 55], 3);
+    expect(s.regression).toMatchObject({ slope: 1.7, change: 6.8, trend: "up", confidence: "high" });
+    expect(s.spread.volatile).toBe(false);
+    expect(s.movingAverage).toMatchObject({ values: [49.67, 51.33, 53], last: 53, confidence: "medium" });
+  });
+
+  it("1回目だけ悪くても、最初と最後の比較のように強い上昇にはしない", () => {
+    const s = computeTrendStats([40, 55, 55, 55, 55, 55], 3);
+    // 直近は横ばい（確からしさ high）、全体の上昇は直線への乗りが悪い
+    expect(s.recent).toMatchObject({ trend: "flat", confidence: "high" });
+    expect(s.regression.confidence).not.toBe("high");
+  });
+
+  it("直線からのずれが大きければ波が大きい", () => {
+    const s = computeTrendStats([50, 58, 47, 57, 49, 56], 3);
+    expect(s.regression.trend).toBe("flat");
+    expect(s.spread.volatile).toBe(true);
+    expect(s.spread.confidence).toBe("high");
+  });
+
+  it("2点以下は判定しても確からしさ low / 1点は unknown", () => {
+    expect(computeTrendStats([50, 55], 3).regression).toMatchObject({ trend: "up", confidence: "low" });
+    expect(computeTrendStats([50], 3).regression).toMatchObject({ trend: "unknown", slope: null });
+  });
+});
+
+describe("pickReportCase", () => {
+  it("統計から推移ケースを選ぶ", () => {
+    expect(caseOf([48, 50, 51, 53, 55])).toBe("rising");
+    expect(caseOf([50, 58, 47, 57, 49, 56])).toBe("volatile");
+    expect(caseOf([58, 57, 55, 54, 52])).toBe("unstable");
+    expect(caseOf([55, 54, 55, 56, 55])).toBe("stable");
+    expect(caseOf([])).toBe("unknown");
+  });
+
+  it("全体は上向きでも直近で下がっていれば上昇にしない", () => {
+    expect(caseOf([45, 48, 52, 56, 58, 55, 52, 50])).not.toBe("rising");
+  });
+});
@@ -0,0 +1,203 @@
+// lib/trendStats.ts
+
+/**
+ * 推移の統計（育成の評価・公開の偏差値の時系列）
+ * - 最初と最後の2点だけで見ると、1回目が悪かっただけで「上昇」になる → 全点の回帰直線で傾きを見る
+ * - 回帰・移動平均・ばらつき・直近の傾きを別々に出し、それぞれに確からしさを付ける
+ * - 値は古い順（テストの回ごとに1点、日付の間隔は見ない）
+ */
+
+export type Trend = "up" | "down" | "flat" | "unknown";
+export type TrendConfidence = "high" | "medium" | "low";
+
+/** 移動平均の幅（回） */
+export const MOVING_AVERAGE_WINDOW = 3;
+/** 直近の傾きを見る回数 */
+export const RECENT_TREND_WINDOW = 4;
+
+export type TrendStats = {
+  n: number;
+  // 全体の回帰直線（x = 回の番号）
+  regression: {
+    slope: number | null; // 1回あたり
+    change: number | null; // 傾き × (n−1)：最初から最後までの「直線での」変化
+    r2: number | null;
+    trend: Trend;
+    confidence: TrendConfidence;
+  };
+  movingAverage: {
+    window: number;
+    values: number[]; // 後ろ寄せ（values[i] は i 〜 i+window−1 回目の平均）
+    last: number | null;
+    confidence: TrendConfidence;
+  };
+  spread: {
+    mean: number | null;
+    stdev: number | null; // 標本標準偏差
+    residualStdev: number | null; // 回帰直線からのずれ（上昇・下降そのものはばらつきに数えない）
+    volatile: boolean;
+    confidence: TrendConfidence;
+  };
+  recent: {
+    window: number;
+    n: number;
+    slope: number | null;
+    change: number | null;
+    trend: Trend;
+    confidence: TrendConfidence;
+  };
+};
+
+function round(v: number, digits = 2) {
+  const k = 10 ** digits;
+  return Math.round(v * k) / k;
+}
+
+function mean(values: number[]) {
+  return values.reduce((a, b) => a + b, 0) / values.length;
+}
+
+/** 標本標準偏差（2点未満は null） */
+export function stdev(values: number[]): number | null {
+  if (values.length < 2) return null;
+  const m = mean(values);
+  return Math.sqrt(values.reduce((a, v) => a + (v - m) ** 2, 0) / (values.length - 1));
+}
+
+/** 最小二乗の直線 y = intercept + slope·x（x = 0, 1, 2, …） */
+export function linearRegression(values: number[]): { slope: number; intercept: number; r2: number | null } | null {
+  const n = values.length;
+  if (n < 2) return null;
+
+  const mx = (n - 1) / 2;
+  const my = mean(values);
+  let sxy = 0;
+  let sxx = 0;
+  values.forEach((y, x) => {
+    sxy += (x - mx) * (y - my);
+    sxx += (x - mx) ** 2;
+  });
+
+  const slope = sxy / sxx;
+  const intercept = my - slope * mx;
+
+  const ssTot = values.reduce((a, y) => a + (y - my) ** 2, 0);
+  const ssRes = values.reduce((a, y, x) => a + (y - (intercept + slope * x)) ** 2, 0);
+  // 全部同じ値なら当てはまりは決められない
+  const r2 = ssTot === 0 ? null : 1 - ssRes / ssTot;
+
+  return { slope, intercept, r2 };
+}
+
+export function movingAverage(values: number[], window: number): number[] {
+  if (values.length < window) return [];
+  return values.slice(window - 1).map((_, i) => mean(values.slice(i, i + window)));
+}
+
+function residualStdev(values: number[]): number | null {
+  const fit = linearRegression(values);
+  // 直線は2点で決まるので、残りのずれは n−2 で割る
+  if (!fit || values.length < 3) return null;
+  const ss = values.reduce((a, y, x) => a + (y - (fit.intercept + fit.slope * x)) ** 2, 0);
+  return Math.sqrt(ss / (values.length - 2));
+}
+
+function trendOf(change: number | null, threshold: number): Trend {
+  if (change == null) return "unknown";
+  if (change >= threshold) return "up";
+  if (change <= -threshold) return "down";
+  return "flat";
+}
+
+/**
+ * 傾きの確からしさ
+ * - 上昇/下降：点が多く（highN 以上）、直線によく乗っている（r²）ほど高い
+ * - 横ばい：点が多く、直線からのずれが小さいほど高い
+ */
+function slopeConfidence(
+  fit: { n: number; trend: Trend; r2: number | null; resid: number | null },
+  threshold: number,
+  highN: number
+): TrendConfidence {
+  const { n, trend, r2, resid } = fit;
+  if (n < 3 || trend === "unknown") return "low";
+  if (trend === "flat") {
+    if (n >= highN && resid != null && resid < threshold) return "high";
+    return "medium";
+  }
+  if (r2 == null) return "low";
+  if (n >= highN && r2 >= 0.6) return "high";
+  if (r2 >= 0.3) return "medium";
+  return "low";
+}
+
+function countConfidence(n: number, medium: number, high: number): TrendConfidence {
+  if (n >= high) return "high";
+  if (n >= medium) return "medium";
+  return "low";
+}
+
+/**
+ * 推移の統計
+ * - threshold：最初から最後までの変化がこれ以上なら上昇/下降（育成の評価=1、公開の偏差値=3 など）
+ * - 直線からのずれ（残差の標準偏差）が threshold 以上なら「波が大きい」（4点以上のときだけ）
+ */
+export function computeTrendStats(values: number[], threshold: number): TrendStats {
+  const vals = values.filter((v) => Number.isFinite(v));
+  const n = vals.length;
+
+  const fit = linearRegression(vals);
+  const change = fit ? fit.slope * (n - 1) : null;
+  const trend = trendOf(change, threshold);
+  const resid = residualStdev(vals);
+
+  const ma = movingAverage(vals, MOVING_AVERAGE_WINDOW);
+
+  const recentVals = vals.slice(-RECENT_TREND_WINDOW);
+  const recentFit = linearRegression(recentVals);
+  const recentChange = recentFit ? recentFit.slope * (recentVals.length - 1) : null;
+  const recentTrend = trendOf(recentChange, threshold);
+
+  const sd = stdev(vals);
+
+  return {
+    n,
+    regression: {
+      slope: fit ? round(fit.slope) : null,
+      change: change == null ? null : round(change),
+      r2: fit?.r2 == null ? null : round(fit.r2),
+      trend,
+      confidence: slopeConfidence({ n, trend, r2: fit?.r2 ?? null, resid }, threshold, 5),
+    },
+    movingAverage: {
+      window: MOVING_AVERAGE_WINDOW,
+      values: ma.map((v) => round(v)),
+      last: ma.length ? round(ma[ma.length - 1]) : null,
+      confidence: countConfidence(n, MOVING_AVERAGE_WINDOW, MOVING_AVERAGE_WINDOW * 2),
+    },
+    spread: {
+      mean: n ? round(mean(vals)) : null,
+      stdev: sd == null ? null : round(sd),
+      residualStdev: resid == null ? null : round(resid),
+      volatile: n >= 4 && resid != null && resid >= threshold,
+      confidence: countConfidence(n, 4, 6),
+    },
+    recent: {
+      window: RECENT_TREND_WINDOW,
+      n: recentVals.length,
+      slope: recentFit ? round(recentFit.slope) : null,
+      change: recentChange == null ? null : round(recentChange),
+      trend: recentTrend,
+      confidence: slopeConfidence(
+        { n: recentVals.length, trend: recentTrend, r2: recentFit?.r2 ?? null, resid: residualStdev(recentVals) },
+        threshold,
+        RECENT_TREND_WINDOW
+      ),
+    },
+  };
+}
+
+/** 「低い」以外を信用する（レポートの分岐用） */
+export function isConfident(c: TrendConfidence) {
+  return c !== "low";
+}
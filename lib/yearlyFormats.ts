@@ -0,0 +1,184 @@
+// lib/yearlyFormats.ts
+
+/**
+ * 年間成績表（成績推移表）のレイアウト定義
+ * - 1レイアウト = 1オブジェクト（判定パターン / セクション境界 / 行パターンと列の対応 / 値の範囲）
+ * - パーサ（lib/yearlyParser）はこの一覧を回すだけ。新しい学年・塾の形式はここに足す
+ */
+
+/** 行パターンのキャプチャ（1始まり）が何の列か */
+export type YearlyColumn =
+  | "round" // 回
+  | "date" // 日付（1セル：2026/4/12 など）
+  | "year" // 年（分割セル）
+  | "month"
+  | "day"
+  | "fourScore"
+  | "fourGrade"
+  | "fourDeviation"
+  | "twoScore"
+  | "twoGrade"
+  | "twoDeviation";
+
+export type YearlyRowPattern = {
+  re: RegExp; // g フラグ必須（matchAll）
+  columns: YearlyColumn[]; // columns[i] = キャプチャ i+1
+};
+
+export type YearlySection = {
+  testType: "ikusei" | "kokai_moshi";
+  /** テスト名（{n} に回数） */
+  testName: string;
+  /** セクション開始（いちばん前で当たった位置から） */
+  starts: RegExp[];
+  /** セクション終了（開始以降でいちばん前） */
+  ends: RegExp[];
+  /** 上から順に試し、1行でも当たったパターンで確定（下は保険） */
+  rows: YearlyRowPattern[];
+  /** 見出し行にこの科目名があれば、その列（得点・偏差・順位）も読む（列の位置は見出しから決める） */
+  subjects?: string[];
+};
+
+export type ValueRange = { min: number; max: number };
+
+export type YearlyValueRanges = {
+  fourScore: ValueRange;
+  twoScore: ValueRange;
+  grade: ValueRange; // 育成の評価（範囲外は「OCR甘い」扱いで null）
+  deviation: ValueRange;
+  subjectScore: ValueRange; // 科目別の得点（国算150 / 理社100）
+  rank: ValueRange;
+};
+
+export type YearlyFormatDef = {
+  id: string;
+  label: string;
+  /** OCRテキストにどれか1つでも当たればこの形式（一覧の上から判定 → 具体的な形式を先に並べる） */
+  detect: RegExp[];
+  sections: YearlySection[];
+  ranges: YearlyValueRanges;
+};
+
+/* =========================
+   共通パーツ
+========================= */
+const DEFAULT_RANGES: YearlyValueRanges = {
+  fourScore: { min: 0, max: 500 },
+  twoScore: { min: 0, max: 400 },
+  grade: { min: 3, max: 10 },
+  deviation: { min: 10, max: 90 },
+  subjectScore: { min: 0, max: 150 },
+  rank: { min: 1, max: 20000 },
+};
+
+// 公開模試の科目列（見出しの「国語 | 偏差 | 算数 | 偏差 …」）
+const KOKAI_SUBJECTS = ["国語", "算数", "理科", "社会"];
+
+const IKUSEI_ENDS = [
+  /思考力育成テスト/i,
+  /合格力実践テスト/i,
+  /(IV|Ⅳ)\s*[\.．]/i,
+  /(V|Ⅴ)\s*[\.．]/i,
+  /公開模試/i,
+  /Public模試/i,
+];
+
+const KOKAI_ENDS = [
+  /春期/i,
+  /夏期/i,
+  /冬期/i,
+  /合格力育成テスト/i,
+  /合格力実践テスト/i,
+  /転記終了/i,
+  /必要に応じて他の部分も転記/i,
+];
+
+// ✅ 2科の得点/評価が「空欄」でも拾えるようにする
+// | 回 | 日付 | 4科得点 | 評価 | 2科得点 | 評価 | ...
+const IKUSEI_ROW: YearlyRowPattern = {
+  re: /\|\s*(\d{1,2})\s*\|\s*([^\|]{3,24})\|\s*([0-9]{1,3}|\-)\s*\|\s*([0-9]{1,2}(?:\.\d+)?|\-)\s*\|\s*([^|]*)\|\s*([^|]*)\|[^\r\n]*(?:\r?\n|$)/g,
+  columns: ["round", "date", "fourScore", "fourGrade", "twoScore", "twoGrade"],
+};
+
+// ✅ 公開：2科列が空でも拾う（? で任意）
+// | 回 | 年 | 月 | 日 | 4科得点 | 偏差 | 2科得点 | 偏差 |
+const KOKAI_ROW_SPLIT_DATE: YearlyRowPattern = {
+  re: /\|\s*(\d{1,2})\s*\|\s*(20\d{2})\s*\|\s*(\d{1,2})\s*\|\s*(\d{1,2})\s*\|\s*([0-9]{1,3}|\-)\s*\|\s*([0-9]{1,2}(?:\.\d+)?|\-)\s*\|\s*([^|]*)?\|\s*([^|]*)?\|/g,
+  columns: ["round", "year", "month", "day", "fourScore", "fourDeviation", "twoScore", "twoDeviation"],
+};
+
+// | 回 | 日付 | 4科得点 | 偏差 | 2科得点 | 偏差 |
+const KOKAI_ROW: YearlyRowPattern = {
+  re: /\|\s*(\d{1,2})\s*\|\s*([^\|]{3,24})\|\s*([0-9]{1,3}|\-)\s*\|\s*([0-9]{1,2}(?:\.\d+)?|\-)\s*\|\s*([^|]*)?\|\s*([^|]*)?\|/g,
+  columns: ["round", "date", "fourScore", "fourDeviation", "twoScore", "twoDeviation"],
+};
+
+/* =========================
+   Registry
+========================= */
+export const YEARLY_FORMATS: YearlyFormatDef[] = [
+  {
+    id: "B",
+    label: "5年（年間学習力育成テスト / Public模試成績）",
+    detect: [/Public模試成績/i, /年間学習力育成テスト/i, /(Ⅲ|III)\s*[\.．]\s*年間学習力育成テスト/i],
+    sections: [
+      {
+        testType: "ikusei",
+        testName: "第{n}回育成テスト",
+        starts: [
+          /(III|Ⅲ)\s*[\.．]\s*年間学習力育成テスト出題範囲及び成績/i,
+          /(III|Ⅲ)\s*[\.．]\s*年間学習力育成テスト/i,
+        ],
+        ends: IKUSEI_ENDS,
+        rows: [IKUSEI_ROW],
+      },
+      {
+        testType: "kokai_moshi",
+        testName: "第{n}回公開模試",
+        starts: [/Public模試成績/i, /公開模試成績/i, /(V|Ⅴ)\s*[\.．]\s*公開模試成績/i],
+        ends: KOKAI_ENDS,
+        rows: [KOKAI_ROW_SPLIT_DATE, KOKAI_ROW],
+        subjects: KOKAI_SUBJECTS,
+      },
+    ],
+    ranges: DEFAULT_RANGES,
+  },
+  {
+    id: "A",
+    label: "6年（前期学習力育成テスト / 公開模試成績）",
+    detect: [
+      /(V|Ⅴ)\s*[\.．]\s*公開模試成績/i,
+      /(Ⅲ|III)\s*[\.．]\s*(前期|前年)学習力育成テスト/i,
+      // どれにも当たらないときの受け皿
+      /公開模試成績|公開模試|育成テスト/,
+    ],
+    sections: [
+      {
+        testType: "ikusei",
+        testName: "第{n}回育成テスト",
+        starts: [
+          /(III|Ⅲ)\s*[\.．]\s*(前期|前年)学習力育成テスト出題範囲及び成績/i,
+          /(III|Ⅲ)\s*[\.．]\s*(前期|前年)学習力育成テスト/i,
+        ],
+        ends: IKUSEI_ENDS,
+        rows: [IKUSEI_ROW],
+      },
+      {
+        testType: "kokai_moshi",
+        testName: "第{n}回公開模試",
+        starts: [/(V|Ⅴ)\s*[\.．]\s*公開模試成績/i, /公開模試成績/i],
+        ends: KOKAI_ENDS,
+        rows: [KOKAI_ROW_SPLIT_DATE, KOKAI_ROW],
+        subjects: KOKAI_SUBJECTS,
+      },
+    ],
+    ranges: DEFAULT_RANGES,
+  },
+];
+
+/** auto で同点・判定不可のときに使う形式 */
+export const DEFAULT_YEARLY_FORMAT_ID = "A";
+
+export function findYearlyFormat(id: string): YearlyFormatDef | null {
+  return YEARLY_FORMATS.find((f) => f.id === id) ?? null;
+}
@@ -0,0 +1,192 @@
+// lib/yearlyParser.test.ts
+import { readdirSync, readFileSync } from "fs";
+import path from "path";
+import { describe, expect, it } from "vitest";
+import {
+  buildYearlyFromOcrTextAuto,
+  buildYearlyFromOcrTextByFormat,
+  detectYearlyFormatFromOcrText,
+  fixIkuseiTwoFourByRange,
+  fixIkuseiTwoFourMix,
+  findSubjectColumns,
+  fixKokaiFourScoreIfSuspicious,
+  parseYmdOrYmLoose,
+  type JukuTest,
+} from "@/lib/yearlyParser";
+
+/**
+ * 年間パーサの回帰テスト
+ * - fixtures/yearly/<名前>.txt（匿名化したOCRテキスト）→ <名前>.expected.json（JukuReportJson）
+ * - 新しいヒューリスティックを足すときは、それが効くフィクスチャを1つ足す（既存フィクスチャが変わらないことも確認）
+ * - 期待値の更新は `npm test -- -u`（差分をレビューしてからコミット）
+ */
+const FIXTURE_DIR = path.join(__dirname, "..", "fixtures", "yearly");
+const fixtures = readdirSync(FIXTURE_DIR)
+  .filter((f) => f.endsWith(".txt"))
+  .map((f) => f.replace(/\.txt$/, ""));
+
+function blankTest(testType: JukuTest["testType"]): JukuTest {
+  return {
+    testType,
+    testName: null,
+    date: "2026-04-12",
+    subjects: [],
+    totals: {
+      two: { score: null, deviation: null, rank: null, grade: null },
+      four: { score: null, deviation: null, rank: null, grade: null },
+    },
+    notes: [],
+  };
+}
+
+describe("fixtures/yearly", () => {
+  it.each(fixtures)("%s", async (name) => {
+    const text = readFileSync(path.join(FIXTURE_DIR, `${name}.txt`), "utf8");
+    const { yearly } = buildYearlyFromOcrTextAuto(text, `${name}.pdf`);
+    await expect(`${JSON.stringify(yearly, null, 2)}\n`).toMatchFileSnapshot(
+      path.join(FIXTURE_DIR, `${name}.expected.json`)
+    );
+  });
+});
+
+describe("format detection", () => {
+  it("5年（年間育成 / Public模試）は B", () => {
+    expect(detectYearlyFormatFromOcrText("Ⅲ．年間学習力育成テスト出題範囲及び成績")).toBe("B");
+    expect(detectYearlyFormatFromOcrText("Public模試成績")).toBe("B");
+  });
+
+  it("6年（前期育成 / Ⅴ.公開模試）と見出しだけの文書は A", () => {
+    expect(detectYearlyFormatFromOcrText("Ⅲ．前期学習力育成テスト")).toBe("A");
+    expect(detectYearlyFormatFromOcrText("Ⅴ．公開模試成績")).toBe("A");
+    expect(detectYearlyFormatFromOcrText("公開模試")).toBe("A");
+  });
+
+  it("見出しが無ければ auto", () => {
+    expect(detectYearlyFormatFromOcrText("学力判定テスト 結果")).toBe("auto");
+  });
+
+  it("同数なら判定結果の形式を採用", () => {
+    const text = readFileSync(path.join(FIXTURE_DIR, "kokai-suspicious-four.txt"), "utf8");
+    const auto = buildYearlyFromOcrTextAuto(text, "x.pdf");
+    expect(auto.counts.A).toBe(auto.counts.B);
+    expect(auto.chosen).toBe("A");
+  });
+
+  it("未知の形式 id はテスト0件 + notes", () => {
+    const yearly = buildYearlyFromOcrTextByFormat("Ⅴ．公開模試成績", "x.pdf", "Z");
+    expect(yearly.tests).toEqual([]);
+    expect(yearly.notes[0]).toContain("Z");
+  });
+});
+
+describe("parseYmdOrYmLoose", () => {
+  it.each([
+    ["2026/4/12", "2026-04-12"],
+    ["2026-04-12", "2026-04-12"],
+    ["2026. 4. 12", "2026-04-12"],
+    ["2026/7", "2026-07-01"],
+    ["2026年度", "2026-01-01"],
+    ["2026/13/40", "2026-01-01"],
+    ["4/12", null],
+    ["", null],
+  ])("%s → %s", (input, expected) => {
+    expect(parseYmdOrYmLoose(input)).toBe(expected);
+  });
+});
+
+describe("fixIkuseiTwoFourByRange", () => {
+  it("2科が 401〜500 なら4科と入れ替える（評価も一緒に）", () => {
+    const t = blankTest("ikusei");
+    t.totals.two = { score: 452, deviation: null, rank: null, grade: 8 };
+    t.totals.four = { score: 210, deviation: null, rank: null, grade: 7 };
+    fixIkuseiTwoFourByRange(t);
+    expect(t.totals.four).toMatchObject({ score: 452, grade: 8 });
+    expect(t.totals.two).toMatchObject({ score: 210, grade: 7 });
+  });
+
+  it("4科が 400 超なら触らない", () => {
+    const t = blankTest("ikusei");
+    t.totals.two = { score: 452, deviation: null, rank: null, grade: 8 };
+    t.totals.four = { score: 480, deviation: null, rank: null, grade: 9 };
+    fixIkuseiTwoFourByRange(t);
+    expect(t.totals.two.score).toBe(452);
+    expect(t.totals.four.score).toBe(480);
+  });
+
+  it("公開模試には効かない", () => {
+    const t = blankTest("kokai_moshi");
+    t.totals.two.score = 452;
+    fixIkuseiTwoFourByRange(t);
+    expect(t.totals.two.score).toBe(452);
+  });
+});
+
+describe("fixIkuseiTwoFourMix", () => {
+  it("4科 ≤170 かつ 2科 ≥220 なら入れ替える", () => {
+    const t = blankTest("ikusei");
+    t.totals.two = { score: 260, deviation: null, rank: null, grade: 5 };
+    t.totals.four = { score: 150, deviation: null, rank: null, grade: 6 };
+    fixIkuseiTwoFourMix(t);
+    expect(t.totals.four).toMatchObject({ score: 260, grade: 5 });
+    expect(t.totals.two).toMatchObject({ score: 150, grade: 6 });
+  });
+
+  it("片方だけ外れている・低得点なだけなら触らない", () => {
+    const t = blankTest("ikusei");
+    t.totals.two = { score: 120, deviation: null, rank: null, grade: 4 };
+    t.totals.four = { score: 150, deviation: null, rank: null, grade: 4 };
+    fixIkuseiTwoFourMix(t);
+    expect(t.totals.two.score).toBe(120);
+    expect(t.totals.four.score).toBe(150);
+  });
+});
+
+describe("fixKokaiFourScoreIfSuspicious", () => {
+  it("4科得点が 1〜20 なら得点・偏差とも null", () => {
+    const t = blankTest("kokai_moshi");
+    t.totals.four = { score: 12, deviation: 51.2, rank: null, grade: null };
+    fixKokaiFourScoreIfSuspicious(t);
+    expect(t.totals.four).toMatchObject({ score: null, deviation: null });
+  });
+
+  it("21点以上・育成は触らない", () => {
+    const t = blankTest("kokai_moshi");
+    t.totals.four = { score: 21, deviation: 40, rank: null, grade: null };
+    fixKokaiFourScoreIfSuspicious(t);
+    expect(t.totals.four.score).toBe(21);
+
+    const ik = blankTest("ikusei");
+    ik.totals.four.score = 12;
+    fixKokaiFourScoreIfSuspicious(ik);
+    expect(ik.totals.four.score).toBe(12);
+  });
+});
+
+describe("findSubjectColumns", () => {
+  const SUBJECTS = ["国語", "算数", "理科", "社会"];
+
+  it("科目名の後ろの「偏差」はその科目、4科の「偏差」は拾わない", () => {
+    const block = "| 回 | 日付 | 4科得点 | 偏差 | 国語 | 偏差 | 算数 | 偏差 |";
+    expect(findSubjectColumns(block, SUBJECTS)).toEqual([
+      { name: "国語", score: 5, deviation: 6, rank: null },
+      { name: "算数", score: 7, deviation: 8, rank: null },
+    ]);
+  });
+
+  it("1セルに科目名と種別（国語得点 | 国語偏差 | 国語順位）", () => {
+    const block = "| 回 | 日付 | 国語得点 | 国語偏差 | 国語順位 |";
+    expect(findSubjectColumns(block, SUBJECTS)).toEqual([{ name: "国語", score: 3, deviation: 4, rank: 5 }]);
+  });
+
+  it("2段の見出しは下段の 得点/偏差 を重ねて読む", () => {
+    const block = ["| 回 | 日付 | 4科 | | 理科 | | 社会 | |", "| | | 得点 | 偏差 | 得点 | 偏差 | 得点 | 偏差 |"].join("\n");
+    expect(findSubjectColumns(block, SUBJECTS)).toEqual([
+      { name: "理科", score: 5, deviation: 6, rank: null },
+      { name: "社会", score: 7, deviation: 8, rank: null },
+    ]);
+  });
+
+  it("科目の見出しが無ければ空", () => {
+    expect(findSubjectColumns("| 回 | 日付 | 4科得点 | 偏差 |", SUBJECTS)).toEqual([]);
+  });
+});
@@ -0,0 +1,535 @@
+// lib/yearlyParser.ts
+import {
+  DEFAULT_YEARLY_FORMAT_ID,
+  YEARLY_FORMATS,
+  findYearlyFormat,
+  type ValueRange,
+  type YearlyColumn,
+  type YearlyFormatDef,
+  type YearlySection,
+} from "@/lib/yearlyFormats";
+import type { JukuReportJson, JukuTest } from "@/lib/jukuReportSchema";
+import { createTestProvenance, markProvenance, type ProvenanceField, type TestProvenance } from "@/lib/provenance";
+
+export type { JukuReportJson, JukuTest } from "@/lib/jukuReportSchema";
+
+/**
+ * 年間成績表（OCRテキスト / テキストレイヤ）→ JukuReportJson
+ * - レイアウトの違いは lib/yearlyFormats のレジストリに寄せ、ここは汎用の読み取りだけ
+ */
+
+/** "auto" または lib/yearlyFormats の id */
+export type YearlyFormat = "auto" | string;
+
+/* =========================
+   Utils
+========================= */
+export function toNumberOrNull(v: unknown): number | null {
+  if (typeof v === "number" && Number.isFinite(v)) return v;
+  if (typeof v === "string") {
+    const s = v.replace(/[^\d.\-]/g, "");
+    if (!s) return null;
+    const n = Number(s);
+    return Number.isFinite(n) ? n : null;
+  }
+  return null;
+}
+
+export function clampNum(n: unknown, min: number, max: number): number | null {
+  const v = toNumberOrNull(n);
+  if (v === null) return null;
+  if (v < min || v > max) return null;
+  return v;
+}
+
+export function normalizeTestTypeLabel(s: string): JukuTest["testType"] {
+  const t = String(s ?? "").replace(/\s+/g, "");
+  if (/(学習力育成テスト|育成テスト|学習力育成|育成)/.test(t)) return "ikusei";
+  if (/(公開模試|公開模擬試験|公開模試成績|公開|Public模試成績|Public模試)/i.test(t))
+    return "kokai_moshi";
+  return "other";
+}
+
+export function isGakuhanLike(s: string) {
+  const t = String(s ?? "").replace(/\s+/g, "");
+  return /(学判|学力判定|学力診断|学力到達度|到達度テスト)/.test(t);
+}
+
+/**
+ * 日付：
+ * - YYYY/M/D → YYYY-MM-DD
+ * - YYYY/M   → YYYY-MM-01
+ * - YYYY     → YYYY-01-01（年だけでも落とさない）
+ */
+const YMD_RE = /(20\d{2})\s*[\/\-\.\s]\s*(\d{1,2})\s*[\/\-\.\s]\s*(\d{1,2})/;
+
+export function parseYmdOrYmLoose(s: string): string | null {
+  const t = String(s ?? "").trim();
+
+  const m1 = t.match(YMD_RE);
+  if (m1) {
+    const yy = Number(m1[1]);
+    const mm = Number(m1[2]);
+    const dd = Number(m1[3]);
+    if (mm >= 1 && mm <= 12 && dd >= 1 && dd <= 31) {
+      return `${String(yy).padStart(4, "0")}-${String(mm).padStart(2, "0")}-${String(dd).padStart(2, "0")}`;
+    }
+  }
+
+  const m2 = t.match(/(20\d{2})\s*[\/\-\.\s]\s*(\d{1,2})\b/);
+  if (m2) {
+    const yy = Number(m2[1]);
+    const mm = Number(m2[2]);
+    if (mm >= 1 && mm <= 12) {
+      return `${String(yy).padStart(4, "0")}-${String(mm).padStart(2, "0")}-01`;
+    }
+  }
+
+  const m0 = t.match(/\b(20\d{2})\b/);
+  if (m0) {
+    const yy = Number(m0[1]);
+    return `${String(yy).padStart(4, "0")}-01-01`;
+  }
+
+  return null;
+}
+
+export function sliceBetweenAny(text: string, starts: RegExp[], ends: RegExp[]) {
+  let startPos = -1;
+  for (const st of starts) {
+    const p = text.search(st);
+    if (p >= 0 && (startPos < 0 || p < startPos)) startPos = p;
+  }
+  if (startPos < 0) return "";
+
+  const sub = text.slice(startPos);
+
+  let endPos = -1;
+  for (const ed of ends) {
+    const p = sub.search(ed);
+    if (p >= 0 && (endPos < 0 || p < endPos)) endPos = p;
+  }
+  if (endPos < 0) return sub;
+
+  return sub.slice(0, endPos);
+}
+
+export function dashToNull<T>(v: T): T | null {
+  const s = String(v ?? "").trim();
+  if (s === "-" || s === "—" || s === "－" || s === "") return null;
+  return v;
+}
+
+/* =========================
+   Guards / Normalization
+========================= */
+export function nullifyFieldsByType(t: JukuTest) {
+  // 育成：score + grade（偏差は使わない）
+  if (t.testType === "ikusei") {
+    if (t?.totals?.two) t.totals.two.deviation = null;
+    if (t?.totals?.four) t.totals.four.deviation = null;
+  }
+
+  // 公開：score + deviation（gradeは使わない）
+  if (t.testType === "kokai_moshi") {
+    if (t?.totals?.two) t.totals.two.grade = null;
+    if (t?.totals?.four) t.totals.four.grade = null;
+  }
+}
+
+export function forceNullifyFourIfMissing(t: JukuTest) {
+  if (!t?.totals?.four) return;
+  const fourScore = toNumberOrNull(t.totals.four.score);
+  const fourDev = toNumberOrNull(t.totals.four.deviation);
+  const fourGrade = toNumberOrNull(t.totals.four.grade);
+  if (fourScore == null && fourDev == null && fourGrade == null) {
+    t.totals.four = { score: null, deviation: null, rank: null, grade: null };
+  }
+}
+
+/**
+ * ✅ 育成の2科/4科ズレを「範囲」で救う
+ * - 2科は 0〜400
+ * - 4科は 0〜500
+ */
+export function fixIkuseiTwoFourByRange(t: JukuTest, prov?: TestProvenance) {
+  if (!t || t.testType !== "ikusei") return;
+  if (!t.totals?.two || !t.totals?.four) return;
+
+  const twoScore = toNumberOrNull(t.totals.two.score);
+  const fourScore = toNumberOrNull(t.totals.four.score);
+
+  // 2科が 401〜500 なら、それは4科得点の可能性が高い
+  // かつ 4科が 0〜400 なら入れ替え
+  if (twoScore != null && twoScore > 400 && twoScore <= 500) {
+    if (fourScore == null || (fourScore >= 0 && fourScore <= 400)) {
+      t.totals.four.score = twoScore;
+      t.totals.two.score = fourScore ?? null;
+
+      const twoGrade = toNumberOrNull(t.totals.two.grade);
+      const fourGrade = toNumberOrNull(t.totals.four.grade);
+      t.totals.four.grade = twoGrade ?? t.totals.four.grade ?? null;
+      t.totals.two.grade = fourGrade ?? t.totals.two.grade ?? null;
+
+      markProvenance(
+        prov,
+        ["four.score", "two.score", "four.grade", "two.grade"],
+        "auto-swapped",
+        `2科得点${twoScore}が2科の範囲（〜400）を超えるため4科と入れ替え`
+      );
+    }
+  }
+}
+
+/**
+ * 育成の2科/4科が混ざった時の安全弁（強条件）
+ */
+export function fixIkuseiTwoFourMix(t: JukuTest, prov?: TestProvenance) {
+  if (!t || t.testType !== "ikusei") return;
+  if (!t.totals?.two || !t.totals?.four) return;
+
+  const twoScore = toNumberOrNull(t.totals.two.score);
+  const fourScore = toNumberOrNull(t.totals.four.score);
+  const twoGrade = toNumberOrNull(t.totals.two.grade);
+  const fourGrade = toNumberOrNull(t.totals.four.grade);
+
+  if (twoScore == null && fourScore == null) return;
+
+  // 4科が小さすぎ、2科が大きすぎ → 入れ替わりの可能性が高い
+  if (fourScore != null && twoScore != null) {
+    const fourTooSmall = fourScore <= 170;
+    const twoTooBig = twoScore >= 220;
+    if (fourTooSmall && twoTooBig) {
+      t.totals.two.score = fourScore;
+      t.totals.four.score = twoScore;
+
+      t.totals.two.grade = fourGrade ?? t.totals.two.grade ?? null;
+      t.totals.four.grade = twoGrade ?? t.totals.four.grade ?? null;
+
+      markProvenance(
+        prov,
+        ["four.score", "two.score", "four.grade", "two.grade"],
+        "auto-swapped",
+        `4科${fourScore}点・2科${twoScore}点は逆と判断して入れ替え`
+      );
+      return;
+    }
+  }
+
+  // 低得点だから4科をnull化、は誤爆するのでやらない
+}
+
+// ✅ 公開：4科得点が「日付断片/桁落ち」っぽいときは null
+export function fixKokaiFourScoreIfSuspicious(t: JukuTest, prov?: TestProvenance) {
+  if (!t || t.testType !== "kokai_moshi") return;
+
+  const fourScore = toNumberOrNull(t?.totals?.four?.score);
+  const fourDev = toNumberOrNull(t?.totals?.four?.deviation);
+
+  if (fourScore != null && fourScore > 0 && fourScore <= 20) {
+    t.totals.four.score = null;
+    t.totals.four.deviation = null;
+    markProvenance(prov, ["four.score", "four.deviation"], "clamped", `4科得点${fourScore}は日付の断片・桁落ちの疑いで破棄`);
+  }
+
+  void fourDev;
+}
+
+/* =========================
+   Format Detection
+========================= */
+/** レジストリを上から見て、判定パターンが最初に当たった形式（どれも当たらなければ auto） */
+export function detectYearlyFormatFromOcrText(text: string): YearlyFormat {
+  const t = String(text ?? "");
+  const hit = YEARLY_FORMATS.find((f) => f.detect.some((re) => re.test(t)));
+  return hit?.id ?? "auto";
+}
+
+/* =========================
+   Build yearly JSON from OCR text (format aware)
+========================= */
+type RowCells = Partial<Record<YearlyColumn, string>>;
+
+function pickCells(m: RegExpMatchArray, columns: YearlyColumn[]): RowCells {
+  const cells: RowCells = {};
+  columns.forEach((col, i) => {
+    cells[col] = m[i + 1];
+  });
+  return cells;
+}
+
+function rowDate(cells: RowCells): string | null {
+  if (cells.date != null) return parseYmdOrYmLoose(cells.date);
+
+  const yy = Number(cells.year);
+  const mm = Number(cells.month);
+  const dd = Number(cells.day);
+  if (!Number.isFinite(yy) || !(mm >= 1 && mm <= 12 && dd >= 1 && dd <= 31)) return null;
+  return `${String(yy).padStart(4, "0")}-${String(mm).padStart(2, "0")}-${String(dd).padStart(2, "0")}`;
+}
+
+/** セル → 数値（範囲外は null）。掃除・破棄したときは provenance に残す */
+function cellNum(v: string | undefined, range: ValueRange, prov: TestProvenance, field: ProvenanceField) {
+  const raw = dashToNull(v);
+  if (raw == null) return null;
+
+  const n = toNumberOrNull(raw);
+  const s = String(raw).trim();
+  if (n == null) {
+    markProvenance(prov, field, "clamped", `「${s}」を数値として読めず破棄`);
+    return null;
+  }
+  if (Number(s) !== n) markProvenance(prov, field, "normalized", `「${s}」→ ${n}`);
+
+  const clamped = clampNum(n, range.min, range.max);
+  if (clamped == null) markProvenance(prov, field, "clamped", `${n} は範囲外（${range.min}〜${range.max}）`);
+  return clamped;
+}
+
+/* =========================
+   科目列（見出し行から列の位置を決める）
+========================= */
+export type SubjectColumns = { name: string; score: number | null; deviation: number | null; rank: number | null };
+
+type SubjectCells = { name: string; score?: string; deviation?: string; rank?: string };
+
+function splitCells(line: string): string[] {
+  return line.split("|").map((c) => c.trim());
+}
+
+function isTableLine(line: string) {
+  return /^\s*\|/.test(line);
+}
+
+function isSeparatorLine(line: string) {
+  return /^\s*\|[\s\-:|]+$/.test(line);
+}
+
+/**
+ * 表の見出し → 科目ごとの列の位置（splitCells の添字）
+ * - 「国語 | 偏差 | 算数 | 偏差」：科目名のセルが得点、続く「偏差」「順位」がその科目
+ * - 「国語得点 | 国語偏差」：1セルに科目名と種別
+ * - 2段の見出し（上段に科目名、下段に 得点/偏差）は下段を重ねて読む
+ * - 科目名の無い見出し（4科得点・2科 など）で科目の並びは切る
+ */
+export function findSubjectColumns(block: string, subjects: string[]): SubjectColumns[] {
+  const lines = block.split(/\r?\n/);
+  const i = lines.findIndex((l) => isTableLine(l) && subjects.some((s) => l.includes(s)));
+  if (i < 0) return [];
+
+  const head = splitCells(lines[i]);
+  // 下段：表の行で、先頭のセルが数字でない（データ行ではない）
+  const next = lines[i + 1] ?? "";
+  const sub = isTableLine(next) && !isSeparatorLine(next) && !/^\s*\|\s*\d/.test(next) ? splitCells(next) : [];
+
+  const cols = new Map<string, SubjectColumns>();
+  let current: SubjectColumns | null = null;
+  for (let idx = 0; idx < head.length; idx++) {
+    const cell = head[idx];
+    const lower = sub[idx] ?? "";
+    const name = subjects.find((s) => cell.includes(s));
+
+    if (name) {
+      current = cols.get(name) ?? { name, score: null, deviation: null, rank: null };
+      cols.set(name, current);
+    } else if (cell && !/^(偏差値?|順位|得点)$/.test(cell)) {
+      current = null;
+      continue;
+    } else if (!cell && !lower) {
+      continue;
+    }
+    if (!current) continue;
+
+    const label = `${name ? cell.replace(name, "") : cell}${lower}`;
+    const role = /偏差/.test(label) ? "deviation" : /順位/.test(label) ? "rank" : "score";
+    if (current[role] == null) current[role] = idx;
+  }
+
+  return [...cols.values()];
+}
+
+/** マッチ位置を含む1行（行パターンは先頭の列しか取らないので、科目列は行全体から読む） */
+function lineAt(text: string, index: number) {
+  const start = text.lastIndexOf("\n", index) + 1;
+  const end = text.indexOf("\n", index);
+  return text.slice(start, end < 0 ? undefined : end);
+}
+
+function pickSubjectCells(line: string, columns: SubjectColumns[]): SubjectCells[] {
+  const cells = splitCells(line);
+  const at = (i: number | null) => (i == null ? undefined : cells[i]);
+  return columns.map((c) => ({ name: c.name, score: at(c.score), deviation: at(c.deviation), rank: at(c.rank) }));
+}
+
+/** 科目のセル → 数値（読めない・範囲外は null + notes。科目の欄は provenance を持たない） */
+function subjectNum(v: string | undefined, range: ValueRange, label: string, notes: string[]) {
+  const raw = dashToNull(v);
+  if (raw == null) return null;
+  const n = clampNum(raw, range.min, range.max);
+  if (n == null) notes.push(`公開: ${label}「${String(raw).trim()}」を読めないか範囲外のため破棄`);
+  return n;
+}
+
+type TestWithProvenance = { t: JukuTest; prov: TestProvenance };
+
+/** 1行 → テスト1件（ガード・2科/4科ズレ補正まで） */
+function buildTestFromRow(
+  section: YearlySection,
+  cells: RowCells,
+  fmt: YearlyFormatDef,
+  subjectCells: SubjectCells[] = []
+): TestWithProvenance | null {
+  const date = rowDate(cells);
+  if (!date) return null;
+
+  const { ranges } = fmt;
+  const notes: string[] = [];
+  const prov = createTestProvenance("regex-row");
+
+  if (cells.date != null && !YMD_RE.test(cells.date)) {
+    markProvenance(prov, "date", "normalized", `「${cells.date.trim()}」に日が無いため ${date} として補完`);
+  }
+
+  const fourScore = cellNum(cells.fourScore, ranges.fourScore, prov, "four.score");
+  const twoScore = cellNum(cells.twoScore, ranges.twoScore, prov, "two.score");
+
+  // ✅ 育成評価：範囲外は「OCR甘い」扱いで null
+  const fourGradeRaw = toNumberOrNull(dashToNull(cells.fourGrade));
+  const twoGradeRaw = toNumberOrNull(dashToNull(cells.twoGrade));
+  const fourGrade = cellNum(cells.fourGrade, ranges.grade, prov, "four.grade");
+  const twoGrade = cellNum(cells.twoGrade, ranges.grade, prov, "two.grade");
+
+  if (fourGradeRaw === 1 || fourGradeRaw === 2) notes.push(`育成: 4科評価が${fourGradeRaw}として読まれたため破棄`);
+  if (twoGradeRaw === 1 || twoGradeRaw === 2) notes.push(`育成: 2科評価が${twoGradeRaw}として読まれたため破棄`);
+
+  const fourDev = cellNum(cells.fourDeviation, ranges.deviation, prov, "four.deviation");
+  let twoDev = cellNum(cells.twoDeviation, ranges.deviation, prov, "two.deviation");
+
+  // ✅ twoScore が無いなら twoDev も必ず null（誤読10対策）
+  if (twoScore == null && twoDev != null) {
+    markProvenance(prov, "two.deviation", "clamped", `2科得点が無いため偏差${twoDev}を破棄`);
+    twoDev = null;
+  }
+
+  const subjects: JukuTest["subjects"] = subjectCells
+    .map((c) => ({
+      name: c.name,
+      score: subjectNum(c.score, ranges.subjectScore, `${c.name}の得点`, notes),
+      deviation: subjectNum(c.deviation, ranges.deviation, `${c.name}の偏差`, notes),
+      rank: subjectNum(c.rank, ranges.rank, `${c.name}の順位`, notes),
+    }))
+    .filter((x) => x.score != null || x.deviation != null || x.rank != null);
+
+  const t: JukuTest = {
+    testType: section.testType,
+    testName: section.testName.replace("{n}", String(Number(cells.round))),
+    date,
+    subjects,
+    totals: {
+      two: { score: twoScore, deviation: twoDev, rank: null, grade: twoGrade },
+      four: { score: fourScore, deviation: fourDev, rank: null, grade: fourGrade },
+    },
+    notes,
+  };
+
+  nullifyFieldsByType(t);
+  forceNullifyFourIfMissing(t);
+
+  // 種別ごとの補正（各関数が testType を見て自分の種別だけ触る）
+  fixIkuseiTwoFourByRange(t, prov);
+  fixIkuseiTwoFourMix(t, prov);
+  fixKokaiFourScoreIfSuspicious(t, prov);
+
+  return { t, prov };
+}
+
+function parseSection(ocrText: string, section: YearlySection, fmt: YearlyFormatDef): TestWithProvenance[] {
+  const block = sliceBetweenAny(ocrText, section.starts, section.ends);
+  if (!block) return [];
+
+  const subjectColumns = section.subjects ? findSubjectColumns(block, section.subjects) : [];
+
+  for (const pattern of section.rows) {
+    const matches = [...block.matchAll(pattern.re)];
+    if (matches.length === 0) continue;
+
+    return matches
+      .map((m) =>
+        buildTestFromRow(
+          section,
+          pickCells(m, pattern.columns),
+          fmt,
+          subjectColumns.length ? pickSubjectCells(lineAt(block, m.index ?? 0), subjectColumns) : []
+        )
+      )
+      .filter((x): x is TestWithProvenance => x != null);
+  }
+
+  return [];
+}
+
+/** 年間JSON + 欄ごとの provenance（provenance[i] が yearly.tests[i]） */
+export function buildYearlyWithProvenance(ocrText: string, sourceFilename: string, formatId: string) {
+  const yearly: JukuReportJson = {
+    docType: "juku_report",
+    student: { name: null, id: null },
+    meta: { sourceFilename, title: null },
+    tests: [],
+    notes: [],
+  };
+
+  const fmt = findYearlyFormat(formatId);
+  if (!fmt) {
+    yearly.notes.push(`未知の年間フォーマット: ${formatId}`);
+    return { yearly, provenance: [] as TestProvenance[] };
+  }
+
+  let rows: TestWithProvenance[] = [];
+  for (const section of fmt.sections) {
+    rows.push(...parseSection(ocrText, section, fmt));
+  }
+
+  // 念のため：育成/公開のみ + 学判除外
+  rows = rows
+    .map(({ t, prov }) => ({ t: { ...t, testType: normalizeTestTypeLabel(String(t.testName ?? "")) }, prov }))
+    .filter(
+      ({ t }) => (t.testType === "ikusei" || t.testType === "kokai_moshi") && !isGakuhanLike(String(t.testName ?? ""))
+    );
+
+  rows.sort(({ t: a }, { t: b }) => {
+    const da = a.date ?? "";
+    const db = b.date ?? "";
+    if (da && db) return da.localeCompare(db);
+    if (da && !db) return -1;
+    if (!da && db) return 1;
+    return String(a.testName ?? "").localeCompare(String(b.testName ?? ""));
+  });
+
+  yearly.tests = rows.map((r) => r.t);
+  return { yearly, provenance: rows.map((r) => r.prov) };
+}
+
+export function buildYearlyFromOcrTextByFormat(ocrText: string, sourceFilename: string, formatId: string) {
+  return buildYearlyWithProvenance(ocrText, sourceFilename, formatId).yearly;
+}
+
+/**
+ * 全形式で読んでみて、テスト件数が最多の形式を採用
+ * - 同数なら判定結果（detectYearlyFormatFromOcrText）→ 既定形式の順
+ */
+export function buildYearlyFromOcrTextAuto(ocrText: string, sourceFilename: string) {
+  const detected = detectYearlyFormatFromOcrText(ocrText);
+
+  const tries = YEARLY_FORMATS.map((f) => ({
+    id: f.id,
+    ...buildYearlyWithProvenance(ocrText, sourceFilename, f.id),
+  }));
+  const counts: Record<string, number> = Object.fromEntries(tries.map((x) => [x.id, x.yearly.tests.length]));
+
+  const max = Math.max(...tries.map((x) => x.yearly.tests.length));
+  const top = tries.filter((x) => x.yearly.tests.length === max);
+  const best =
+    top.find((x) => x.id === detected) ?? top.find((x) => x.id === DEFAULT_YEARLY_FORMAT_ID) ?? top[0];
+
+  return { yearly: best.yearly, provenance: best.provenance, detected, chosen: best.id, counts };
+}
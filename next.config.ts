@@ -1,7 +1,8 @@
 import type { NextConfig } from "next";
 
 const nextConfig: NextConfig = {
-  /* config options here */
+  // pdfjs-dist は worker を動的 import するのでバンドルせず node_modules から読む（lib/pdfText）
+  serverExternalPackages: ["pdfjs-dist"],
 };
 
 export default nextConfig;
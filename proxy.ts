@@ -0,0 +1,62 @@
+import { createServerClient } from "@supabase/ssr";
+import { NextRequest, NextResponse } from "next/server";
+import { accessErrorBody, decideAccess, findPolicy, parseRole } from "@/lib/accessPolicy";
+import type { Role } from "@/lib/auth";
+
+/**
+ * ページ / API 共通のアクセス制御
+ * - Supabase のセッションをここで更新（Cookie の書き戻しは response 側）
+ * - role は profiles から解決し、ROUTE_POLICY で判定
+ * - API は 401/403 JSON、ページはログイン画面 or トップへリダイレクト
+ */
+export async function proxy(request: NextRequest) {
+  let response = NextResponse.next({ request });
+
+  const supabase = createServerClient(process.env.SUPABASE_URL!, process.env.SUPABASE_ANON_KEY!, {
+    cookies: {
+      getAll() {
+        return request.cookies.getAll();
+      },
+      setAll(cookies) {
+        cookies.forEach(({ name, value }) => request.cookies.set(name, value));
+        response = NextResponse.next({ request });
+        cookies.forEach(({ name, value, options }) => response.cookies.set(name, value, options));
+      },
+    },
+  });
+
+  // getUser() はトークンを Auth サーバーで検証する（期限切れ・改ざんは null）
+  const { data: { user } } = await supabase.auth.getUser();
+
+  const { pathname } = request.nextUrl;
+  const policy = findPolicy(pathname);
+  if (!policy || policy.allow === "public") return response;
+
+  let role: Role | null | undefined = undefined;
+  if (user) {
+    const { data: profile } = await supabase.from("profiles").select("role").eq("user_id", user.id).maybeSingle();
+    role = parseRole(profile?.role);
+  }
+
+  const decision = decideAccess(pathname, role);
+  if (decision === "allow") return response;
+
+  if (pathname.startsWith("/api/")) {
+    return NextResponse.json(accessErrorBody(decision), { status: decision === "unauthorized" ? 401 : 403 });
+  }
+
+  const url = request.nextUrl.clone();
+  url.search = "";
+  if (decision === "unauthorized") {
+    url.pathname = pathname.startsWith("/analyze") ? "/login/teacher" : "/login";
+  } else {
+    // ログイン済みだが権限外：トップで role ごとの画面へ振り分け
+    url.pathname = "/";
+  }
+  return NextResponse.redirect(url);
+}
+
+export const config = {
+  // 静的ファイル・画像最適化は対象外
+  matcher: ["/((?!_next/static|_next/image|favicon.ico|.*\\.(?:svg|png|jpg|jpeg|gif|webp)$).*)"],
+};
@@ -0,0 +1,32 @@
+-- 分析履歴：/api/analyze の1回の実行 = 1行
+create table if not exists public.analyses (
+  id uuid primary key default gen_random_uuid(),
+  created_at timestamptz not null default now(),
+
+  -- 誰が / 誰の
+  teacher_id uuid references auth.users (id) on delete set null,
+  student_id text,
+  student_name text,
+
+  -- 入力
+  bucket text not null,
+  input_files jsonb not null default '{}'::jsonb,
+  selections jsonb not null default '{}'::jsonb,
+
+  -- 抽出・分析結果
+  analysis_mode text not null,
+  summary text,
+  yearly_report_json jsonb,
+  yearly_trends jsonb,
+  warnings jsonb not null default '[]'::jsonb,
+  reports jsonb,
+
+  -- /api/analyze のレスポンス全体（再表示用）
+  response jsonb not null
+);
+
+create index if not exists analyses_teacher_created_idx on public.analyses (teacher_id, created_at desc);
+create index if not exists analyses_student_created_idx on public.analyses (student_id, created_at desc);
+
+-- 読み書きは Service Role（API経由）のみ
+alter table public.analyses enable row level security;
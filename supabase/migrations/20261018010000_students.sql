@@ -0,0 +1,13 @@
+-- 生徒：生徒ID（塾の個人ページのID）をキーに、育成/公開の受験履歴を1本の時系列で持つ
+create table if not exists public.students (
+  id text primary key, -- 生徒ID（例：S123456）
+  name text,
+
+  -- JukuReportJson.tests と同じ形の配列（testType + date で重複排除済み・日付順）
+  timeline jsonb not null default '[]'::jsonb,
+
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now()
+);
+
+alter table public.students enable row level security;
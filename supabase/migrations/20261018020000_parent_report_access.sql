@@ -0,0 +1,15 @@
+-- 保護者：ログインユーザー（profiles.user_id）と生徒（students.id）をひも付ける
+alter table public.profiles add column if not exists student_id text references public.students (id) on delete set null;
+
+-- 保護者は「自分の子ども」の行だけ読める（書き込みは API / Service Role のみ）
+create policy "parents can read own child"
+  on public.students for select to authenticated
+  using (
+    id = (select p.student_id from public.profiles p where p.user_id = auth.uid() and p.role = 'parent')
+  );
+
+create policy "parents can read own child's analyses"
+  on public.analyses for select to authenticated
+  using (
+    student_id = (select p.student_id from public.profiles p where p.user_id = auth.uid() and p.role = 'parent')
+  );
@@ -0,0 +1,27 @@
+-- role：teacher / parent / admin
+alter table public.profiles drop constraint if exists profiles_role_check;
+alter table public.profiles add constraint profiles_role_check check (role in ('teacher', 'parent', 'admin'));
+
+-- ログインユーザーの role（RLS ポリシー用）
+create or replace function public.current_app_role()
+returns text
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select role from public.profiles where user_id = auth.uid()
+$$;
+
+-- 成績PDF（report-pdfs）は講師/管理者だけが読み書きできる（Service Role を使わずに /api/analyze からアップロード）
+create policy "staff can upload report pdfs"
+  on storage.objects for insert to authenticated
+  with check (bucket_id = 'report-pdfs' and public.current_app_role() in ('teacher', 'admin'));
+
+create policy "staff can update report pdfs"
+  on storage.objects for update to authenticated
+  using (bucket_id = 'report-pdfs' and public.current_app_role() in ('teacher', 'admin'));
+
+create policy "staff can read report pdfs"
+  on storage.objects for select to authenticated
+  using (bucket_id = 'report-pdfs' and public.current_app_role() in ('teacher', 'admin'));
@@ -0,0 +1,28 @@
+-- まなぶ先生AI：相談スレッド（複数ターンの会話）
+create table if not exists public.chat_threads (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null references auth.users (id) on delete cascade,
+  title text,
+
+  -- 古いターンの要約（トークン予算からあふれた分を畳み込む）
+  summary text,
+  summarized_count integer not null default 0, -- 先頭から何件を summary に畳み込んだか
+
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now()
+);
+
+create table if not exists public.chat_messages (
+  id bigint generated always as identity primary key,
+  thread_id uuid not null references public.chat_threads (id) on delete cascade,
+  role text not null check (role in ('user', 'assistant')),
+  content text not null,
+  created_at timestamptz not null default now()
+);
+
+create index if not exists chat_threads_user_updated_idx on public.chat_threads (user_id, updated_at desc);
+create index if not exists chat_messages_thread_idx on public.chat_messages (thread_id, id);
+
+-- 読み書きは /api/chat（Service Role + 所有者チェック）経由のみ
+alter table public.chat_threads enable row level security;
+alter table public.chat_messages enable row level security;
@@ -0,0 +1,15 @@
+-- OCR結果のキャッシュ（同じPDFの再分析でモデル呼び出しを省く）
+create table if not exists public.ocr_cache (
+  key text primary key, -- sha256(pdf_sha256 + focus_hint + version + model)
+  pdf_sha256 text not null,
+  focus_hint text,
+  version integer not null,
+  model text not null,
+  text text not null,
+  created_at timestamptz not null default now()
+);
+
+create index if not exists ocr_cache_pdf_idx on public.ocr_cache (pdf_sha256);
+
+-- 読み書きは /api/analyze（Service Role）経由のみ
+alter table public.ocr_cache enable row level security;
@@ -0,0 +1,5 @@
+-- 講師による成績表の修正（再OCRせずに推移・レポートだけ作り直す）
+alter table public.analyses
+  add column if not exists corrected_tests jsonb,
+  add column if not exists corrected_at timestamptz,
+  add column if not exists corrected_by uuid references auth.users (id) on delete set null;
@@ -0,0 +1,22 @@
+-- 分析ジョブ：/api/analyze はジョブを作ってすぐ返し、処理は after() のワーカーで進める
+create table if not exists public.analysis_jobs (
+  id uuid primary key default gen_random_uuid(),
+  teacher_id uuid not null references auth.users (id) on delete cascade,
+
+  status text not null default 'queued' check (status in ('queued', 'running', 'succeeded', 'failed')),
+  stages jsonb not null default '[]'::jsonb, -- [{ key, label, status, startedAt, finishedAt }]
+  input jsonb not null default '{}'::jsonb, -- ファイル名・設定など（PDF本体は持たない）
+
+  -- 結果（/api/analyze の旧レスポンスと同じ形）
+  result jsonb,
+  error text,
+  analysis_id uuid references public.analyses (id) on delete set null,
+
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now()
+);
+
+create index if not exists analysis_jobs_teacher_created_idx on public.analysis_jobs (teacher_id, created_at desc);
+
+-- 読み書きは /api/analyze（Service Role + 所有者チェック）経由のみ
+alter table public.analysis_jobs enable row level security;
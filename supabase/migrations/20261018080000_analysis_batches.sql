@@ -0,0 +1,18 @@
+-- 一括分析：ZIP / 複数PDF を生徒ごとに分けて、1人1ジョブ（analysis_jobs）で流す
+create table if not exists public.analysis_batches (
+  id uuid primary key default gen_random_uuid(),
+  teacher_id uuid not null references auth.users (id) on delete cascade,
+  selections jsonb not null default '{}'::jsonb,
+  skipped jsonb not null default '[]'::jsonb, -- 読まなかったファイル [{ name, reason }]
+  created_at timestamptz not null default now()
+);
+
+create index if not exists analysis_batches_teacher_created_idx on public.analysis_batches (teacher_id, created_at desc);
+
+alter table public.analysis_jobs
+  add column if not exists batch_id uuid references public.analysis_batches (id) on delete cascade;
+
+create index if not exists analysis_jobs_batch_idx on public.analysis_jobs (batch_id, created_at);
+
+-- 読み書きは /api/analyze/batch（Service Role + 所有者チェック）経由のみ
+alter table public.analysis_batches enable row level security;
@@ -0,0 +1,24 @@
+-- 志望校：生徒ごとに複数校、公開模試の合格可能性 80% / 50% の偏差値ラインを塾で登録
+create table if not exists public.student_targets (
+  id uuid primary key default gen_random_uuid(),
+  student_id text not null references public.students (id) on delete cascade,
+  school_name text not null,
+  line80 numeric(4, 1) check (line80 between 20 and 80),
+  line50 numeric(4, 1) check (line50 between 20 and 80),
+  priority int not null default 1, -- 第◯志望
+  created_by uuid references auth.users (id) on delete set null,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now(),
+  check (line80 is not null or line50 is not null)
+);
+
+create index if not exists student_targets_student_idx on public.student_targets (student_id, priority);
+
+-- 書き込みは /api/students/:id/targets（講師チェック + Service Role）のみ
+alter table public.student_targets enable row level security;
+
+create policy "parents can read own child's targets"
+  on public.student_targets for select to authenticated
+  using (
+    student_id = (select p.student_id from public.profiles p where p.user_id = auth.uid() and p.role = 'parent')
+  );
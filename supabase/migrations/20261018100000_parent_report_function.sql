@@ -0,0 +1,22 @@
+-- 保護者の analyses 読み取りは行ごとの SELECT だったため、response（OCR本文・モデル出力・provenance・面談用の文面・見込み）、
+-- warnings、保存パスまで読めてしまう → ポリシーを外し、保護者向けの2つと作成日時だけを返す関数に絞る
+drop policy if exists "parents can read own child's analyses" on public.analyses;
+
+-- 保護者（profiles.role = 'parent'）の子どもの最新レポート（parent_handout / child_simple のみ）
+create or replace function public.parent_latest_report()
+returns table (created_at timestamptz, parent_handout jsonb, child_simple jsonb)
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select a.created_at, a.reports -> 'parent_handout', a.reports -> 'child_simple'
+  from public.analyses a
+  join public.profiles p on p.student_id = a.student_id
+  where p.user_id = auth.uid() and p.role = 'parent'
+  order by a.created_at desc
+  limit 1
+$$;
+
+revoke all on function public.parent_latest_report() from public, anon;
+grant execute on function public.parent_latest_report() to authenticated;
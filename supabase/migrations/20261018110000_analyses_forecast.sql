@@ -0,0 +1,8 @@
+-- 次回の公開模試の見込み（講師画面のみ）は response に入れず専用の列に置く
+-- - 保護者向けの関数（parent_latest_report）は返さない。読み書きは Service Role（API経由）のみ
+alter table public.analyses add column if not exists forecast jsonb;
+
+-- 既存の行：response に入っていた分を移す
+update public.analyses
+  set forecast = response -> 'forecast', response = response - 'forecast'
+  where response ? 'forecast';